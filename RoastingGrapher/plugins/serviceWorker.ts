@@ -0,0 +1,117 @@
+/**
+ * Service Worker Plugin
+ *
+ * Vite build plugin that emits `sw.js`, a service worker precaching the build
+ * output (scripts, styles, assets, index.html) and the listed public files so
+ * the app loads fully offline.
+ *
+ * The cache name is derived from the build output, so every deployment with
+ * changed files installs as a new service worker. The new worker waits until
+ * the app tells it to take over (see src/utils/serviceWorker.ts), and only
+ * deletes this app's older precaches once it is active.
+ */
+import type { Plugin } from 'vite'
+
+/** Prefix of this app's precache names (other caches on the origin are left alone) */
+const CACHE_PREFIX = 'roasting-grapher-'
+
+interface ServiceWorkerPluginOptions {
+  /** Files from the public directory to precache, relative to it */
+  publicFiles: string[]
+}
+
+/**
+ * 32-bit FNV-1a hash of a string, as hex
+ */
+const hashString = (value: string): string => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Service worker source for a precache
+ *
+ * @param cacheName - Name of this build's precache
+ * @param urls - Precached URLs relative to the service worker scope
+ */
+const createServiceWorkerSource = (cacheName: string, urls: string[]): string => `// Generated at build time by plugins/serviceWorker.ts
+const CACHE_PREFIX = ${JSON.stringify(CACHE_PREFIX)};
+const CACHE_NAME = ${JSON.stringify(cacheName)};
+const PRECACHE_URLS = ${JSON.stringify(urls, null, 2)}.map((url) => new URL(url, self.registration.scope).href);
+const INDEX_URL = new URL('index.html', self.registration.scope).href;
+
+self.addEventListener('install', (event) => {
+  // Not skipping the waiting phase: the app asks the user before taking over
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    // Pages always load the precached index.html, matching the precached assets
+    event.respondWith(
+      caches.open(CACHE_NAME)
+        .then((cache) => cache.match(INDEX_URL))
+        .then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.match(request))
+      .then((cached) => cached || fetch(request))
+  );
+});
+`
+
+/**
+ * Create the service worker build plugin
+ *
+ * @param options - Public files to precache
+ * @returns Vite plugin (applied to production builds only)
+ */
+export const serviceWorker = ({ publicFiles }: ServiceWorkerPluginOptions): Plugin => ({
+  name: 'roasting-grapher:service-worker',
+  apply: 'build',
+  // After the HTML plugin, so index.html is part of the bundle
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).filter((fileName) => !fileName.endsWith('.map')).sort()
+    const indexHtml = bundle['index.html']
+    const indexSource = indexHtml?.type === 'asset' ? String(indexHtml.source) : ''
+    // Bundled file names carry content hashes, and index.html references them
+    const cacheName = `${CACHE_PREFIX}${hashString([...files, ...publicFiles, indexSource].join('\n'))}`
+    const urls = [...files, ...publicFiles]
+
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: createServiceWorkerSource(cacheName, urls)
+    })
+  }
+})
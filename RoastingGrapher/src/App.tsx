@@ -1,106 +1,360 @@
 /**
  * Main App Component
  * 
- * Manages navigation between setup, roasting, and summary screens.
+ * Manages navigation between setup, roasting, summary, history, comparison, inventory and backup screens.
  * Handles session state including bean name, temperatures, first crack time, and DTR data.
+ * Completed roasts are saved automatically to the local roast library, and their
+ * green batch weight is deducted from the inventory lot they were roasted from.
+ * A new app version is offered for reload on every screen except roasting.
+ * Opening a share link shows the shared roast read-only (it is not saved).
  */
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import MainScreen from './MainScreen'
 import RoastingScreen from './RoastingScreen'
 import SummaryScreen from './SummaryScreen'
+import HistoryScreen from './HistoryScreen'
+import ComparisonScreen from './ComparisonScreen'
+import InventoryScreen from './InventoryScreen'
+import BackupScreen from './BackupScreen'
+import UpdatePrompt from './UpdatePrompt'
+import type { RoastEvent, SessionData, SummaryData, TemperatureDataPoint } from './types'
+import { createRoastId, saveRoast } from './utils/roastHistory'
+import { formatImportIssue } from './utils/importUtils'
+import type { ImportIssue } from './utils/importUtils'
+import { createSummaryFromSession, removeSavedSession } from './utils/sessionRecovery'
+import type { SavedSession } from './utils/sessionRecovery'
+import { deductLotWeight, formatWeight } from './utils/inventory'
+import { readShareLink } from './utils/shareLink'
 
 /**
- * Session data structure
+ * Screen currently displayed
  */
-interface SessionData {
-  beanName: string;
-  chargeTemp: number;
-  unit: 'C' | 'F';
-}
+type Screen = 'setup' | 'roasting' | 'summary' | 'history' | 'comparison' | 'inventory' | 'backup';
 
 /**
- * Temperature data point structure
+ * Screen the summary returns to
  */
-interface TemperatureDataPoint {
-  time: number;
-  temperature: number;
-}
+type SummaryOrigin = 'setup' | 'history' | 'inventory' | 'link';
+
+const SUMMARY_BACK_LABELS: Record<SummaryOrigin, string> = {
+  setup: 'Back to Setup',
+  history: 'Back to History',
+  inventory: 'Back to Inventory',
+  link: 'Open Roasting Session Setup'
+};
 
 /**
- * Summary data structure with first crack time for DTR calculation
+ * Deducts a completed roast's green batch weight from its inventory lot
+ *
+ * @returns Warning to show with the roast when the stock could not be deducted in full, or null
  */
-interface SummaryData {
-  beanName: string;
-  chargeTemp: number;
-  unit: 'C' | 'F';
-  temperatureData: TemperatureDataPoint[];
-  totalTime: number;
-  firstCrackTime: number | null;
-}
+const deductFromLot = async (roast: SummaryData): Promise<string | null> => {
+  if (!roast.lotId) return null;
+  if (!roast.greenWeight) {
+    return 'The green batch weight was not recorded, so it was not deducted from the lot. Correct the stock on the inventory screen.';
+  }
+  try {
+    const result = await deductLotWeight(roast.lotId, roast.greenWeight);
+    if (!result) return 'The lot this roast was taken from no longer exists, so no stock was deducted.';
+    if (result.shortfall > 0) {
+      return `The batch was ${formatWeight(result.shortfall)} more than the stock of ${result.lot.name}; ` +
+        'the lot is now empty. Correct its stock on the inventory screen.';
+    }
+    return null;
+  } catch (error) {
+    console.error('Failed to update inventory lot:', error);
+    return 'The batch could not be deducted from its inventory lot.';
+  }
+};
 
 function App() {
-  // Current roasting session data, null when on setup screen
+  // Currently displayed screen
+  const [screen, setScreen] = useState<Screen>('setup');
+  // Current roasting session data, null when no session is active
   const [session, setSession] = useState<SessionData | null>(null);
-  // Summary data for completed session
+  // Summary data for the completed or opened roast
   const [summary, setSummary] = useState<SummaryData | null>(null);
+  // Screen the summary was opened from
+  const [summaryOrigin, setSummaryOrigin] = useState<SummaryOrigin>('setup');
+  // Warnings from importing the displayed roast, shown on the summary screen
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  // Problem deducting a roast's batch from its lot, shown while that roast is displayed
+  const [lotWarning, setLotWarning] = useState<{ roastId: string; message: string } | null>(null);
+  // Roasts selected on the history screen for comparison
+  const [comparisonRoasts, setComparisonRoasts] = useState<SummaryData[]>([]);
+  // Why the opened share link could not be shown
+  const [shareLinkError, setShareLinkError] = useState<string | null>(null);
+  // Current screen, read when a share link is opened
+  const screenRef = useRef(screen);
+
+  useEffect(() => {
+    screenRef.current = screen;
+  }, [screen]);
+
+  /**
+   * Opens the roast in a share link, when the app is opened with one or one is
+   * pasted into the address bar (never interrupting a roast in progress)
+   */
+  useEffect(() => {
+    const openShareLink = () => {
+      readShareLink(window.location.hash)
+        .then((result) => {
+          if (!result) return;
+          if ('error' in result) {
+            setShareLinkError(result.error);
+            return;
+          }
+          if (screenRef.current === 'roasting') return;
+          setShareLinkError(null);
+          setSummary(result.roast);
+          setImportWarnings(result.warnings);
+          setSummaryOrigin('link');
+          setScreen('summary');
+        })
+        .catch((error) => {
+          console.error('Failed to open share link:', error);
+        });
+    };
+    openShareLink();
+    window.addEventListener('hashchange', openShareLink);
+    return () => window.removeEventListener('hashchange', openShareLink);
+  }, []);
 
   /**
    * Starts a new roasting session with provided parameters
    */
-  const handleStartSession = useCallback((beanName: string, chargeTemp: number, unit: 'C' | 'F') => {
-    setSession({ beanName, chargeTemp, unit });
+  const handleStartSession = useCallback((newSession: SessionData) => {
+    setSession(newSession);
     setSummary(null);
+    setScreen('roasting');
   }, []);
 
   /**
-   * Ends the roasting session and navigates to summary screen
+   * Ends the roasting session, saves it to the roast library and navigates to summary screen
    */
-  const handleEndSession = useCallback((data: { temperatureData: TemperatureDataPoint[], totalTime: number, firstCrackTime: number | null }) => {
+  const handleEndSession = useCallback((data: { temperatureData: TemperatureDataPoint[], totalTime: number, firstCrackTime: number | null, events: RoastEvent[] }) => {
     if (session) {
-      setSummary({
+      const completed: SummaryData = {
+        id: createRoastId(),
+        roastedAt: new Date().toISOString(),
         beanName: session.beanName,
         chargeTemp: session.chargeTemp,
         unit: session.unit,
         temperatureData: data.temperatureData,
         totalTime: data.totalTime,
-        firstCrackTime: data.firstCrackTime
+        firstCrackTime: data.firstCrackTime,
+        events: data.events,
+        lotId: session.lotId,
+        greenWeight: session.greenWeight,
+        recipe: session.recipe
+      };
+      saveRoast(completed).catch((error) => {
+        console.error('Failed to save roast to history:', error);
       });
+      void deductFromLot(completed).then((message) => {
+        if (message) setLotWarning({ roastId: completed.id, message });
+      });
+      setSummary(completed);
+      setImportWarnings([]);
+      setSummaryOrigin('setup');
       setSession(null);
+      setScreen('summary');
     }
   }, [session]);
 
+  /**
+   * Opens a roast imported from a file, saving it to the roast library
+   */
+  const handleImportRoast = useCallback((roast: SummaryData, warnings: ImportIssue[]) => {
+    saveRoast(roast).catch((error) => {
+      console.error('Failed to save imported roast to history:', error);
+    });
+    setImportWarnings(warnings.map(formatImportIssue));
+    setSummary(roast);
+    setSummaryOrigin('setup');
+    setScreen('summary');
+  }, []);
+
+  /**
+   * Opens the library copy of a roast whose file was opened again
+   */
+  const handleOpenSavedRoast = useCallback((roast: SummaryData) => {
+    setImportWarnings([]);
+    setSummary(roast);
+    setSummaryOrigin('setup');
+    setScreen('summary');
+  }, []);
+
+  /**
+   * Continues an unfinished session from where it was saved
+   */
+  const handleResumeSession = useCallback((saved: SavedSession) => {
+    setSession(saved.session);
+    setSummary(null);
+    setScreen('roasting');
+  }, []);
+
+  /**
+   * Ends an unfinished session at its last reading and saves it to the roast library
+   */
+  const handleRecoverSession = useCallback((saved: SavedSession) => {
+    const roast = createSummaryFromSession(saved);
+    saveRoast(roast)
+      .then(() => {
+        removeSavedSession(saved.session.sessionId);
+        return deductFromLot(roast);
+      })
+      .then((message) => {
+        if (message) setLotWarning({ roastId: roast.id, message });
+      })
+      .catch((error) => {
+        console.error('Failed to save recovered roast to history:', error);
+      });
+    setSummary(roast);
+    setImportWarnings([]);
+    setSummaryOrigin('setup');
+    setScreen('summary');
+  }, []);
+
+  /**
+   * Opens a saved roast from the history screen
+   */
+  const handleOpenRoast = useCallback((roast: SummaryData) => {
+    setSummary(roast);
+    setImportWarnings([]);
+    setSummaryOrigin('history');
+    setScreen('summary');
+  }, []);
+
+  /**
+   * Opens a roast from a lot's history on the inventory screen
+   */
+  const handleOpenLotRoast = useCallback((roast: SummaryData) => {
+    setSummary(roast);
+    setImportWarnings([]);
+    setSummaryOrigin('inventory');
+    setScreen('summary');
+  }, []);
+
+  /**
+   * Shows the green coffee inventory screen
+   */
+  const handleOpenInventory = useCallback(() => {
+    setSummary(null);
+    setScreen('inventory');
+  }, []);
+
+  /**
+   * Shows the backup and restore screen
+   */
+  const handleOpenBackup = useCallback(() => {
+    setSummary(null);
+    setScreen('backup');
+  }, []);
+
   /**
    * Returns to the setup screen and clears all data
    */
   const handleBackToSetup = useCallback(() => {
+    // Leaving a shared roast drops the link so a reload opens the setup
+    if (window.location.hash) window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    setShareLinkError(null);
     setSession(null);
     setSummary(null);
+    setScreen('setup');
+  }, []);
+
+  /**
+   * Shows the roast history screen
+   */
+  const handleOpenHistory = useCallback(() => {
+    setSummary(null);
+    setScreen('history');
+  }, []);
+
+  /**
+   * Saves edits to the displayed roast (e.g., its batch weights)
+   */
+  const handleUpdateRoast = useCallback((roast: SummaryData) => {
+    saveRoast(roast).catch((error) => {
+      console.error('Failed to save roast to history:', error);
+    });
+    setSummary(roast);
+  }, []);
+
+  /**
+   * Opens the comparison of roasts selected on the history screen
+   */
+  const handleCompareRoasts = useCallback((roasts: SummaryData[]) => {
+    setComparisonRoasts(roasts);
+    setScreen('comparison');
   }, []);
 
   return (
     <div className='full-width center-elements'>
-      {summary ? (
-        // Show summary screen when session is complete
+      {/* Never offer to reload mid-roast */}
+      {screen !== 'roasting' && <UpdatePrompt />}
+      {screen === 'summary' && summary ? (
+        // Show summary screen when session is complete or a saved roast is opened
         <SummaryScreen
-          beanName={summary.beanName}
-          chargeTemp={summary.chargeTemp}
-          unit={summary.unit}
-          temperatureData={summary.temperatureData}
-          totalTime={summary.totalTime}
-          firstCrackTime={summary.firstCrackTime}
-          onBackToSetup={handleBackToSetup}
+          key={summary.id}
+          roast={summary}
+          onBackToSetup={
+            summaryOrigin === 'history' ? handleOpenHistory :
+            summaryOrigin === 'inventory' ? handleOpenInventory :
+            handleBackToSetup
+          }
+          backLabel={SUMMARY_BACK_LABELS[summaryOrigin]}
+          warnings={lotWarning?.roastId === summary.id ? [...importWarnings, lotWarning.message] : importWarnings}
+          onUpdate={summaryOrigin === 'link' ? undefined : handleUpdateRoast}
         />
-      ) : session ? (
+      ) : screen === 'roasting' && session ? (
         // Show roasting screen when a session is active
         <RoastingScreen
+          sessionId={session.sessionId}
           beanName={session.beanName}
           chargeTemp={session.chargeTemp}
           unit={session.unit}
+          referenceRoast={session.referenceRoast}
+          source={session.source}
+          channels={session.channels}
+          targets={session.targets}
+          lotId={session.lotId}
+          greenWeight={session.greenWeight}
+          recipe={session.recipe}
           onBack={handleEndSession}
         />
+      ) : screen === 'history' ? (
+        // Show the roast library
+        <HistoryScreen onOpenRoast={handleOpenRoast} onCompare={handleCompareRoasts} onBack={handleBackToSetup} />
+      ) : screen === 'comparison' ? (
+        // Show the selected roasts overlaid
+        <ComparisonScreen roasts={comparisonRoasts} onBack={handleOpenHistory} />
+      ) : screen === 'inventory' ? (
+        // Show the green coffee inventory
+        <InventoryScreen onOpenRoast={handleOpenLotRoast} onBack={handleBackToSetup} />
+      ) : screen === 'backup' ? (
+        // Show backup and restore of all local data
+        <BackupScreen onBack={handleBackToSetup} />
       ) : (
         // Show setup screen when no session is active
-        <MainScreen onStart={handleStartSession} />
+        <>
+          {shareLinkError && (
+            <div className="import-errors" role="alert">
+              <strong>The shared roast could not be opened:</strong> {shareLinkError}
+            </div>
+          )}
+          <MainScreen
+            onStart={handleStartSession}
+            onOpenHistory={handleOpenHistory}
+            onOpenInventory={handleOpenInventory}
+            onOpenBackup={handleOpenBackup}
+            onOpenRoast={handleImportRoast}
+            onOpenSavedRoast={handleOpenSavedRoast}
+            onResumeSession={handleResumeSession}
+            onRecoverSession={handleRecoverSession}
+          />
+        </>
       )}
     </div>
   )
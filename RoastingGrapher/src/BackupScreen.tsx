@@ -0,0 +1,201 @@
+/**
+ * Backup Screen Component
+ *
+ * Backs up and restores all local data:
+ * - Downloading a single backup file (settings, unfinished roasts, roast
+ *   library, recipes, inventory)
+ * - Restoring a backup file after previewing its contents and duplicates,
+ *   merged into or replacing the local data
+ * - Resetting the app (clears caches and local settings, offering a backup first)
+ */
+import { useRef, useState } from 'react';
+import { downloadBackup, previewRestore, readBackupFile, restoreBackup } from './utils/backup';
+import type { BackupFile, BackupManifest, RestoreMode, RestorePreview } from './utils/backup';
+import { forceClearCacheAndReload } from './utils/cacheManager';
+
+interface BackupScreenProps {
+  /** Callback function to return to the setup screen */
+  onBack: () => void;
+}
+
+/**
+ * Format the record counts of a backup manifest
+ */
+const formatCounts = ({ counts }: BackupManifest): string => {
+  const parts = [
+    `${counts.roasts} roast${counts.roasts === 1 ? '' : 's'}`,
+    `${counts.sessions} unfinished roast${counts.sessions === 1 ? '' : 's'}`,
+    `${counts.recipes ?? 0} recipe${counts.recipes === 1 ? '' : 's'}`,
+    `${counts.lots} lot${counts.lots === 1 ? '' : 's'}`,
+    `${counts.settings} setting${counts.settings === 1 ? '' : 's'}`
+  ];
+  if (counts.quarantined > 0) parts.push(`${counts.quarantined} quarantined record${counts.quarantined === 1 ? '' : 's'}`);
+  return parts.join(', ');
+};
+
+function BackupScreen({ onBack }: BackupScreenProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  // Backup selected for restoring, with its comparison to the local data
+  const [pending, setPending] = useState<{ backup: BackupFile; preview: RestorePreview } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+
+  /**
+   * Downloads a backup of all local data
+   */
+  const handleDownload = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const manifest = await downloadBackup();
+      setMessage(`Backup downloaded: ${formatCounts(manifest)}.`);
+    } catch (err) {
+      console.error('Failed to create backup:', err);
+      setError('The backup could not be created.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  /**
+   * Reads the selected backup file and previews it
+   */
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset the input so selecting the same file again triggers a change
+    e.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    setError(null);
+    setPending(null);
+    try {
+      const result = await readBackupFile(file);
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+      setPending({ backup: result.backup, preview: await previewRestore(result.backup) });
+      setMode('merge');
+    } catch (err) {
+      console.error('Failed to read backup:', err);
+      setError(`Could not read "${file.name}"`);
+    }
+  };
+
+  /**
+   * Restores the previewed backup
+   */
+  const handleRestore = async () => {
+    if (!pending) return;
+    if (mode === 'replace' && !window.confirm(
+      `Replace erases the ${pending.preview.localRoasts} roast${pending.preview.localRoasts === 1 ? '' : 's'} in this browser, ` +
+      'its recipes, inventory, settings and unfinished roasts before restoring the backup. Continue?'
+    )) {
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      const result = await restoreBackup(pending.backup, mode);
+      setPending(null);
+      setMessage(
+        `Restored ${result.roasts} roast${result.roasts === 1 ? '' : 's'}, ` +
+        `${result.sessions} unfinished roast${result.sessions === 1 ? '' : 's'}, ` +
+        `${result.recipes} recipe${result.recipes === 1 ? '' : 's'}, ` +
+        `${result.lots} lot${result.lots === 1 ? '' : 's'} and ${result.settings} setting${result.settings === 1 ? '' : 's'}.`
+      );
+    } catch (err) {
+      console.error('Failed to restore backup:', err);
+      setError('The backup could not be restored.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const preview = pending?.preview;
+
+  return (
+    <div className="screen-container history-screen">
+      <div className="screen-header">
+        <h1>Backup &amp; Restore</h1>
+      </div>
+
+      <div className="backup-section">
+        <p className="form-hint">
+          Everything you record is stored in this browser only. Download a backup to keep it safe
+          or to move it to another computer.
+        </p>
+        <div className="button-group">
+          <button onClick={handleDownload} disabled={isBusy}>Download Backup</button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={isBusy}>Restore from Backup</button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileSelected}
+            style={{ display: 'none' }}
+          />
+        </div>
+        {message && <p role="status">{message}</p>}
+        {error && <p className="error-text" role="alert">{error}</p>}
+      </div>
+
+      {pending && preview && (
+        <div className="backup-section backup-preview">
+          <h3>Backup from {new Date(preview.manifest.createdAt).toLocaleString()}</h3>
+          <p>Contains {formatCounts(preview.manifest)}.</p>
+          <p>
+            {preview.newRoasts} roast{preview.newRoasts === 1 ? ' is' : 's are'} not in this browser yet.
+            {preview.duplicateSessions > 0 && ` ${preview.duplicateSessions} unfinished roast${preview.duplicateSessions === 1 ? ' is' : 's are'} already saved here.`}
+            {preview.duplicateLots > 0 && ` ${preview.duplicateLots} lot${preview.duplicateLots === 1 ? ' is' : 's are'} already in the inventory.`}
+          </p>
+          {preview.duplicateRoasts.length > 0 && (
+            <details>
+              <summary>
+                {preview.duplicateRoasts.length} roast{preview.duplicateRoasts.length === 1 ? ' is' : 's are'} already in the library
+              </summary>
+              <ul className="backup-duplicates">
+                {preview.duplicateRoasts.map((roast) => (
+                  <li key={roast.id}>{roast.beanName} · {new Date(roast.roastedAt).toLocaleDateString()}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+          <div className="form-radio-group">
+            <label className="form-label-inline">
+              <input type="radio" name="restoreMode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+              <span>Merge: add what is missing, keep records already here</span>
+            </label>
+            <label className="form-label-inline">
+              <input type="radio" name="restoreMode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+              <span>Replace: erase the data in this browser, then restore</span>
+            </label>
+          </div>
+          <div className="button-group">
+            <button onClick={handleRestore} disabled={isBusy}>Restore</button>
+            <button onClick={() => setPending(null)} disabled={isBusy}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      <div className="backup-section">
+        <p className="form-hint">
+          If the app misbehaves, resetting clears its caches and the settings and unfinished roasts
+          stored in this browser. You are offered a backup first.
+        </p>
+        <button onClick={() => forceClearCacheAndReload()} disabled={isBusy}>Reset App</button>
+      </div>
+
+      <div className="center-elements">
+        <button onClick={onBack} style={{ width: '100%', maxWidth: '600px' }}>
+          Back to Setup
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default BackupScreen;
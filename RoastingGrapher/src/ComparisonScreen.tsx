@@ -0,0 +1,216 @@
+/**
+ * Comparison Screen Component
+ *
+ * Overlays the bean temperature curves of several roasts on one chart with:
+ * - Selectable alignment: by charge, by first crack, or by normalized roast percentage
+ * - Celsius/Fahrenheit display toggle (roasts recorded in either unit are converted)
+ * - Side-by-side statistics table with a per-curve visibility toggle
+ */
+import { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { formatTime } from './utils/format';
+import { convertRoastUnit } from './utils/unitConversion';
+import { downsampleLTTB } from './utils/sampling';
+import { AXIS_PROPS, GRID_STROKE, LEGEND_STYLE, TOOLTIP_PROPS, formatMinutes, getMinuteTicks, getTemperatureDomain } from './utils/chartConfig';
+import { ALIGNMENT_LABELS, alignRoast, getComparisonColor, getComparisonStats } from './utils/roastComparison';
+import type { ComparisonAlignment } from './utils/roastComparison';
+import UnitToggle from './UnitToggle';
+import type { SummaryData, TemperatureUnit } from './types';
+
+interface ComparisonScreenProps {
+  /** Roasts to compare */
+  roasts: SummaryData[];
+  /** Callback function to return to the roast history */
+  onBack: () => void;
+}
+
+/** Ticks of the normalized roast percentage axis */
+const PERCENT_TICKS = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+function ComparisonScreen({ roasts, onBack }: ComparisonScreenProps) {
+  const [alignment, setAlignment] = useState<ComparisonAlignment>('charge');
+  const [displayUnit, setDisplayUnit] = useState<TemperatureUnit>(roasts[0]?.unit ?? 'C');
+  // Roast ids whose curves are hidden
+  const [hiddenIds, setHiddenIds] = useState<Set<string>>(new Set());
+
+  /**
+   * Roasts in the display unit with their aligned curves and statistics
+   */
+  const curves = useMemo(() => roasts.map((roast, index) => {
+    const displayRoast = convertRoastUnit(roast, displayUnit);
+    return {
+      roast: displayRoast,
+      color: getComparisonColor(index),
+      name: `${roast.beanName} (${new Date(roast.roastedAt).toLocaleDateString()})`,
+      // Curves are drawn from downsampled data so many long roasts stay responsive
+      points: alignRoast({ ...displayRoast, temperatureData: downsampleLTTB(displayRoast.temperatureData) }, alignment),
+      stats: getComparisonStats(displayRoast)
+    };
+  }), [roasts, displayUnit, alignment]);
+
+  const visibleCurves = curves.filter((curve) => curve.points !== null && !hiddenIds.has(curve.roast.id));
+
+  /**
+   * Axis extents of the visible curves
+   */
+  const xValues = visibleCurves.flatMap((curve) => curve.points!.map((point) => point.x));
+  const temperatures = visibleCurves.flatMap((curve) => curve.points!.map((point) => point.temperature));
+  const xMin = xValues.length > 0 ? Math.min(...xValues) : 0;
+  const xMax = xValues.length > 0 ? Math.max(...xValues) : 0;
+  const isNormalized = alignment === 'normalized';
+
+  /**
+   * Shows or hides a roast's curve
+   */
+  const toggleVisibility = (id: string) => {
+    setHiddenIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Formats the aligned X value for axis ticks and the tooltip
+   */
+  const formatX = (value: number) => (isNormalized ? `${Math.round(value)}%` : formatMinutes(value));
+
+  return (
+    <div className="screen-container">
+      <div className="screen-header">
+        <h1>Compare Roasts</h1>
+        <UnitToggle unit={displayUnit} onChange={setDisplayUnit} />
+      </div>
+
+      <div className="graph-wrapper">
+        <div className="graph-container">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart>
+              <CartesianGrid strokeDasharray="3 3" stroke={GRID_STROKE} />
+              <XAxis
+                type="number"
+                dataKey="x"
+                {...AXIS_PROPS}
+                tickFormatter={formatX}
+                label={{
+                  value: isNormalized ? 'Roast (%)' : alignment === 'firstCrack' ? 'Time from first crack (minutes)' : 'Time (minutes)',
+                  position: 'insideBottom',
+                  offset: -5,
+                  fill: AXIS_PROPS.stroke
+                }}
+                domain={isNormalized ? [0, 100] : ['dataMin', 'dataMax']}
+                ticks={isNormalized ? PERCENT_TICKS : getMinuteTicks(xMax, xMin)}
+                allowDecimals={false}
+              />
+              <YAxis
+                {...AXIS_PROPS}
+                label={{ value: `Temperature (°${displayUnit})`, angle: -90, position: 'insideLeft', fill: AXIS_PROPS.stroke }}
+                domain={temperatures.length > 0 ? getTemperatureDomain(Math.min(...temperatures), Math.max(...temperatures)) : ['auto', 'auto']}
+              />
+              <Tooltip
+                {...TOOLTIP_PROPS}
+                labelFormatter={(value) => (isNormalized ? `Roast: ${formatX(value as number)}` : `Time: ${formatTime(Math.abs(value as number))}${(value as number) < 0 ? ' before FC' : ''}`)}
+                formatter={(value) => `${(value as number).toFixed(1)}°${displayUnit}`}
+              />
+              <Legend wrapperStyle={LEGEND_STYLE} />
+              {alignment === 'firstCrack' && (
+                <ReferenceLine
+                  x={0}
+                  stroke="#ffaa00"
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  label={{ value: 'FCs', position: 'top', fill: '#ffaa00', fontSize: 12 }}
+                />
+              )}
+              {curves.map((curve) => curve.points !== null && (
+                <Line
+                  key={curve.roast.id}
+                  data={curve.points}
+                  type="monotone"
+                  dataKey="temperature"
+                  stroke={curve.color}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                  hide={hiddenIds.has(curve.roast.id)}
+                  name={curve.name}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="comparison-controls">
+        <span>Align by:</span>
+        <div className="unit-toggle" role="group" aria-label="Alignment">
+          {(Object.keys(ALIGNMENT_LABELS) as ComparisonAlignment[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`unit-toggle-button${alignment === option ? ' unit-toggle-active' : ''}`}
+              onClick={() => setAlignment(option)}
+              aria-pressed={alignment === option}
+            >
+              {ALIGNMENT_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="comparison-table-wrapper">
+        <table className="comparison-table">
+          <thead>
+            <tr>
+              <th>Show</th>
+              <th>Roast</th>
+              <th>Total</th>
+              <th>First Crack</th>
+              <th>DTR</th>
+              <th>Charge</th>
+              <th>Final</th>
+            </tr>
+          </thead>
+          <tbody>
+            {curves.map((curve) => (
+              <tr key={curve.roast.id} className={hiddenIds.has(curve.roast.id) ? 'comparison-row-hidden' : undefined}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={!hiddenIds.has(curve.roast.id)}
+                    onChange={() => toggleVisibility(curve.roast.id)}
+                    aria-label={`Show ${curve.name}`}
+                  />
+                </td>
+                <td className="comparison-roast-name">
+                  <span className="comparison-swatch" style={{ backgroundColor: curve.color }} />
+                  {curve.name}
+                  {curve.points === null && (
+                    <span className="comparison-note"> ({alignment === 'firstCrack' ? 'no first crack' : 'not enough data'})</span>
+                  )}
+                </td>
+                <td>{formatTime(curve.stats.totalTime)}</td>
+                <td>{curve.stats.firstCrackTime !== null ? formatTime(curve.stats.firstCrackTime) : 'N/A'}</td>
+                <td>{curve.stats.dtr !== null ? `${curve.stats.dtr.toFixed(1)}%` : 'N/A'}</td>
+                <td>{curve.stats.chargeTemp.toFixed(1)}°{displayUnit}</td>
+                <td>{curve.stats.finalTemp.toFixed(1)}°{displayUnit}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="center-elements">
+        <button onClick={onBack} style={{ width: '100%', maxWidth: '600px' }}>
+          Back to History
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ComparisonScreen;
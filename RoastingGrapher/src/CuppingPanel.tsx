@@ -0,0 +1,166 @@
+/**
+ * Cupping Panel Component
+ *
+ * Shows the cupping results attached to a roast and lets the user add or
+ * edit them at any time after the roast:
+ * - Agtron reading and roast colour
+ * - Tasting notes
+ * - SCA-style cupping form scores with the calculated total
+ * - Rating
+ */
+import { useState } from 'react';
+import type { CuppingAttribute, CuppingResult } from './types';
+import { CUPPING_ATTRIBUTES, MAX_ATTRIBUTE_SCORE, MAX_RATING, calculateCuppingScore, createDefaultScores, createEmptyCupping, formatCuppingSummary } from './utils/cupping';
+
+interface CuppingPanelProps {
+  /** Saved cupping results (null when the roast has not been cupped) */
+  cupping: CuppingResult | null;
+  /** Callback function called with the edited results; omit for a read-only panel */
+  onSave?: (cupping: CuppingResult) => void;
+}
+
+function CuppingPanel({ cupping, onSave }: CuppingPanelProps) {
+  // Results being edited, null when not editing
+  const [draft, setDraft] = useState<CuppingResult | null>(null);
+
+  /**
+   * Parses an optional numeric input
+   */
+  const parseOptionalNumber = (value: string): number | null => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? null : parsed;
+  };
+
+  /**
+   * Updates one attribute score of the draft
+   */
+  const updateAttribute = (attribute: CuppingAttribute, value: string) => {
+    setDraft((prev) => {
+      if (!prev?.scores) return prev;
+      const score = Math.min(MAX_ATTRIBUTE_SCORE, Math.max(0, parseOptionalNumber(value) ?? 0));
+      return { ...prev, scores: { ...prev.scores, attributes: { ...prev.scores.attributes, [attribute]: score } } };
+    });
+  };
+
+  /**
+   * Saves the draft and closes the form
+   */
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    onSave?.({ ...draft, notes: draft.notes.trim(), roastColor: draft.roastColor.trim(), updatedAt: new Date().toISOString() });
+    setDraft(null);
+  };
+
+  if (draft) {
+    return (
+      <form className="cupping-panel cupping-form" onSubmit={handleSave}>
+        <h3>Cupping</h3>
+        <div className="cupping-row">
+          <label className="form-label-inline">
+            Agtron
+            <input
+              type="number"
+              value={draft.agtron ?? ''}
+              onChange={(e) => setDraft({ ...draft, agtron: parseOptionalNumber(e.target.value) })}
+              min="0"
+              step="1"
+            />
+          </label>
+          <label className="form-label-inline">
+            Colour
+            <input
+              type="text"
+              value={draft.roastColor}
+              onChange={(e) => setDraft({ ...draft, roastColor: e.target.value })}
+              placeholder="e.g. City+"
+              autoComplete="off"
+            />
+          </label>
+          <label className="form-label-inline">
+            Rating
+            <select
+              value={draft.rating ?? ''}
+              onChange={(e) => setDraft({ ...draft, rating: parseOptionalNumber(e.target.value) })}
+            >
+              <option value="">None</option>
+              {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((rating) => (
+                <option key={rating} value={rating}>{'★'.repeat(rating)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <textarea
+          value={draft.notes}
+          onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+          placeholder="Tasting notes"
+          aria-label="Tasting notes"
+          rows={3}
+        />
+        <label className="form-label-inline">
+          <input
+            type="checkbox"
+            checked={draft.scores !== null}
+            onChange={(e) => setDraft({ ...draft, scores: e.target.checked ? createDefaultScores() : null })}
+          />
+          <span>Score with the cupping form</span>
+        </label>
+        {draft.scores && (
+          <div className="cupping-scores">
+            {CUPPING_ATTRIBUTES.map(({ attribute, label }) => (
+              <label key={attribute} className="cupping-score-field">
+                {label}
+                <input
+                  type="number"
+                  value={draft.scores!.attributes[attribute]}
+                  onChange={(e) => updateAttribute(attribute, e.target.value)}
+                  min="0"
+                  max={MAX_ATTRIBUTE_SCORE}
+                  step="0.25"
+                />
+              </label>
+            ))}
+            <label className="cupping-score-field">
+              Defects
+              <input
+                type="number"
+                value={draft.scores.defects}
+                onChange={(e) => setDraft({ ...draft, scores: { ...draft.scores!, defects: Math.max(0, parseOptionalNumber(e.target.value) ?? 0) } })}
+                min="0"
+                step="2"
+              />
+            </label>
+            <p className="cupping-total">Total: {calculateCuppingScore(draft.scores).toFixed(2)}</p>
+          </div>
+        )}
+        <div className="button-group">
+          <button type="submit">Save Cupping</button>
+          <button type="button" onClick={() => setDraft(null)}>Cancel</button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="cupping-panel">
+      {cupping ? (
+        <>
+          <p>
+            <strong>Cupping:</strong>{' '}
+            {formatCuppingSummary(cupping) || 'No scores'}
+          </p>
+          {cupping.notes && <p className="cupping-notes">{cupping.notes}</p>}
+        </>
+      ) : (
+        <p className="cupping-notes">Not cupped yet.</p>
+      )}
+      {onSave && (
+        <button onClick={() => setDraft(cupping ?? createEmptyCupping())}>
+          {cupping ? 'Edit Cupping' : 'Add Cupping'}
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default CuppingPanel;
@@ -0,0 +1,90 @@
+/**
+ * Event Targets Editor Component
+ *
+ * Edits the planned roast events of the setup form: one row per event with
+ * its planned time (MM:SS) and bean temperature, either of which can be left
+ * empty. Rows are kept as the typed text and parsed when the session starts.
+ */
+import type { RoastEventType, TemperatureUnit } from './types';
+import { getEventDefinition } from './utils/roastEvents';
+import { EVENT_TARGET_TYPES } from './utils/roastTargets';
+
+/**
+ * Planned event as typed into the form
+ */
+export interface EventTargetRow {
+  type: RoastEventType;
+  /** Planned time as MM:SS (empty for none) */
+  time: string;
+  /** Planned temperature (empty for none) */
+  temperature: string;
+}
+
+interface EventTargetsEditorProps {
+  /** Planned events */
+  rows: EventTargetRow[];
+  /** Temperature unit of the session */
+  unit: TemperatureUnit;
+  /** Callback function called with the changed rows */
+  onChange: (rows: EventTargetRow[]) => void;
+}
+
+function EventTargetsEditor({ rows, unit, onChange }: EventTargetsEditorProps) {
+  const unusedTypes = EVENT_TARGET_TYPES.filter((type) => !rows.some((row) => row.type === type));
+
+  /**
+   * Replace one field of a row
+   */
+  const updateRow = (index: number, changes: Partial<EventTargetRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <div className="event-targets">
+      {rows.map((row, index) => (
+        <div key={row.type} className="event-target-row">
+          <select
+            value={row.type}
+            onChange={(e) => updateRow(index, { type: e.target.value as RoastEventType })}
+            aria-label="Planned event"
+          >
+            {EVENT_TARGET_TYPES.filter((type) => type === row.type || unusedTypes.includes(type)).map((type) => (
+              <option key={type} value={type}>{getEventDefinition(type).label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={row.time}
+            onChange={(e) => updateRow(index, { time: e.target.value })}
+            placeholder="MM:SS"
+            aria-label={`${getEventDefinition(row.type).label} time`}
+            autoComplete="off"
+          />
+          <input
+            type="number"
+            value={row.temperature}
+            onChange={(e) => updateRow(index, { temperature: e.target.value })}
+            placeholder={`°${unit}`}
+            aria-label={`${getEventDefinition(row.type).label} temperature`}
+            min="0"
+            step="0.1"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            aria-label={`Remove ${getEventDefinition(row.type).label} target`}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      {unusedTypes.length > 0 && (
+        <button type="button" onClick={() => onChange([...rows, { type: unusedTypes[0], time: '', temperature: '' }])}>
+          Add Event Target
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default EventTargetsEditor;
@@ -0,0 +1,243 @@
+/**
+ * History Screen Component
+ *
+ * Lists completed roasts from the local roast library with:
+ * - Search by bean name or tasting notes
+ * - Filters for roast date, DTR range, cupping score and rating
+ * - Sorting by date, bean, total time, DTR, or cupping score
+ * - Opening a roast in the summary screen, or deleting it
+ * - Selecting several roasts to compare
+ * - Charting weight loss against DTR for the filtered roasts
+ */
+import { useState, useEffect, useMemo } from 'react';
+import type { SummaryData } from './types';
+import { formatTime } from './utils/format';
+import { deleteRoast, filterRoasts, getAllRoasts, getRoastDTR, sortRoasts } from './utils/roastHistory';
+import type { HistoryFilter, HistorySortKey, SortDirection } from './utils/roastHistory';
+import WeightLossChart from './WeightLossChart';
+import { MAX_RATING, getRoastCuppingScore } from './utils/cupping';
+
+interface HistoryScreenProps {
+  /** Callback function called when the user opens a saved roast */
+  onOpenRoast: (roast: SummaryData) => void;
+  /** Callback function called with the roasts selected for comparison */
+  onCompare: (roasts: SummaryData[]) => void;
+  /** Callback function to return to the setup screen */
+  onBack: () => void;
+}
+
+const EMPTY_FILTER: HistoryFilter = { search: '', dateFrom: '', dateTo: '', minDTR: null, maxDTR: null, minScore: null, minRating: null };
+
+function HistoryScreen({ onOpenRoast, onCompare, onBack }: HistoryScreenProps) {
+  const [roasts, setRoasts] = useState<SummaryData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+  const [sortKey, setSortKey] = useState<HistorySortKey>('date');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  // Roast ids selected for comparison, in selection order
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [showWeightLossChart, setShowWeightLossChart] = useState(false);
+
+  /**
+   * Load the roast library on mount
+   */
+  useEffect(() => {
+    getAllRoasts()
+      .then(setRoasts)
+      .catch((error) => {
+        console.error('Failed to load roast history:', error);
+        setLoadError('Roast history could not be loaded.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const visibleRoasts = useMemo(
+    () => sortRoasts(filterRoasts(roasts, filter), sortKey, sortDirection),
+    [roasts, filter, sortKey, sortDirection]
+  );
+
+  /**
+   * Updates a single filter field
+   */
+  const updateFilter = <K extends keyof HistoryFilter>(key: K, value: HistoryFilter[K]) => {
+    setFilter((prev) => ({ ...prev, [key]: value }));
+  };
+
+  /**
+   * Parses an optional numeric filter input
+   */
+  const parseOptionalNumber = (value: string): number | null => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) ? null : parsed;
+  };
+
+  /**
+   * Adds a roast to or removes it from the comparison selection
+   */
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((selected) => selected !== id) : [...prev, id]));
+  };
+
+  /**
+   * Opens the comparison of the selected roasts
+   */
+  const handleCompare = () => {
+    onCompare(selectedIds.flatMap((id) => roasts.filter((roast) => roast.id === id)));
+  };
+
+  /**
+   * Deletes a roast after confirmation
+   */
+  const handleDelete = async (roast: SummaryData) => {
+    if (!window.confirm(`Delete the roast of "${roast.beanName}" from ${new Date(roast.roastedAt).toLocaleString()}?`)) {
+      return;
+    }
+    try {
+      await deleteRoast(roast.id);
+      setRoasts((prev) => prev.filter((r) => r.id !== roast.id));
+      setSelectedIds((prev) => prev.filter((id) => id !== roast.id));
+    } catch (error) {
+      console.error('Failed to delete roast:', error);
+    }
+  };
+
+  return (
+    <div className="screen-container history-screen">
+      <div className="screen-header">
+        <h1>Roast History</h1>
+      </div>
+
+      <div className="history-controls">
+        <input
+          type="text"
+          value={filter.search}
+          onChange={(e) => updateFilter('search', e.target.value)}
+          placeholder="Search bean name or tasting notes"
+          aria-label="Search bean name or tasting notes"
+        />
+        <div className="history-filter-row">
+          <label className="form-label-inline">
+            From
+            <input type="date" value={filter.dateFrom} onChange={(e) => updateFilter('dateFrom', e.target.value)} />
+          </label>
+          <label className="form-label-inline">
+            To
+            <input type="date" value={filter.dateTo} onChange={(e) => updateFilter('dateTo', e.target.value)} />
+          </label>
+          <label className="form-label-inline">
+            DTR %
+            <input
+              type="number"
+              value={filter.minDTR ?? ''}
+              onChange={(e) => updateFilter('minDTR', parseOptionalNumber(e.target.value))}
+              placeholder="min"
+              min="0"
+              max="100"
+            />
+            <input
+              type="number"
+              value={filter.maxDTR ?? ''}
+              onChange={(e) => updateFilter('maxDTR', parseOptionalNumber(e.target.value))}
+              placeholder="max"
+              min="0"
+              max="100"
+            />
+          </label>
+          <label className="form-label-inline">
+            Score ≥
+            <input
+              type="number"
+              value={filter.minScore ?? ''}
+              onChange={(e) => updateFilter('minScore', parseOptionalNumber(e.target.value))}
+              placeholder="min"
+              min="0"
+              max="100"
+              step="0.25"
+            />
+          </label>
+          <label className="form-label-inline">
+            Rating ≥
+            <select
+              value={filter.minRating ?? ''}
+              onChange={(e) => updateFilter('minRating', parseOptionalNumber(e.target.value))}
+            >
+              <option value="">Any</option>
+              {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((rating) => (
+                <option key={rating} value={rating}>{'★'.repeat(rating)}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <div className="history-filter-row">
+          <label className="form-label-inline">
+            Sort by
+            <select value={sortKey} onChange={(e) => setSortKey(e.target.value as HistorySortKey)}>
+              <option value="date">Date</option>
+              <option value="bean">Bean</option>
+              <option value="totalTime">Total Time</option>
+              <option value="dtr">DTR</option>
+              <option value="score">Cupping Score</option>
+            </select>
+          </label>
+          <button onClick={() => setSortDirection((prev) => (prev === 'asc' ? 'desc' : 'asc'))}>
+            {sortDirection === 'asc' ? '▲ Ascending' : '▼ Descending'}
+          </button>
+          <button onClick={() => setFilter(EMPTY_FILTER)}>
+            Clear Filters
+          </button>
+          <button onClick={() => setShowWeightLossChart((prev) => !prev)} aria-pressed={showWeightLossChart}>
+            Weight Loss vs DTR
+          </button>
+        </div>
+      </div>
+
+      {showWeightLossChart && <WeightLossChart roasts={visibleRoasts} />}
+
+      <div className="history-list">
+        {isLoading ? (
+          <p>Loading roasts...</p>
+        ) : loadError ? (
+          <p className="error-text">{loadError}</p>
+        ) : visibleRoasts.length === 0 ? (
+          <p>{roasts.length === 0 ? 'No roasts saved yet.' : 'No roasts match the current filters.'}</p>
+        ) : (
+          visibleRoasts.map((roast) => (
+            <div key={roast.id} className="history-item">
+              <input
+                type="checkbox"
+                className="history-item-select"
+                checked={selectedIds.includes(roast.id)}
+                onChange={() => toggleSelected(roast.id)}
+                aria-label={`Select ${roast.beanName} for comparison`}
+              />
+              <button className="history-item-main" onClick={() => onOpenRoast(roast)}>
+                <span className="history-item-title">{roast.beanName}</span>
+                <span className="history-item-details">
+                  {new Date(roast.roastedAt).toLocaleString()} · {formatTime(roast.totalTime)} ·{' '}
+                  {roast.firstCrackTime !== null ? `DTR ${getRoastDTR(roast).toFixed(1)}%` : 'DTR N/A'}
+                  {getRoastCuppingScore(roast) !== null && ` · ${getRoastCuppingScore(roast)!.toFixed(2)} pts`}
+                  {roast.cupping?.rating != null && ` · ${'★'.repeat(roast.cupping.rating)}`}
+                </span>
+              </button>
+              <button className="history-item-delete" onClick={() => handleDelete(roast)} aria-label={`Delete ${roast.beanName}`}>
+                Delete
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="center-elements">
+        <button onClick={handleCompare} disabled={selectedIds.length < 2} style={{ width: '100%', maxWidth: '600px' }}>
+          Compare Selected ({selectedIds.length})
+        </button>
+        <button onClick={onBack} style={{ width: '100%', maxWidth: '600px' }}>
+          Back to Setup
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default HistoryScreen;
@@ -0,0 +1,221 @@
+/**
+ * Inventory Screen Component
+ *
+ * Manages the green coffee inventory:
+ * - Adding, editing and deleting lots (origin, process, variety, moisture,
+ *   density, purchase price, remaining weight)
+ * - Low-stock warnings
+ * - Per-lot roast history, opening a roast in the summary screen
+ */
+import { useState, useEffect } from 'react';
+import type { GreenCoffeeLot, SummaryData } from './types';
+import { formatTime } from './utils/format';
+import { getAllRoasts, getRoastDTR } from './utils/roastHistory';
+import { createEmptyLot, deleteLot, formatWeight, getAllLots, getLotRoasts, isLowStock, saveLot } from './utils/inventory';
+
+interface InventoryScreenProps {
+  /** Callback function called when the user opens a roast of a lot */
+  onOpenRoast: (roast: SummaryData) => void;
+  /** Callback function to return to the setup screen */
+  onBack: () => void;
+}
+
+/** Numeric lot fields edited as text */
+type NumericLotField = 'moisture' | 'density' | 'purchasePrice' | 'remainingWeight' | 'lowStockWeight';
+
+/** Text lot fields */
+type TextLotField = 'name' | 'origin' | 'process' | 'variety';
+
+const TEXT_FIELDS: { field: TextLotField; label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'origin', label: 'Origin' },
+  { field: 'process', label: 'Process' },
+  { field: 'variety', label: 'Variety' }
+];
+
+const NUMERIC_FIELDS: { field: NumericLotField; label: string; step: string }[] = [
+  { field: 'moisture', label: 'Moisture (%)', step: '0.1' },
+  { field: 'density', label: 'Density (g/L)', step: '1' },
+  { field: 'purchasePrice', label: 'Price per kg', step: '0.01' },
+  { field: 'remainingWeight', label: 'Remaining (g)', step: '1' },
+  { field: 'lowStockWeight', label: 'Low stock below (g)', step: '1' }
+];
+
+function InventoryScreen({ onOpenRoast, onBack }: InventoryScreenProps) {
+  const [lots, setLots] = useState<GreenCoffeeLot[]>([]);
+  const [roasts, setRoasts] = useState<SummaryData[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Lot being added or edited, null when the form is closed
+  const [draft, setDraft] = useState<GreenCoffeeLot | null>(null);
+  // Lot whose roast history is expanded
+  const [expandedLotId, setExpandedLotId] = useState<string | null>(null);
+
+  /**
+   * Load the inventory and the roast library on mount
+   */
+  useEffect(() => {
+    Promise.all([getAllLots(), getAllRoasts()])
+      .then(([loadedLots, loadedRoasts]) => {
+        setLots(loadedLots);
+        setRoasts(loadedRoasts);
+      })
+      .catch((error) => {
+        console.error('Failed to load inventory:', error);
+        setLoadError('Inventory could not be loaded.');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  /**
+   * Updates a numeric field of the draft from its input (empty clears optional fields)
+   */
+  const updateNumericField = (field: NumericLotField, value: string) => {
+    const parsed = parseFloat(value);
+    setDraft((prev) => {
+      if (!prev) return prev;
+      const required = field === 'remainingWeight' || field === 'lowStockWeight';
+      return { ...prev, [field]: isNaN(parsed) ? (required ? 0 : null) : parsed };
+    });
+  };
+
+  /**
+   * Saves the draft lot and closes the form
+   */
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.name.trim()) return;
+    const lot = { ...draft, name: draft.name.trim() };
+    try {
+      await saveLot(lot);
+      setLots((prev) => [...prev.filter((l) => l.id !== lot.id), lot].sort((a, b) => a.name.localeCompare(b.name)));
+      setDraft(null);
+    } catch (error) {
+      console.error('Failed to save lot:', error);
+    }
+  };
+
+  /**
+   * Deletes a lot after confirmation (its roasts stay in the history)
+   */
+  const handleDelete = async (lot: GreenCoffeeLot) => {
+    if (!window.confirm(`Delete the lot "${lot.name}"? Its roasts stay in the history.`)) {
+      return;
+    }
+    try {
+      await deleteLot(lot.id);
+      setLots((prev) => prev.filter((l) => l.id !== lot.id));
+    } catch (error) {
+      console.error('Failed to delete lot:', error);
+    }
+  };
+
+  return (
+    <div className="screen-container history-screen">
+      <div className="screen-header">
+        <h1>Green Coffee Inventory</h1>
+      </div>
+
+      {draft ? (
+        <form onSubmit={handleSave} className="lot-form">
+          {TEXT_FIELDS.map(({ field, label }) => (
+            <label key={field} className="lot-form-field">
+              {label}
+              <input
+                type="text"
+                value={draft[field]}
+                onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                autoComplete="off"
+                required={field === 'name'}
+              />
+            </label>
+          ))}
+          {NUMERIC_FIELDS.map(({ field, label, step }) => (
+            <label key={field} className="lot-form-field">
+              {label}
+              <input
+                type="number"
+                value={draft[field] ?? ''}
+                onChange={(e) => updateNumericField(field, e.target.value)}
+                min="0"
+                step={step}
+              />
+            </label>
+          ))}
+          <div className="button-group">
+            <button type="submit">Save Lot</button>
+            <button type="button" onClick={() => setDraft(null)}>Cancel</button>
+          </div>
+        </form>
+      ) : (
+        <button onClick={() => setDraft(createEmptyLot())}>Add Lot</button>
+      )}
+
+      <div className="history-list">
+        {isLoading ? (
+          <p>Loading inventory...</p>
+        ) : loadError ? (
+          <p className="error-text">{loadError}</p>
+        ) : lots.length === 0 ? (
+          <p>No lots in the inventory yet.</p>
+        ) : (
+          lots.map((lot) => {
+            const lotRoasts = getLotRoasts(roasts, lot.id);
+            const isExpanded = expandedLotId === lot.id;
+            return (
+              <div key={lot.id} className="lot-item">
+                <div className="history-item">
+                  <button className="history-item-main" onClick={() => setExpandedLotId(isExpanded ? null : lot.id)}>
+                    <span className="history-item-title">
+                      {lot.name}
+                      {isLowStock(lot) && <span className="low-stock-badge">Low stock</span>}
+                    </span>
+                    <span className="history-item-details">
+                      {[lot.origin, lot.process, lot.variety].filter(Boolean).join(' · ') || 'No details'}
+                    </span>
+                    <span className="history-item-details">
+                      {formatWeight(lot.remainingWeight)} left
+                      {lot.moisture !== null && ` · ${lot.moisture}% moisture`}
+                      {lot.density !== null && ` · ${lot.density} g/L`}
+                      {lot.purchasePrice !== null && ` · ${lot.purchasePrice.toFixed(2)}/kg`}
+                      {` · ${lotRoasts.length} roast${lotRoasts.length === 1 ? '' : 's'}`}
+                    </span>
+                  </button>
+                  <button onClick={() => setDraft(lot)}>Edit</button>
+                  <button className="history-item-delete" onClick={() => handleDelete(lot)} aria-label={`Delete ${lot.name}`}>
+                    Delete
+                  </button>
+                </div>
+                {isExpanded && (
+                  <ul className="lot-roasts">
+                    {lotRoasts.length === 0 ? (
+                      <li>No roasts from this lot yet.</li>
+                    ) : (
+                      lotRoasts.map((roast) => (
+                        <li key={roast.id}>
+                          <button className="lot-roast-link" onClick={() => onOpenRoast(roast)}>
+                            {new Date(roast.roastedAt).toLocaleString()} · {formatTime(roast.totalTime)} ·{' '}
+                            {roast.firstCrackTime !== null ? `DTR ${getRoastDTR(roast).toFixed(1)}%` : 'DTR N/A'}
+                            {roast.greenWeight != null && ` · ${formatWeight(roast.greenWeight)}`}
+                          </button>
+                        </li>
+                      ))
+                    )}
+                  </ul>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="center-elements">
+        <button onClick={onBack} style={{ width: '100%', maxWidth: '600px' }}>
+          Back to Setup
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default InventoryScreen;
@@ -2,22 +2,221 @@
  * Main Screen Component
  * 
  * Initial setup screen where users enter:
- * - Bean name
+ * - Bean name, or a green coffee lot from the inventory with the batch weight
  * - Charge temperature (initial temperature when beans are added)
  * - Temperature unit (Celsius or Fahrenheit)
+ * - Temperature source (manual buttons, simulator, or WebSocket bridge)
+ * - Whether to record environment temperature (ET) alongside bean temperature
+ * - Optional targets (DTR, drop temperature, total time, planned events) with an alarm lead time
+ * - Optional reference roast to roast against
+ *
+ * A saved recipe pre-fills the bean or lot, charge temperature, unit, targets
+ * and reference roast, and the current form can be saved as a recipe or as a
+ * new revision of the selected one.
+ * 
+ * Also lists unfinished roasts for recovery, links to the roast history library,
+ * green coffee inventory and backups, and opens previously exported CSV/JSON
+ * roast files or Artisan profiles. A file holding a roast already in the
+ * library can open the saved roast, replace it, or be imported as a copy.
  */
-import { useState, memo } from 'react';
+import { useState, useRef, useEffect, memo } from 'react';
+import EventTargetsEditor from './EventTargetsEditor';
+import type { EventTargetRow } from './EventTargetsEditor';
+import RecipePicker from './RecipePicker';
+import ReferencePicker from './ReferencePicker';
+import UnfinishedSessions from './UnfinishedSessions';
+import type { GreenCoffeeLot, RecipePlan, RoastEventTarget, RoastRecipe, RoastTargets, SessionData, SummaryData } from './types';
+import { formatTime } from './utils/format';
+import { formatImportIssue, importRoastFile, mergeWithSavedRoast, parseTime } from './utils/importUtils';
+import type { ImportIssue } from './utils/importUtils';
+import { convertRoastUnit } from './utils/unitConversion';
+import { DEFAULT_WEBSOCKET_URL, SOURCE_LABELS } from './utils/temperatureSources';
+import type { TemperatureSourceKind } from './utils/temperatureSources';
+import { createSessionId } from './utils/sessionRecovery';
+import { createRoastId, getRoast } from './utils/roastHistory';
+import { formatWeight, getAllLots, isLowStock } from './utils/inventory';
+import { ALARM_LEAD_TIME_OPTIONS, DEFAULT_ALARM_LEAD_TIME, hasTargets } from './utils/roastTargets';
+import type { SavedSession } from './utils/sessionRecovery';
+import { getRecipeRef } from './utils/recipes';
 
 interface MainScreenProps {
   /** Callback function called when user submits the form to start a roasting session */
-  onStart: (beanName: string, chargeTemp: number, unit: 'C' | 'F') => void;
+  onStart: (session: SessionData) => void;
+  /** Callback function called when user opens the roast history */
+  onOpenHistory: () => void;
+  /** Callback function called when user opens the green coffee inventory */
+  onOpenInventory: () => void;
+  /** Callback function called when user opens backup and restore */
+  onOpenBackup: () => void;
+  /** Callback function called with a roast successfully imported from a file, and any import warnings */
+  onOpenRoast: (roast: SummaryData, warnings: ImportIssue[]) => void;
+  /** Callback function called to open a roast from the library instead of the file holding it */
+  onOpenSavedRoast: (roast: SummaryData) => void;
+  /** Callback function called to continue an unfinished session */
+  onResumeSession: (saved: SavedSession) => void;
+  /** Callback function called to save an unfinished session as a completed roast */
+  onRecoverSession: (saved: SavedSession) => void;
 }
 
-const MainScreen = memo(function MainScreen({ onStart }: MainScreenProps) {
+/**
+ * Parse the planned event rows (rows with neither a valid time nor temperature are dropped)
+ */
+const toEventTargets = (rows: EventTargetRow[]): RoastEventTarget[] => {
+  return rows
+    .map((row) => {
+      const temperature = parseFloat(row.temperature);
+      return {
+        type: row.type,
+        time: parseTime(row.time),
+        temperature: !isNaN(temperature) && temperature > 0 ? temperature : null
+      };
+    })
+    .filter((target) => target.time !== null || target.temperature !== null);
+};
+
+/**
+ * Format planned events as editable rows
+ */
+const toEventTargetRows = (targets: RoastEventTarget[]): EventTargetRow[] => {
+  return targets.map((target) => ({
+    type: target.type,
+    time: target.time !== null ? formatTime(target.time) : '',
+    temperature: target.temperature !== null ? String(target.temperature) : ''
+  }));
+};
+
+const MainScreen = memo(function MainScreen({ onStart, onOpenHistory, onOpenInventory, onOpenBackup, onOpenRoast, onOpenSavedRoast, onResumeSession, onRecoverSession }: MainScreenProps) {
   // Form state
   const [beanName, setBeanName] = useState('');
+  const [lots, setLots] = useState<GreenCoffeeLot[]>([]);
+  const [lotId, setLotId] = useState('');
+  const [greenWeight, setGreenWeight] = useState('');
   const [chargeTemp, setChargeTemp] = useState('');
   const [unit, setUnit] = useState<'C' | 'F'>('C');
+  const [referenceRoast, setReferenceRoast] = useState<SummaryData | null>(null);
+  const [sourceKind, setSourceKind] = useState<TemperatureSourceKind>('manual');
+  const [websocketUrl, setWebsocketUrl] = useState(DEFAULT_WEBSOCKET_URL);
+  const [recordEnvTemp, setRecordEnvTemp] = useState(false);
+
+  // Optional roast targets (empty fields are unset)
+  const [targetDTR, setTargetDTR] = useState('');
+  const [targetDropTemp, setTargetDropTemp] = useState('');
+  const [targetMinutes, setTargetMinutes] = useState('');
+  const [alarmLeadTime, setAlarmLeadTime] = useState(DEFAULT_ALARM_LEAD_TIME);
+  const [eventTargets, setEventTargets] = useState<EventTargetRow[]>([]);
+
+  // Recipe the form was filled from (null for none)
+  const [recipe, setRecipe] = useState<RoastRecipe | null>(null);
+
+  /**
+   * Load the green coffee lots for the lot dropdown
+   */
+  useEffect(() => {
+    getAllLots()
+      .then(setLots)
+      .catch((error) => console.error('Failed to load inventory:', error));
+  }, []);
+
+  const selectedLot = lots.find((lot) => lot.id === lotId) ?? null;
+  const batchWeight = parseFloat(greenWeight);
+
+  // Roast file import state
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<ImportIssue[]>([]);
+  // Imported roast whose id is already in the library, waiting for the user to choose what to do
+  const [duplicateImport, setDuplicateImport] = useState<{ roast: SummaryData; warnings: ImportIssue[]; saved: SummaryData } | null>(null);
+
+  /**
+   * Parses the selected roast file and opens it if valid
+   */
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset the input so selecting the same file again triggers a change
+    e.target.value = '';
+    if (!file) return;
+
+    setDuplicateImport(null);
+    try {
+      const result = await importRoastFile(file);
+      if (result.roast) {
+        setImportErrors([]);
+        const saved = await getRoast(result.roast.id).catch((error) => {
+          console.error('Failed to look up roast in history:', error);
+          return null;
+        });
+        if (saved) {
+          setDuplicateImport({ roast: result.roast, warnings: result.warnings, saved });
+          return;
+        }
+        onOpenRoast(result.roast, result.warnings);
+      } else {
+        setImportErrors(result.errors);
+      }
+    } catch (error) {
+      console.error('Failed to read roast file:', error);
+      setImportErrors([{ message: `Could not read "${file.name}"` }]);
+    }
+  };
+
+  /**
+   * Builds the roast targets from the target fields (invalid values are left unset)
+   */
+  const getTargets = (): RoastTargets | null => {
+    const parseTarget = (value: string, max = Infinity) => {
+      const parsed = parseFloat(value);
+      return !isNaN(parsed) && parsed > 0 && parsed < max ? parsed : null;
+    };
+    const minutes = parseTarget(targetMinutes);
+    const events = toEventTargets(eventTargets);
+    const targets: RoastTargets = {
+      dtr: parseTarget(targetDTR, 100),
+      dropTemp: parseTarget(targetDropTemp),
+      totalTime: minutes !== null ? Math.round(minutes * 60) : null,
+      alarmLeadTime,
+      ...(events.length > 0 && { events })
+    };
+    return hasTargets(targets) ? targets : null;
+  };
+
+  /**
+   * Reads the form as a recipe plan
+   *
+   * @returns The plan, or null if the bean or charge temperature is missing
+   */
+  const getPlan = (): RecipePlan | null => {
+    const temp = parseFloat(chargeTemp);
+    const name = selectedLot ? selectedLot.name : beanName.trim();
+    if (!name || isNaN(temp) || temp <= 0) return null;
+    return {
+      beanName: name,
+      lotId: selectedLot?.id ?? null,
+      chargeTemp: temp,
+      unit,
+      targets: getTargets(),
+      referenceRoast
+    };
+  };
+
+  /**
+   * Selects a recipe and fills the form from it (clearing the selection leaves the form as it is)
+   */
+  const handleSelectRecipe = (selected: RoastRecipe | null) => {
+    setRecipe(selected);
+    if (!selected) return;
+
+    const lotExists = selected.lotId !== null && lots.some((lot) => lot.id === selected.lotId);
+    setLotId(lotExists ? selected.lotId ?? '' : '');
+    setBeanName(selected.beanName);
+    setChargeTemp(String(selected.chargeTemp));
+    setUnit(selected.unit);
+    const { targets } = selected;
+    setTargetDTR(targets?.dtr != null ? String(targets.dtr) : '');
+    setTargetDropTemp(targets?.dropTemp != null ? String(targets.dropTemp) : '');
+    setTargetMinutes(targets?.totalTime != null ? String(targets.totalTime / 60) : '');
+    setAlarmLeadTime(targets?.alarmLeadTime ?? DEFAULT_ALARM_LEAD_TIME);
+    setEventTargets(toEventTargetRows(targets?.events ?? []));
+    setReferenceRoast(selected.referenceRoast);
+  };
 
   /**
    * Handles form submission
@@ -26,10 +225,27 @@ const MainScreen = memo(function MainScreen({ onStart }: MainScreenProps) {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const temp = parseFloat(chargeTemp);
+    const name = selectedLot ? selectedLot.name : beanName.trim();
     
-    // Validate: bean name must not be empty, temperature must be a valid positive number
-    if (beanName.trim() && !isNaN(temp) && temp > 0) {
-      onStart(beanName.trim(), temp, unit);
+    // Validate: bean name must not be empty, temperature must be a valid positive number,
+    // a batch from a lot needs its weight (to deduct it from the stock),
+    // and a WebSocket source needs an address
+    const hasBatchWeight = !isNaN(batchWeight) && batchWeight > 0;
+    if (name && !isNaN(temp) && temp > 0 && (!selectedLot || hasBatchWeight) && (sourceKind !== 'websocket' || websocketUrl.trim())) {
+      onStart({
+        sessionId: createSessionId(),
+        beanName: name,
+        chargeTemp: temp,
+        unit,
+        referenceRoast: referenceRoast ? convertRoastUnit(referenceRoast, unit) : null,
+        source: sourceKind === 'websocket' ? { kind: 'websocket', url: websocketUrl.trim() } : { kind: sourceKind },
+        channels: recordEnvTemp ? ['temperature', 'environmentTemp'] : ['temperature'],
+        targets: getTargets(),
+        lotId: selectedLot?.id ?? null,
+        greenWeight: hasBatchWeight ? batchWeight : null,
+        // A setup changed after picking the recipe no longer follows its revision exactly
+        recipe: recipe ? getRecipeRef(recipe, getPlan() ?? undefined) : null
+      });
     }
   };
 
@@ -41,21 +257,70 @@ const MainScreen = memo(function MainScreen({ onStart }: MainScreenProps) {
       gap: '20px'
     }}>
       <h1>Roasting Session Setup</h1>
+
+      <UnfinishedSessions onResume={onResumeSession} onConvert={onRecoverSession} />
       
       <form onSubmit={handleSubmit} className="form-container">
+        <RecipePicker recipe={recipe} onSelect={handleSelectRecipe} getPlan={getPlan} />
+
+        {lots.length > 0 && (
+          <div className="form-group">
+            <label htmlFor="lot" className="form-label">
+              Green Coffee Lot:
+            </label>
+            <select id="lot" value={lotId} onChange={(e) => setLotId(e.target.value)}>
+              <option value="">None (enter bean name)</option>
+              {lots.map((lot) => (
+                <option key={lot.id} value={lot.id}>
+                  {lot.name} – {formatWeight(lot.remainingWeight)} left{isLowStock(lot) ? ' (low stock)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {!selectedLot && (
+          <div className="form-group">
+            <label htmlFor="beanName" className="form-label">
+              Bean Name:
+            </label>
+            <input
+              id="beanName"
+              type="text"
+              value={beanName}
+              onChange={(e) => setBeanName(e.target.value)}
+              placeholder="Enter bean name"
+              autoComplete="off"
+              required
+            />
+          </div>
+        )}
+
         <div className="form-group">
-          <label htmlFor="beanName" className="form-label">
-            Bean Name:
+          <label htmlFor="greenWeight" className="form-label">
+            Green Batch Weight (g){selectedLot ? '' : ' (optional)'}:
           </label>
           <input
-            id="beanName"
-            type="text"
-            value={beanName}
-            onChange={(e) => setBeanName(e.target.value)}
-            placeholder="Enter bean name"
+            id="greenWeight"
+            type="number"
+            value={greenWeight}
+            onChange={(e) => setGreenWeight(e.target.value)}
+            placeholder="Enter batch weight"
             autoComplete="off"
-            required
+            required={selectedLot !== null}
+            min={selectedLot ? '1' : '0'}
+            step="1"
           />
+          {selectedLot && isLowStock(selectedLot) && (
+            <p className="low-stock-warning">
+              Low stock: only {formatWeight(selectedLot.remainingWeight)} of {selectedLot.name} left.
+            </p>
+          )}
+          {selectedLot && batchWeight > selectedLot.remainingWeight && (
+            <p className="low-stock-warning">
+              The batch is larger than the {formatWeight(selectedLot.remainingWeight)} left in this lot.
+            </p>
+          )}
         </div>
 
         <div className="form-group">
@@ -101,10 +366,161 @@ const MainScreen = memo(function MainScreen({ onStart }: MainScreenProps) {
           </div>
         </div>
 
+        <div className="form-group">
+          <label className="form-label">
+            Temperature Source:
+          </label>
+          <div className="form-radio-group">
+            {(Object.keys(SOURCE_LABELS) as TemperatureSourceKind[]).map((kind) => (
+              <label key={kind} className="form-label-inline">
+                <input
+                  type="radio"
+                  value={kind}
+                  checked={sourceKind === kind}
+                  onChange={() => setSourceKind(kind)}
+                />
+                <span>{SOURCE_LABELS[kind]}</span>
+              </label>
+            ))}
+          </div>
+          {sourceKind === 'websocket' && (
+            <input
+              type="text"
+              value={websocketUrl}
+              onChange={(e) => setWebsocketUrl(e.target.value)}
+              placeholder="ws://localhost:8765"
+              aria-label="WebSocket bridge address"
+              autoComplete="off"
+              style={{ marginTop: '8px' }}
+              required
+            />
+          )}
+          <label className="form-label-inline" style={{ marginTop: '8px' }}>
+            <input
+              type="checkbox"
+              checked={recordEnvTemp}
+              onChange={(e) => setRecordEnvTemp(e.target.checked)}
+            />
+            <span>Record environment temperature (ET)</span>
+          </label>
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">
+            Targets (optional):
+          </label>
+          <div className="target-fields">
+            <label className="form-label-inline">
+              DTR
+              <input
+                type="number"
+                value={targetDTR}
+                onChange={(e) => setTargetDTR(e.target.value)}
+                placeholder="%"
+                min="1"
+                max="99"
+                step="0.5"
+              />
+            </label>
+            <label className="form-label-inline">
+              Drop
+              <input
+                type="number"
+                value={targetDropTemp}
+                onChange={(e) => setTargetDropTemp(e.target.value)}
+                placeholder={`°${unit}`}
+                min="0"
+                step="0.1"
+              />
+            </label>
+            <label className="form-label-inline">
+              Time
+              <input
+                type="number"
+                value={targetMinutes}
+                onChange={(e) => setTargetMinutes(e.target.value)}
+                placeholder="min"
+                min="0"
+                step="0.25"
+              />
+            </label>
+          </div>
+          <EventTargetsEditor rows={eventTargets} unit={unit} onChange={setEventTargets} />
+          <label className="form-label-inline" style={{ marginTop: '8px' }}>
+            <span>Alarm</span>
+            <select value={alarmLeadTime} onChange={(e) => setAlarmLeadTime(Number(e.target.value))} style={{ width: 'auto' }}>
+              {ALARM_LEAD_TIME_OPTIONS.map((option) => (
+                <option key={option} value={option}>{option === 0 ? 'on target' : `${option}s before`}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <ReferencePicker reference={referenceRoast} onChange={setReferenceRoast} />
+
         <button type="submit">
           Start Roasting Session
         </button>
       </form>
+
+      <div className="button-group">
+        <button onClick={onOpenHistory}>
+          Roast History
+        </button>
+        <button onClick={onOpenInventory}>
+          Green Coffee Inventory
+        </button>
+        <button onClick={() => fileInputRef.current?.click()}>
+          Open Roast File
+        </button>
+        <button onClick={onOpenBackup}>
+          Backup &amp; Restore
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,.alog,text/csv,application/json"
+          onChange={handleFileSelected}
+          style={{ display: 'none' }}
+        />
+      </div>
+
+      {duplicateImport && (
+        <div className="import-warnings" role="alert">
+          <strong>
+            This roast ({duplicateImport.saved.beanName}, {new Date(duplicateImport.saved.roastedAt).toLocaleDateString()}) is
+            already in the roast library.
+          </strong>
+          <p>
+            Replacing it keeps its lot, and its recipe and edit history when the file has none, but
+            discards any weights, cupping results and edits saved since the file was exported.
+          </p>
+          <div className="button-group">
+            <button onClick={() => { setDuplicateImport(null); onOpenSavedRoast(duplicateImport.saved); }}>
+              Open Saved Roast
+            </button>
+            <button onClick={() => { setDuplicateImport(null); onOpenRoast(mergeWithSavedRoast(duplicateImport.roast, duplicateImport.saved), duplicateImport.warnings); }}>
+              Replace with File
+            </button>
+            <button onClick={() => { setDuplicateImport(null); onOpenRoast({ ...duplicateImport.roast, id: createRoastId() }, duplicateImport.warnings); }}>
+              Import as Copy
+            </button>
+            <button onClick={() => setDuplicateImport(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {importErrors.length > 0 && (
+        <div className="import-errors" role="alert">
+          <strong>The roast file could not be opened:</strong>
+          <ul>
+            {importErrors.slice(0, 20).map((issue, index) => (
+              <li key={index}>{formatImportIssue(issue)}</li>
+            ))}
+          </ul>
+          {importErrors.length > 20 && <p>...and {importErrors.length - 20} more problems</p>}
+        </div>
+      )}
     </div>
   );
 });
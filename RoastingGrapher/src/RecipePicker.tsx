@@ -0,0 +1,167 @@
+/**
+ * Recipe Picker Component
+ *
+ * Selects a saved roast recipe to pre-fill the setup form, and saves the
+ * current form as a new recipe or as a new revision of the selected one.
+ * Earlier revisions of the selected recipe are listed for reference.
+ */
+import { useEffect, useState } from 'react';
+import type { RecipePlan, RoastRecipe } from './types';
+import { createRecipe, deleteRecipe, formatRecipePlan, getAllRecipes, isPlanChanged, reviseRecipe, saveRecipe } from './utils/recipes';
+
+interface RecipePickerProps {
+  /** Currently selected recipe (null for none) */
+  recipe: RoastRecipe | null;
+  /** Callback function called with the selected (or newly saved) recipe, or null to clear it */
+  onSelect: (recipe: RoastRecipe | null) => void;
+  /** Reads the current form as a recipe plan (null if the form is incomplete) */
+  getPlan: () => RecipePlan | null;
+}
+
+function RecipePicker({ recipe, onSelect, getPlan }: RecipePickerProps) {
+  const [recipes, setRecipes] = useState<RoastRecipe[]>([]);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the saved recipes for the dropdown
+   */
+  useEffect(() => {
+    getAllRecipes()
+      .then(setRecipes)
+      .catch((err) => console.error('Failed to load recipes:', err));
+  }, []);
+
+  /**
+   * Saves a recipe and selects it
+   */
+  const store = async (updated: RoastRecipe) => {
+    try {
+      await saveRecipe(updated);
+      setRecipes((current) =>
+        [...current.filter((r) => r.id !== updated.id), updated].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setError(null);
+      onSelect(updated);
+    } catch (err) {
+      console.error('Failed to save recipe:', err);
+      setError('The recipe could not be saved.');
+    }
+  };
+
+  /**
+   * Saves the current form as a new recipe
+   */
+  const handleSaveNew = async () => {
+    const plan = getPlan();
+    if (!plan) {
+      setError('Enter a bean and a charge temperature before saving a recipe.');
+      return;
+    }
+    if (!name.trim()) {
+      setError('Enter a name for the recipe.');
+      return;
+    }
+    await store(createRecipe(name, plan));
+    setName('');
+  };
+
+  /**
+   * Saves the current form as the next revision of the selected recipe
+   */
+  const handleRevise = async () => {
+    const plan = getPlan();
+    if (!recipe) return;
+    if (!plan) {
+      setError('Enter a bean and a charge temperature before saving a revision.');
+      return;
+    }
+    await store(reviseRecipe(recipe, plan));
+  };
+
+  /**
+   * Deletes the selected recipe after confirmation
+   */
+  const handleDelete = async () => {
+    if (!recipe || !window.confirm(`Delete the recipe "${recipe.name}"? Roasts made with it keep its name.`)) return;
+    try {
+      await deleteRecipe(recipe.id);
+      setRecipes((current) => current.filter((r) => r.id !== recipe.id));
+      onSelect(null);
+    } catch (err) {
+      console.error('Failed to delete recipe:', err);
+      setError('The recipe could not be deleted.');
+    }
+  };
+
+  const formPlan = recipe ? getPlan() : null;
+
+  return (
+    <div className="form-group">
+      <label htmlFor="recipe" className="form-label">
+        Recipe (optional):
+      </label>
+      <div className="reference-picker-row">
+        <select
+          id="recipe"
+          value={recipe?.id ?? ''}
+          onChange={(e) => onSelect(recipes.find((r) => r.id === e.target.value) ?? null)}
+        >
+          <option value="">No recipe</option>
+          {recipes.map((r) => (
+            <option key={r.id} value={r.id}>
+              {r.name} (rev {r.revision})
+            </option>
+          ))}
+        </select>
+        {recipe && (
+          <>
+            <button type="button" onClick={handleRevise} title="Save the form as the next revision of this recipe">
+              Save Revision
+            </button>
+            <button type="button" onClick={handleDelete}>
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+      <div className="reference-picker-row">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New recipe name"
+          aria-label="New recipe name"
+          autoComplete="off"
+        />
+        <button type="button" onClick={handleSaveNew}>
+          Save as Recipe
+        </button>
+      </div>
+      {recipe && formPlan && isPlanChanged(recipe, formPlan) && (
+        <p className="form-hint">
+          The setup differs from revision {recipe.revision}; roasts started now are recorded as a modified revision.
+        </p>
+      )}
+      {error && <p className="error-text form-hint">{error}</p>}
+      {recipe && (
+        <details className="recipe-revisions">
+          <summary>Revision {recipe.revision}: {formatRecipePlan(recipe)}</summary>
+          {recipe.revisions.length > 0 ? (
+            <ul>
+              {[...recipe.revisions].reverse().map((revision) => (
+                <li key={revision.revision}>
+                  Rev {revision.revision} ({new Date(revision.savedAt).toLocaleDateString()}): {formatRecipePlan(revision)}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="form-hint">No earlier revisions.</p>
+          )}
+        </details>
+      )}
+    </div>
+  );
+}
+
+export default RecipePicker;
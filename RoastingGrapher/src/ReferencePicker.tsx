@@ -0,0 +1,105 @@
+/**
+ * Reference Picker Component
+ *
+ * Lets the user choose a reference roast to roast "against", either from the
+ * saved roast history or from a previously exported roast file.
+ */
+import { useState, useEffect, useRef } from 'react';
+import type { SummaryData } from './types';
+import { formatTime } from './utils/format';
+import { formatImportIssue, importRoastFile } from './utils/importUtils';
+import { getAllRoasts, sortRoasts } from './utils/roastHistory';
+
+interface ReferencePickerProps {
+  /** Currently selected reference roast (null for none) */
+  reference: SummaryData | null;
+  /** Callback function called when the reference roast changes */
+  onChange: (reference: SummaryData | null) => void;
+}
+
+function ReferencePicker({ reference, onChange }: ReferencePickerProps) {
+  const [savedRoasts, setSavedRoasts] = useState<SummaryData[]>([]);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Load saved roasts (newest first) for the history dropdown
+   */
+  useEffect(() => {
+    getAllRoasts()
+      .then((roasts) => setSavedRoasts(sortRoasts(roasts, 'date', 'desc')))
+      .catch((error) => console.error('Failed to load roast history:', error));
+  }, []);
+
+  /**
+   * Loads a reference roast from an exported file
+   */
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await importRoastFile(file);
+      if (result.roast) {
+        setFileError(null);
+        onChange(result.roast);
+      } else {
+        setFileError(result.errors.map(formatImportIssue).slice(0, 3).join('; '));
+      }
+    } catch (error) {
+      console.error('Failed to read reference file:', error);
+      setFileError(`Could not read "${file.name}"`);
+    }
+  };
+
+  /**
+   * Selects a reference roast from history by id
+   */
+  const handleSelect = (id: string) => {
+    setFileError(null);
+    onChange(savedRoasts.find((roast) => roast.id === id) ?? null);
+  };
+
+  const isFromHistory = reference !== null && savedRoasts.some((roast) => roast.id === reference.id);
+
+  return (
+    <div className="form-group">
+      <label htmlFor="referenceRoast" className="form-label">
+        Reference Roast (optional):
+      </label>
+      <div className="reference-picker-row">
+        <select
+          id="referenceRoast"
+          value={isFromHistory ? reference.id : ''}
+          onChange={(e) => handleSelect(e.target.value)}
+        >
+          <option value="">{reference && !isFromHistory ? `File: ${reference.beanName}` : 'None'}</option>
+          {savedRoasts.map((roast) => (
+            <option key={roast.id} value={roast.id}>
+              {roast.beanName} – {new Date(roast.roastedAt).toLocaleDateString()} ({formatTime(roast.totalTime)})
+            </option>
+          ))}
+        </select>
+        <button type="button" onClick={() => fileInputRef.current?.click()}>
+          From File
+        </button>
+        {reference && (
+          <button type="button" onClick={() => onChange(null)} aria-label="Clear reference roast">
+            Clear
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,.alog,text/csv,application/json"
+          onChange={handleFileSelected}
+          style={{ display: 'none' }}
+        />
+      </div>
+      {fileError && <p className="error-text form-hint">{fileError}</p>}
+    </div>
+  );
+}
+
+export default ReferencePicker;
@@ -0,0 +1,164 @@
+/**
+ * Report View Component
+ *
+ * Shows the printable roast report with a toolbar (hidden when printing) to:
+ * - Edit the report template (title, logo, chart, fields)
+ * - Export the chart as PNG or SVG
+ * - Print the report or save it as PDF from the browser's print dialog
+ */
+import { useRef, useState } from 'react';
+import RoastReport from './RoastReport';
+import { exportChartPNG, exportChartSVG } from './utils/chartImage';
+import { REPORT_FIELDS, loadReportTemplate, saveReportTemplate } from './utils/reportTemplate';
+import type { ReportField, ReportTemplate } from './utils/reportTemplate';
+import type { PhaseThresholds } from './utils/phaseAnalysis';
+import type { SummaryData } from './types';
+
+/** Logos above this size (bytes) may not fit in localStorage with the template */
+const MAX_LOGO_SIZE = 200 * 1024;
+
+interface ReportViewProps {
+  /** Roast in the unit the report is shown in */
+  roast: SummaryData;
+  /** RoR calculation window in seconds */
+  rorWindow: number;
+  /** Fallback phase thresholds for unrecorded events */
+  phaseThresholds: PhaseThresholds;
+  /** Callback function to close the report */
+  onClose: () => void;
+}
+
+function ReportView({ roast, rorWindow, phaseThresholds, onClose }: ReportViewProps) {
+  const [template, setTemplate] = useState<ReportTemplate>(loadReportTemplate);
+  const [message, setMessage] = useState<string | null>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Apply and save a template change
+   */
+  const updateTemplate = (changes: Partial<ReportTemplate>) => {
+    const next = { ...template, ...changes };
+    setTemplate(next);
+    saveReportTemplate(next);
+  };
+
+  /**
+   * Include or leave out a field, keeping report order
+   */
+  const toggleField = (field: ReportField, included: boolean) => {
+    const fields = included ? [...template.fields, field] : template.fields.filter(f => f !== field);
+    updateTemplate({ fields: REPORT_FIELDS.map(d => d.field).filter(f => fields.includes(f)) });
+  };
+
+  /**
+   * Read an uploaded logo as a data URL
+   */
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setMessage('The logo must be an image file.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      updateTemplate({ logo: reader.result as string });
+      setMessage(file.size > MAX_LOGO_SIZE ? 'This logo is large and may not be remembered for the next report.' : null);
+    };
+    reader.onerror = () => setMessage('The logo could not be read.');
+    reader.readAsDataURL(file);
+  };
+
+  /**
+   * Get the rendered report chart
+   */
+  const getChartSvg = (): SVGSVGElement | null => {
+    return chartRef.current?.querySelector<SVGSVGElement>('svg.recharts-surface') ?? null;
+  };
+
+  /**
+   * Handle chart SVG export
+   */
+  const handleExportSVG = () => {
+    const svg = getChartSvg();
+    if (svg) exportChartSVG(svg, roast.beanName);
+  };
+
+  /**
+   * Handle chart PNG export
+   */
+  const handleExportPNG = () => {
+    const svg = getChartSvg();
+    if (!svg) return;
+    exportChartPNG(svg, roast.beanName).catch((error) => {
+      console.error('Failed to export chart image:', error);
+      setMessage('The chart image could not be created.');
+    });
+  };
+
+  const hasChart = template.showChart && roast.temperatureData.length > 0;
+
+  return (
+    <div className="report-view">
+      <div className="report-toolbar no-print">
+        <div className="report-template-row">
+          <label className="form-label-inline">
+            Title
+            <input
+              type="text"
+              value={template.title}
+              onChange={(e) => updateTemplate({ title: e.target.value })}
+              placeholder="e.g. roastery name"
+              autoComplete="off"
+            />
+          </label>
+          <label className="form-label-inline">
+            Logo
+            <input type="file" accept="image/*" onChange={handleLogoChange} />
+          </label>
+          {template.logo && (
+            <button type="button" onClick={() => updateTemplate({ logo: null })}>Remove Logo</button>
+          )}
+        </div>
+        <div className="report-template-row">
+          <label className="form-label-inline">
+            <input
+              type="checkbox"
+              checked={template.showChart}
+              onChange={(e) => updateTemplate({ showChart: e.target.checked })}
+            />
+            <span>Chart</span>
+          </label>
+          {REPORT_FIELDS.map(({ field, label }) => (
+            <label key={field} className="form-label-inline">
+              <input
+                type="checkbox"
+                checked={template.fields.includes(field)}
+                onChange={(e) => toggleField(field, e.target.checked)}
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+        {message && <p className="import-warnings" role="status">{message}</p>}
+        <div className="button-group">
+          <button onClick={handleExportPNG} disabled={!hasChart}>Chart PNG</button>
+          <button onClick={handleExportSVG} disabled={!hasChart}>Chart SVG</button>
+          <button onClick={() => window.print()}>Print / PDF</button>
+          <button onClick={onClose}>Close Report</button>
+        </div>
+      </div>
+
+      <RoastReport
+        roast={roast}
+        template={template}
+        rorWindow={rorWindow}
+        phaseThresholds={phaseThresholds}
+        chartRef={chartRef}
+      />
+    </div>
+  );
+}
+
+export default ReportView;
@@ -0,0 +1,172 @@
+/**
+ * Roast Console Component
+ *
+ * Keyboard-driven controls for the roasting screen:
+ * - Hotkeys for temperature up/down, first crack and end, with an on-screen
+ *   cheat sheet where the keys can be customized
+ * - Selectable manual step size
+ * - Numeric entry that jumps straight to a typed reading
+ */
+import { useState, useEffect, useRef } from 'react';
+import type { ChannelKey, TemperatureUnit } from './types';
+import { getChannelDefinition } from './utils/channels';
+import { HOTKEY_ACTIONS, DEFAULT_HOTKEYS, bindHotkey, formatHotkey, getHotkeyAction, loadHotkeys, saveHotkeys } from './utils/hotkeys';
+import type { HotkeyAction, HotkeyBindings } from './utils/hotkeys';
+import { TEMPERATURE_STEP_OPTIONS } from './utils/unitConversion';
+
+interface RoastConsoleProps {
+  /** Displayed temperature unit (steps and typed readings use it) */
+  unit: TemperatureUnit;
+  /** Recorded probe channels */
+  channels: ChannelKey[];
+  /** Whether readings are entered manually (enables temperature keys, steps and entry) */
+  isManual: boolean;
+  /** Current step size in the displayed unit */
+  step: number;
+  onStepChange: (step: number) => void;
+  /** Callback function called with a typed reading in the displayed unit */
+  onEnterTemperature: (temperature: number, channel: ChannelKey) => void;
+  /** Callback function called when a hotkey is pressed */
+  onHotkey: (action: HotkeyAction) => void;
+}
+
+function RoastConsole({ unit, channels, isManual, step, onStepChange, onEnterTemperature, onHotkey }: RoastConsoleProps) {
+  const [hotkeys, setHotkeys] = useState<HotkeyBindings>(() => loadHotkeys());
+  const [isCustomizing, setIsCustomizing] = useState(false);
+  // Action waiting for its new key while customizing
+  const [capturingAction, setCapturingAction] = useState<HotkeyAction | null>(null);
+  const [entryValue, setEntryValue] = useState('');
+  const [entryChannel, setEntryChannel] = useState<ChannelKey>('temperature');
+  const entryInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * Listen for hotkeys, or for the new key of the action being rebound
+   */
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (capturingAction) {
+        event.preventDefault();
+        if (event.key !== 'Escape') {
+          const updated = bindHotkey(hotkeys, capturingAction, event.key);
+          setHotkeys(updated);
+          saveHotkeys(updated);
+        }
+        setCapturingAction(null);
+        return;
+      }
+      const action = getHotkeyAction(hotkeys, event);
+      if (!action || (!isManual && (action === 'temperatureUp' || action === 'temperatureDown'))) return;
+      event.preventDefault();
+      onHotkey(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [hotkeys, capturingAction, isManual, onHotkey]);
+
+  /**
+   * Applies the typed reading
+   */
+  const handleEntrySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(entryValue);
+    if (!isNaN(value) && value >= 0) {
+      onEnterTemperature(value, entryChannel);
+      setEntryValue('');
+      // Hand the keyboard back to the hotkeys
+      entryInputRef.current?.blur();
+    }
+  };
+
+  /**
+   * Restores the default key bindings
+   */
+  const handleResetHotkeys = () => {
+    setHotkeys(DEFAULT_HOTKEYS);
+    saveHotkeys(DEFAULT_HOTKEYS);
+    setCapturingAction(null);
+  };
+
+  const visibleActions = HOTKEY_ACTIONS.filter(({ action }) =>
+    isManual || (action !== 'temperatureUp' && action !== 'temperatureDown')
+  );
+
+  return (
+    <div className="roast-console">
+      {isManual && (
+        <form className="roast-console-entry" onSubmit={handleEntrySubmit}>
+          <select
+            value={step}
+            onChange={(e) => {
+              onStepChange(Number(e.target.value));
+              e.target.blur();
+            }}
+            aria-label="Step size"
+            title="Step size"
+          >
+            {TEMPERATURE_STEP_OPTIONS[unit].map((option) => (
+              <option key={option} value={option}>±{option}°{unit}</option>
+            ))}
+          </select>
+          {channels.length > 1 && (
+            <select
+              value={entryChannel}
+              onChange={(e) => setEntryChannel(e.target.value as ChannelKey)}
+              aria-label="Channel to set"
+            >
+              {channels.map((channel) => (
+                <option key={channel} value={channel}>{getChannelDefinition(channel).shortLabel}</option>
+              ))}
+            </select>
+          )}
+          <input
+            ref={entryInputRef}
+            type="number"
+            value={entryValue}
+            onChange={(e) => setEntryValue(e.target.value)}
+            placeholder={`Reading °${unit}`}
+            aria-label="Temperature reading"
+            min="0"
+            step="0.1"
+          />
+          <button type="submit" disabled={entryValue.trim() === ''}>Set</button>
+        </form>
+      )}
+
+      <div className="hotkey-cheat-sheet" aria-label="Keyboard shortcuts">
+        {visibleActions.map(({ action, label }) => (
+          isCustomizing ? (
+            <button
+              key={action}
+              type="button"
+              onClick={() => setCapturingAction(action)}
+              className={capturingAction === action ? 'hotkey-capture hotkey-capture-active' : 'hotkey-capture'}
+            >
+              {label}: {capturingAction === action ? 'press a key…' : <kbd>{formatHotkey(hotkeys[action])}</kbd>}
+            </button>
+          ) : (
+            <span key={action} className="hotkey-entry">
+              <kbd>{formatHotkey(hotkeys[action])}</kbd> {label}
+            </span>
+          )
+        ))}
+        {isCustomizing && (
+          <button type="button" onClick={handleResetHotkeys} className="hotkey-capture">
+            Defaults
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => {
+            setIsCustomizing((prev) => !prev);
+            setCapturingAction(null);
+          }}
+          className="hotkey-capture"
+        >
+          {isCustomizing ? 'Done' : 'Keys…'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default RoastConsole;
@@ -0,0 +1,276 @@
+/**
+ * Roast Editor Component
+ *
+ * Edit-mode panel of the summary screen for correcting mis-tapped data:
+ * - Retiming first crack (also possible by dragging its marker on the chart)
+ * - Editing, inserting and deleting temperature points
+ * - Interpolating across a time range
+ * - The audit trail of edits with a revert to the data as recorded
+ *
+ * Edits change a draft that the summary screen shows live; nothing is stored
+ * until the edits are saved.
+ */
+import { useState } from 'react';
+import type { SummaryData, TemperatureUnit } from './types';
+import { formatTime } from './utils/format';
+import { parseTime } from './utils/importUtils';
+import { convertTemperature } from './utils/unitConversion';
+import { deletePoint, editPoint, insertPoint, interpolateRange, retimeFirstCrack, revertToOriginal } from './utils/roastEditing';
+import type { EditResult } from './utils/roastEditing';
+
+interface RoastEditorProps {
+  /** Draft being edited, in the roast's recorded unit */
+  roast: SummaryData;
+  /** Unit temperatures are shown and entered in */
+  displayUnit: TemperatureUnit;
+  /** Time of the point selected on the chart (null when none) */
+  selectedTime: number | null;
+  /** Callback function called when a point time is selected in the panel */
+  onSelectTime: (time: number | null) => void;
+  /** Callback function called with the edited draft */
+  onChange: (roast: SummaryData) => void;
+  /** Callback function to store the draft */
+  onSave: () => void;
+  /** Callback function to discard the draft */
+  onCancel: () => void;
+}
+
+function RoastEditor({ roast, displayUnit, selectedTime, onSelectTime, onChange, onSave, onCancel }: RoastEditorProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [firstCrackInput, setFirstCrackInput] = useState('');
+  const [rangeStartInput, setRangeStartInput] = useState('');
+  const [rangeEndInput, setRangeEndInput] = useState('');
+
+  const hasEnvTemp = roast.temperatureData.some((point) => point.environmentTemp !== undefined);
+  const edits = roast.edits ?? [];
+
+  /**
+   * Applies an edit to the draft, or shows why it was rejected
+   */
+  const apply = (result: EditResult) => {
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    onChange(result.roast);
+  };
+
+  /**
+   * Parses a MM:SS time input, showing an error when it is invalid
+   */
+  const readTime = (value: string, label: string): number | null => {
+    const time = parseTime(value);
+    if (time === null) setError(`${label} must be in MM:SS format`);
+    return time;
+  };
+
+  /**
+   * Retimes first crack to the entered time
+   */
+  const handleRetimeFirstCrack = (e: React.FormEvent) => {
+    e.preventDefault();
+    const time = readTime(firstCrackInput, 'First crack');
+    if (time !== null) apply(retimeFirstCrack(roast, time));
+  };
+
+  /**
+   * Interpolates across the entered range
+   */
+  const handleInterpolate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const start = readTime(rangeStartInput, 'Range start');
+    const end = start !== null ? readTime(rangeEndInput, 'Range end') : null;
+    if (start !== null && end !== null) apply(interpolateRange(roast, start, end));
+  };
+
+  return (
+    <div className="roast-editor">
+      <h3>Edit Roast Data</h3>
+      <p className="form-hint">
+        Drag the FCs marker on the chart to retime first crack, or click the chart to select a point.
+      </p>
+
+      <form className="roast-editor-row" onSubmit={handleRetimeFirstCrack}>
+        <label className="form-label-inline">
+          First crack
+          <input
+            type="text"
+            value={firstCrackInput}
+            onChange={(e) => setFirstCrackInput(e.target.value)}
+            placeholder={roast.firstCrackTime !== null ? formatTime(roast.firstCrackTime) : 'MM:SS'}
+            aria-label="First crack time (MM:SS)"
+          />
+        </label>
+        <button type="submit">Retime</button>
+      </form>
+
+      <PointEditor
+        key={`${selectedTime}-${displayUnit}-${edits.length}`}
+        roast={roast}
+        displayUnit={displayUnit}
+        selectedTime={selectedTime}
+        hasEnvTemp={hasEnvTemp}
+        onSelectTime={onSelectTime}
+        onApply={apply}
+        onError={setError}
+      />
+
+      <form className="roast-editor-row" onSubmit={handleInterpolate}>
+        <label className="form-label-inline">
+          Interpolate from
+          <input
+            type="text"
+            value={rangeStartInput}
+            onChange={(e) => setRangeStartInput(e.target.value)}
+            placeholder="MM:SS"
+            aria-label="Interpolation start (MM:SS)"
+          />
+        </label>
+        <label className="form-label-inline">
+          to
+          <input
+            type="text"
+            value={rangeEndInput}
+            onChange={(e) => setRangeEndInput(e.target.value)}
+            placeholder="MM:SS"
+            aria-label="Interpolation end (MM:SS)"
+          />
+        </label>
+        <button type="submit">Interpolate</button>
+      </form>
+
+      {error && <p className="roast-editor-error" role="alert">{error}</p>}
+
+      {edits.length > 0 && (
+        <ol className="edit-history">
+          {edits.map((edit, index) => (
+            <li key={index}>
+              {edit.description}
+              <span className="edit-history-time"> · {new Date(edit.editedAt).toLocaleString()}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="button-group">
+        <button onClick={onSave}>Save Edits</button>
+        {roast.original && (
+          <button onClick={() => { setError(null); onChange(revertToOriginal(roast)); }}>Revert to Original</button>
+        )}
+        <button onClick={onCancel}>Cancel</button>
+      </div>
+    </div>
+  );
+}
+
+interface PointEditorProps {
+  roast: SummaryData;
+  displayUnit: TemperatureUnit;
+  selectedTime: number | null;
+  hasEnvTemp: boolean;
+  onSelectTime: (time: number | null) => void;
+  onApply: (result: EditResult) => void;
+  onError: (error: string) => void;
+}
+
+/**
+ * Edits, inserts or deletes the point at the selected time; remounted (keyed)
+ * whenever the selection or the draft changes so its inputs show the point's readings
+ */
+function PointEditor({ roast, displayUnit, selectedTime, hasEnvTemp, onSelectTime, onApply, onError }: PointEditorProps) {
+  const point = selectedTime !== null ? roast.temperatureData.find((p) => p.time === selectedTime) : undefined;
+  const formatReading = (value: number | undefined) =>
+    value !== undefined ? convertTemperature(value, roast.unit, displayUnit).toFixed(1) : '';
+  const initialTemperature = formatReading(point?.temperature);
+  const initialEnvTemp = formatReading(point?.environmentTemp);
+
+  const [timeInput, setTimeInput] = useState(selectedTime !== null ? formatTime(selectedTime) : '');
+  const [temperatureInput, setTemperatureInput] = useState(initialTemperature);
+  const [envTempInput, setEnvTempInput] = useState(initialEnvTemp);
+
+  /**
+   * Reads an entered temperature in the roast's unit, keeping the recorded
+   * value when the input was left as shown (avoids unit round-trip drift)
+   */
+  const readTemperature = (input: string, initial: string, recorded: number | undefined): number | undefined => {
+    if (input.trim() === '') return undefined;
+    if (input === initial && recorded !== undefined) return recorded;
+    return convertTemperature(parseFloat(input), displayUnit, roast.unit);
+  };
+
+  /**
+   * Selects the point at the entered time
+   */
+  const selectEnteredTime = () => {
+    const time = parseTime(timeInput);
+    if (time !== null && time !== selectedTime) onSelectTime(time);
+  };
+
+  /**
+   * Updates the selected point, or inserts one when no point is recorded at that time
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const time = parseTime(timeInput);
+    if (time === null) {
+      onError('Point time must be in MM:SS format');
+      return;
+    }
+    const temperature = readTemperature(temperatureInput, initialTemperature, point?.temperature);
+    const environmentTemp = hasEnvTemp ? readTemperature(envTempInput, initialEnvTemp, point?.environmentTemp) : undefined;
+    if (temperature === undefined) {
+      onError('Enter a bean temperature');
+      return;
+    }
+    const values = { temperature, ...(environmentTemp !== undefined && { environmentTemp }) };
+    const existing = roast.temperatureData.some((p) => p.time === time);
+    onApply(existing ? editPoint(roast, time, values) : insertPoint(roast, { time, ...values }));
+  };
+
+  const timeMatchesPoint = point !== undefined && parseTime(timeInput) === point.time;
+
+  return (
+    <form className="roast-editor-row" onSubmit={handleSubmit}>
+      <label className="form-label-inline">
+        Point at
+        <input
+          type="text"
+          value={timeInput}
+          onChange={(e) => setTimeInput(e.target.value)}
+          onBlur={selectEnteredTime}
+          placeholder="MM:SS"
+          aria-label="Point time (MM:SS)"
+        />
+      </label>
+      <label className="form-label-inline">
+        BT
+        <input
+          type="number"
+          step="0.1"
+          value={temperatureInput}
+          onChange={(e) => setTemperatureInput(e.target.value)}
+        />
+        °{displayUnit}
+      </label>
+      {hasEnvTemp && (
+        <label className="form-label-inline">
+          ET
+          <input
+            type="number"
+            step="0.1"
+            value={envTempInput}
+            onChange={(e) => setEnvTempInput(e.target.value)}
+          />
+          °{displayUnit}
+        </label>
+      )}
+      <button type="submit">{timeMatchesPoint ? 'Update Point' : 'Insert Point'}</button>
+      {timeMatchesPoint && (
+        <button type="button" onClick={() => onApply(deletePoint(roast, point.time))}>Delete Point</button>
+      )}
+    </form>
+  );
+}
+
+export default RoastEditor;
@@ -0,0 +1,159 @@
+/**
+ * Roast Report Component
+ *
+ * One printable page describing a roast, laid out by a report template:
+ * - Logo and title
+ * - Roast chart drawn in print colors at a fixed size
+ * - The selected fields (stats, events, phases, weights, cupping, notes)
+ */
+import type { Ref } from 'react';
+import { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ReferenceLine } from 'recharts';
+import { withRoR } from './utils/rorCalculations';
+import { downsampleLTTB } from './utils/sampling';
+import { getEventDefinition } from './utils/roastEvents';
+import { getChannelDefinition, getRecordedChannels } from './utils/channels';
+import { getTemperatureStats } from './utils/exportUtils';
+import type { PhaseThresholds } from './utils/phaseAnalysis';
+import { getReportRows } from './utils/reportTemplate';
+import type { ReportTemplate } from './utils/reportTemplate';
+import { PRINT_CHART_COLORS, formatMinutes, getMinuteTicks, getTemperatureDomain } from './utils/chartConfig';
+import type { SummaryData } from './types';
+
+/** Chart size on the page, in pixels (fits an A4 or Letter page in portrait) */
+export const REPORT_CHART_WIDTH = 680;
+export const REPORT_CHART_HEIGHT = 320;
+
+interface RoastReportProps {
+  /** Roast in the unit the report is shown in */
+  roast: SummaryData;
+  /** Report layout */
+  template: ReportTemplate;
+  /** RoR calculation window in seconds */
+  rorWindow: number;
+  /** Fallback phase thresholds for unrecorded events */
+  phaseThresholds: PhaseThresholds;
+  /** Element wrapping the chart, used to export it as an image */
+  chartRef?: Ref<HTMLDivElement>;
+}
+
+function RoastReport({ roast, template, rorWindow, phaseThresholds, chartRef }: RoastReportProps) {
+  const { beanName, unit, temperatureData, events } = roast;
+
+  const chartData = useMemo(() => downsampleLTTB(withRoR(temperatureData, rorWindow)), [temperatureData, rorWindow]);
+  const channels = useMemo(() => getRecordedChannels(temperatureData), [temperatureData]);
+  const rows = getReportRows(roast, template.fields, phaseThresholds);
+
+  const { minTemp, maxTemp, environmentTemp } = getTemperatureStats(roast);
+  const axisMin = Math.min(minTemp, environmentTemp?.minTemp ?? minTemp);
+  const axisMax = Math.max(maxTemp, environmentTemp?.maxTemp ?? maxTemp);
+  const axisProps = { stroke: PRINT_CHART_COLORS.axis, tick: { fill: PRINT_CHART_COLORS.axis, fontSize: 11 } };
+
+  return (
+    <article className="roast-report">
+      <header className="roast-report-header">
+        {template.logo && <img className="roast-report-logo" src={template.logo} alt="" />}
+        <div>
+          {template.title && <p className="roast-report-title">{template.title}</p>}
+          <h2>{beanName}</h2>
+        </div>
+      </header>
+
+      {template.showChart && temperatureData.length > 0 && (
+        <div className="roast-report-chart" ref={chartRef}>
+          <LineChart width={REPORT_CHART_WIDTH} height={REPORT_CHART_HEIGHT} data={chartData} margin={{ top: 20, right: 10, bottom: 10, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={PRINT_CHART_COLORS.grid} />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              {...axisProps}
+              tickFormatter={formatMinutes}
+              label={{ value: 'Time (minutes)', position: 'insideBottom', offset: -5, fill: PRINT_CHART_COLORS.axis, fontSize: 11 }}
+              interval="preserveStartEnd"
+              allowDecimals={false}
+              ticks={getMinuteTicks(temperatureData[temperatureData.length - 1].time)}
+            />
+            <YAxis
+              yAxisId="temp"
+              {...axisProps}
+              label={{ value: `Temperature (°${unit})`, angle: -90, position: 'insideLeft', fill: PRINT_CHART_COLORS.axis, fontSize: 11 }}
+              domain={getTemperatureDomain(axisMin, axisMax)}
+            />
+            <YAxis
+              yAxisId="ror"
+              orientation="right"
+              stroke={PRINT_CHART_COLORS.ror}
+              tick={{ fill: PRINT_CHART_COLORS.ror, fontSize: 11 }}
+              label={{ value: `RoR (°${unit}/min)`, angle: 90, position: 'insideRight', fill: PRINT_CHART_COLORS.ror, fontSize: 11 }}
+              domain={['auto', 'auto']}
+              allowDecimals={false}
+            />
+            {events.map((event) => {
+              const definition = getEventDefinition(event.type);
+              return (
+                <ReferenceLine
+                  key={event.type}
+                  yAxisId="temp"
+                  x={event.time}
+                  stroke={definition.color}
+                  strokeWidth={1.5}
+                  strokeDasharray="5 5"
+                  label={{ value: definition.shortLabel, position: 'top', fill: PRINT_CHART_COLORS.axis, fontSize: 10 }}
+                />
+              );
+            })}
+            {channels.map((channel) => (
+              <Line
+                key={channel}
+                yAxisId="temp"
+                type="monotone"
+                dataKey={channel}
+                stroke={PRINT_CHART_COLORS[channel]}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+            <Line
+              yAxisId="ror"
+              type="monotone"
+              dataKey="ror"
+              stroke={PRINT_CHART_COLORS.ror}
+              strokeWidth={1.5}
+              dot={false}
+              connectNulls
+              isAnimationActive={false}
+            />
+          </LineChart>
+          <div className="roast-report-legend">
+            {channels.map((channel) => (
+              <span key={channel}>
+                <span className="phase-swatch" style={{ backgroundColor: PRINT_CHART_COLORS[channel] }} />
+                {getChannelDefinition(channel).label}
+              </span>
+            ))}
+            <span>
+              <span className="phase-swatch" style={{ backgroundColor: PRINT_CHART_COLORS.ror }} />
+              RoR ({rorWindow}s)
+            </span>
+          </div>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <dl className="roast-report-fields">
+          {rows.map((row) => (
+            <div key={row.field} className={`roast-report-field roast-report-field-${row.field}`}>
+              <dt>{row.label}</dt>
+              <dd>{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </article>
+  );
+}
+
+export default RoastReport;
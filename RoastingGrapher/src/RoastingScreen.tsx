@@ -3,121 +3,191 @@
  * 
  * Main screen during an active roasting session. Displays:
  * - Real-time temperature graph (temperature vs. time)
- * - Manual temperature control buttons (increase/decrease)
+ * - Manual temperature control buttons (increase/decrease per channel), or readings
+ *   from a simulated or WebSocket temperature source with a connection indicator
+ * - Keyboard console: hotkeys, selectable step sizes and typed readings; every
+ *   manual entry is logged at its exact time
+ * - Bean temperature (BT) and, when enabled, environment temperature (ET) curves
  * - Timer with start/stop/first crack functionality
- * - Current and charge temperature display
- * - Development Time Ratio (DTR) progress bar
+ * - Roast event buttons (dry end, first/second crack, drop) with undo
+ * - Current temperature readout per channel with current Rate of Rise (RoR)
+ * - Development Time Ratio (DTR) progress bar, coloured by roast phase, with the target DTR marked
+ * - Projected target times, a recommended drop countdown and visual/audio target alarms
+ * - Planned events from the targets or recipe, marked on the graph and compared with the recorded events
+ * - Optional reference roast ghost curve with live deltas
+ * - Celsius/Fahrenheit display toggle (readings stay recorded in the session unit)
+ * 
+ * Progress is saved continuously so the roast can be resumed after a reload or crash.
  */
 import { useState, useEffect, useRef } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
-import { calculateDTR, getDTRColor } from './utils/dtrCalculations';
-
-/**
- * Data point structure for temperature logging
- */
-interface TemperatureDataPoint {
-  /** Time in seconds since timer started */
-  time: number;
-  /** Temperature reading at this time point */
-  temperature: number;
-}
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceArea, ReferenceDot } from 'recharts';
+import { calculateDTR } from './utils/dtrCalculations';
+import { analyzePhases, loadPhaseThresholds } from './utils/phaseAnalysis';
+import { TARGET_LABELS, getEventTargetDeviation, getRecommendedDrop, getTargetAlarms, hasTargets, playAlarmTone, projectTargets } from './utils/roastTargets';
+import { DEFAULT_ROR_WINDOW, ROR_WINDOW_OPTIONS, formatRoR, getCurrentRoR, withRoR } from './utils/rorCalculations';
+import { formatTime } from './utils/format';
+import { getReferenceDeltas } from './utils/referenceProfile';
+import { ROAST_EVENTS, getEventDefinition, getEventTime, withTurningPoint } from './utils/roastEvents';
+import { SOURCE_LABELS, createTemperatureSource, isManualSource } from './utils/temperatureSources';
+import type { SourceStatus, TemperatureSource } from './utils/temperatureSources';
+import { getChannelDefinition, getChannelValues } from './utils/channels';
+import { appendReading, downsampleLTTB } from './utils/sampling';
+import { convertDataPoints, convertRoastUnit, convertTemperature, convertTemperatureDelta, getTemperatureStep } from './utils/unitConversion';
+import UnitToggle from './UnitToggle';
+import RoastConsole from './RoastConsole';
+import type { HotkeyAction } from './utils/hotkeys';
+import { getResumePoint, loadSavedSession, removeSavedSession, saveSession } from './utils/sessionRecovery';
+import type { SavedSession } from './utils/sessionRecovery';
+import { formatRecipeRef } from './utils/recipes';
+import type { ChannelKey, RecipeRef, RoastEvent, RoastEventType, RoastTargets, SummaryData, TemperatureDataPoint, TemperatureSourceConfig, TemperatureUnit } from './types';
 
 /**
- * Session state structure for localStorage persistence
+ * Roast progress derived from the recorded events
  */
-interface SessionState {
-  beanName: string;
-  chargeTemp: number;
-  unit: 'C' | 'F';
-  temperatureData: TemperatureDataPoint[];
-  currentTemp: number;
-  seconds: number;
-  isRunning: boolean;
-  startTime: number | null;
-  firstCrackTime: number | null;
-  roastStage: 'ready' | 'started' | 'firstCrack' | 'ended';
-}
+type RoastStage = 'ready' | 'started' | 'firstCrack' | 'ended';
 
 interface RoastingScreenProps {
+  /** Identifier the session progress is saved under */
+  sessionId: string;
   /** Name of the coffee beans being roasted */
   beanName: string;
   /** Initial charge temperature when beans were added */
   chargeTemp: number;
-  /** Temperature unit ('C' for Celsius, 'F' for Fahrenheit) */
-  unit: 'C' | 'F';
+  /** Temperature unit readings are recorded in ('C' for Celsius, 'F' for Fahrenheit) */
+  unit: TemperatureUnit;
+  /** Previous roast drawn as a ghost curve for comparison (in the same unit) */
+  referenceRoast?: SummaryData | null;
+  /** Where temperature readings come from (defaults to manual buttons) */
+  source?: TemperatureSourceConfig;
+  /** Recorded probe channels (defaults to bean temperature only) */
+  channels?: ChannelKey[];
+  /** Roast targets to project and raise alarms for */
+  targets?: RoastTargets | null;
+  /** Inventory lot the batch is taken from (kept with the saved session) */
+  lotId?: string | null;
+  /** Green batch weight in grams (kept with the saved session) */
+  greenWeight?: number | null;
+  /** Recipe revision the session was started from (kept with the saved session) */
+  recipe?: RecipeRef | null;
   /** Callback function to end session and show summary */
-  onBack: (data: { temperatureData: TemperatureDataPoint[], totalTime: number, firstCrackTime: number | null }) => void;
+  onBack: (data: { temperatureData: TemperatureDataPoint[], totalTime: number, firstCrackTime: number | null, events: RoastEvent[] }) => void;
 }
 
-function RoastingScreen({ beanName, chargeTemp, unit, onBack }: RoastingScreenProps) {
+const MANUAL_SOURCE: TemperatureSourceConfig = { kind: 'manual' };
+
+/**
+ * Data point with the readings of every recorded channel
+ */
+const createDataPoint = (time: number, temperature: number, environmentTemp: number | null): TemperatureDataPoint => {
+  return environmentTemp !== null ? { time, temperature, environmentTemp } : { time, temperature };
+};
+const BEAN_TEMP_ONLY: ChannelKey[] = ['temperature'];
+
+function RoastingScreen({ sessionId, beanName, chargeTemp, unit, referenceRoast = null, source = MANUAL_SOURCE, channels = BEAN_TEMP_ONLY, targets = null, lotId = null, greenWeight = null, recipe = null, onBack }: RoastingScreenProps) {
+  const recordsEnvTemp = channels.includes('environmentTemp');
+
+  /**
+   * Resume the saved session (continuing its timer), or start a new session
+   * with the timer running and the charge recorded at time 0
+   */
+  const [initialState] = useState((): Omit<SavedSession, 'session' | 'savedAt'> => {
+    const saved = loadSavedSession(sessionId);
+    const now = Date.now();
+    if (!saved) {
+      const envTemp = recordsEnvTemp && source.kind === 'manual' ? chargeTemp : null;
+      return {
+        // Initialize with charge temperature at time 0 (ET starts there too when adjusted manually)
+        temperatureData: [envTemp !== null
+          ? { time: 0, temperature: chargeTemp, environmentTemp: envTemp }
+          : { time: 0, temperature: chargeTemp }],
+        currentTemp: chargeTemp,
+        currentEnvTemp: envTemp,
+        seconds: 0,
+        isRunning: true,
+        startTime: now,
+        events: [{ type: 'charge', time: 0, temperature: chargeTemp }],
+        gaps: []
+      };
+    }
+    if (getEventTime(saved.events, 'charge') === null) {
+      return { ...saved, isRunning: false, startTime: null };
+    }
+    // Continue the charged roast, marking the time without readings
+    const resume = getResumePoint(saved, now);
+    return {
+      ...saved,
+      seconds: resume.seconds,
+      isRunning: true,
+      startTime: resume.startTime,
+      gaps: resume.gap ? [...saved.gaps, resume.gap] : saved.gaps
+    };
+  });
+
   // Timer state - using Date.now() for accuracy
-  const [seconds, setSeconds] = useState(0);
-  const [isRunning, setIsRunning] = useState(false);
-  const [startTime, setStartTime] = useState<number | null>(null);
-  const [firstCrackTime, setFirstCrackTime] = useState<number | null>(null);
-  const [roastStage, setRoastStage] = useState<'ready' | 'started' | 'firstCrack' | 'ended'>('ready');
+  const [seconds, setSeconds] = useState(initialState.seconds);
+  const [isRunning, setIsRunning] = useState(initialState.isRunning);
+  const [startTime, setStartTime] = useState(initialState.startTime);
+ 
+  // Manually recorded roast events (turning point is detected from the data)
+  const [events, setEvents] = useState<RoastEvent[]>(initialState.events);
   
   // Temperature state and data logging
-  const [temperatureData, setTemperatureData] = useState<TemperatureDataPoint[]>([
-    { time: 0, temperature: chargeTemp } // Initialize with charge temperature at time 0
-  ]);
-  const [currentTemp, setCurrentTemp] = useState(chargeTemp);
+  const [temperatureData, setTemperatureData] = useState<TemperatureDataPoint[]>(initialState.temperatureData);
+  const [currentTemp, setCurrentTemp] = useState(initialState.currentTemp);
+  // Environment temperature, null until the source provides a reading
+  const [currentEnvTemp, setCurrentEnvTemp] = useState<number | null>(initialState.currentEnvTemp);
+  const [rorWindow, setRorWindow] = useState(DEFAULT_ROR_WINDOW);
+  // Unit temperatures are shown in; recorded data stays in the session unit
+  const [displayUnit, setDisplayUnit] = useState<TemperatureUnit>(unit);
+  // Manual step size in the displayed unit
+  const [stepSize, setStepSize] = useState(getTemperatureStep(unit));
+
+  // Fallback phase thresholds for events not (yet) recorded
+  const [phaseThresholds] = useState(loadPhaseThresholds);
+
+  // Intervals without readings, e.g. while the app was closed before resuming
+  const { gaps } = initialState;
+
+  // Temperature source health
+  const [sourceStatus, setSourceStatus] = useState<SourceStatus>('connecting');
+  const [sourceMessage, setSourceMessage] = useState<string | null>(null);
   
   // Refs for managing intervals and accessing current values in callbacks
   const intervalRef = useRef<number | null>(null);
   const currentTempRef = useRef(currentTemp);
-  const isInitialMount = useRef(true);
-  const sessionKeyRef = useRef(`roasting_session_${beanName}_${Date.now()}`);
+  const currentEnvTempRef = useRef(currentEnvTemp);
+  const sourceRef = useRef<TemperatureSource | null>(null);
+  const sourceStatusRef = useRef<SourceStatus>('connecting');
+  // Alarms that already played their tone
+  const playedAlarmsRef = useRef(new Set<string>());
 
   /**
-   * Load saved session from localStorage on mount and auto-start timer
+   * Save session to localStorage whenever state changes
    */
   useEffect(() => {
-    const savedSession = localStorage.getItem(sessionKeyRef.current);
-    if (savedSession) {
-      try {
-        const state: SessionState = JSON.parse(savedSession);
-        // Restore state from localStorage
-        setTemperatureData(state.temperatureData);
-        setCurrentTemp(state.currentTemp);
-        setSeconds(state.seconds);
-        setFirstCrackTime(state.firstCrackTime);
-        setRoastStage(state.roastStage);
-        // Don't automatically resume timer, let user restart
-        setIsRunning(false);
-        setStartTime(null);
-      } catch (error) {
-        console.error('Failed to load saved session:', error);
-      }
-    } else {
-      // Auto-start timer for new sessions
-      setStartTime(Date.now());
-      setIsRunning(true);
-      setRoastStage('started');
-    }
-    isInitialMount.current = false;
-  }, []); // Only run once on mount
+    saveSession({
+      session: { sessionId, beanName, chargeTemp, unit, referenceRoast, source, channels, targets, lotId, greenWeight, recipe },
+      temperatureData,
+      currentTemp,
+      currentEnvTemp,
+      seconds,
+      isRunning,
+      startTime,
+      events,
+      gaps,
+      savedAt: Date.now()
+    });
+  }, [sessionId, beanName, chargeTemp, unit, referenceRoast, source, channels, targets, lotId, greenWeight, recipe, temperatureData, currentTemp, currentEnvTemp, seconds, isRunning, startTime, events, gaps]);
 
   /**
-   * Save session to localStorage whenever state changes
+   * Roast progress and first crack time derived from the recorded events
    */
-  useEffect(() => {
-    if (!isInitialMount.current) {
-      const state: SessionState = {
-        beanName,
-        chargeTemp,
-        unit,
-        temperatureData,
-        currentTemp,
-        seconds,
-        isRunning: false, // Never save running state
-        startTime: null,
-        firstCrackTime,
-        roastStage,
-      };
-      localStorage.setItem(sessionKeyRef.current, JSON.stringify(state));
-    }
-  }, [beanName, chargeTemp, unit, temperatureData, currentTemp, seconds, firstCrackTime, roastStage]);
+  const firstCrackTime = getEventTime(events, 'firstCrackStart');
+  const roastStage: RoastStage =
+    getEventTime(events, 'drop') !== null ? 'ended' :
+    firstCrackTime !== null ? 'firstCrack' :
+    getEventTime(events, 'charge') !== null ? 'started' :
+    'ready';
 
   /**
    * Cleanup effect: Clear interval timer when component unmounts
@@ -131,15 +201,54 @@ function RoastingScreen({ beanName, chargeTemp, unit, onBack }: RoastingScreenPr
   }, []);
 
   /**
-   * Sync temperature ref with state for access in interval callback
+   * Connect to the temperature source for the lifetime of the screen (the
+   * simulator restarts when the roast is charged, as its curve follows the roast time)
+   */
+  const simulatedStartTime = source.kind === 'simulated' ? startTime : null;
+  useEffect(() => {
+    const temperatureSource = createTemperatureSource(source, chargeTemp, unit, channels, simulatedStartTime);
+    sourceRef.current = temperatureSource;
+    temperatureSource.start(
+      (reading) => {
+        setCurrentTemp(reading.temperature);
+        if (channels.includes('environmentTemp') && reading.environmentTemp !== undefined) {
+          setCurrentEnvTemp(reading.environmentTemp);
+        }
+      },
+      (status, message) => {
+        sourceStatusRef.current = status;
+        setSourceStatus(status);
+        setSourceMessage(message ?? null);
+      }
+    );
+    // Manual readings continue from the current (possibly restored) values
+    if (isManualSource(temperatureSource)) {
+      temperatureSource.setTemperature(currentTempRef.current, 'temperature');
+      if (currentEnvTempRef.current !== null) {
+        temperatureSource.setTemperature(currentEnvTempRef.current, 'environmentTemp');
+      }
+    }
+    return () => {
+      temperatureSource.stop();
+      sourceRef.current = null;
+    };
+  }, [source, chargeTemp, unit, channels, simulatedStartTime]);
+
+  /**
+   * Sync temperature refs with state for access in interval callback
    */
   useEffect(() => {
     currentTempRef.current = currentTemp;
   }, [currentTemp]);
 
+  useEffect(() => {
+    currentEnvTempRef.current = currentEnvTemp;
+  }, [currentEnvTemp]);
+
   /**
    * Timer effect: Manages timer and temperature logging with Date.now() for accuracy
-   * Updates every 100ms for smooth display, logs data points every second
+   * Updates every 100ms for smooth display, logs readings that changed (and
+   * keyframes while they hold steady) on whole seconds
    */
   useEffect(() => {
     if (isRunning && startTime !== null) {
@@ -147,16 +256,11 @@ function RoastingScreen({ beanName, chargeTemp, unit, onBack }: RoastingScreenPr
         const elapsed = Math.floor((Date.now() - startTime) / 1000);
         setSeconds(elapsed);
         
-        // Log temperature data point only when elapsed time increases (prevents duplicates)
-        setTemperatureData((prev) => {
-          const lastTime = prev.length > 0 ? prev[prev.length - 1].time : -1;
-          if (elapsed > lastTime) {
-            const newData = [...prev, { time: elapsed, temperature: currentTempRef.current }];
-            // Keep last 3600 points (1 hour at 1 second intervals) to prevent memory issues
-            return newData.length > 3600 ? newData.slice(-3600) : newData;
-          }
-          return prev;
-        });
+        // Pause logging while the source is not delivering readings (dropout)
+        if (sourceStatusRef.current !== 'connected') return;
+
+        // Unchanged readings leave the data (and its array) as is
+        setTemperatureData((prev) => appendReading(prev, createDataPoint(elapsed, currentTempRef.current, currentEnvTempRef.current)));
       }, 100);
     } else {
       if (intervalRef.current) {
@@ -173,13 +277,20 @@ function RoastingScreen({ beanName, chargeTemp, unit, onBack }: RoastingScreenPr
   }, [isRunning, startTime]);
 
   /**
-   * Starts the timer and begins logging temperature data
+   * Records a roast event at the current time and temperature
+   */
+  const recordEvent = (type: RoastEventType) => {
+    setEvents((prev) => [...prev, { type, time: seconds, temperature: currentTemp }]);
+  };
+
+  /**
+   * Starts the timer, records the charge and begins logging temperature data
    */
   const handleStart = () => {
     if (!isRunning && roastStage === 'ready') {
       setStartTime(Date.now() - seconds * 1000);
       setIsRunning(true);
-      setRoastStage('started');
+      recordEvent('charge');
     }
   };
 
@@ -188,25 +299,117 @@ function RoastingScreen({ beanName, chargeTemp, unit, onBack }: RoastingScreenPr
    */
   const handleFirstCrack = () => {
     if (roastStage === 'started') {
-      setFirstCrackTime(seconds);
-      setRoastStage('firstCrack');
+      recordEvent('firstCrackStart');
+    }
+  };
+
+  /**
+   * Whether an optional event button can be used at this point of the roast
+   */
+  const canRecordEvent = (type: RoastEventType): boolean => {
+    if (getEventTime(events, type) !== null) return false;
+    switch (type) {
+      case 'dryEnd':
+        return roastStage === 'started';
+      case 'firstCrackEnd':
+      case 'secondCrackStart':
+        return roastStage === 'firstCrack';
+      case 'secondCrackEnd':
+        return getEventTime(events, 'secondCrackStart') !== null;
+      default:
+        return false;
+    }
+  };
+
+  /**
+   * Most recently recorded event that can be undone (charge cannot be undone)
+   */
+  const lastUndoableEvent = events.length > 0 && events[events.length - 1].type !== 'charge'
+    ? events[events.length - 1]
+    : null;
+
+  /**
+   * Removes the most recently recorded event (e.g. after a mis-tap)
+   */
+  const handleUndoEvent = () => {
+    if (lastUndoableEvent) {
+      setEvents((prev) => prev.slice(0, -1));
+    }
+  };
+
+  /**
+   * Sets a manual reading of one channel through the manual temperature source,
+   * logging it at its exact time while the roast is running
+   */
+  const setManualTemperature = (temperature: number, channel: ChannelKey) => {
+    if (!isManualSource(sourceRef.current)) return;
+    const reading = sourceRef.current.setTemperature(temperature, channel);
+    // Update the refs right away so repeated keys accumulate before the next render
+    if (channel === 'environmentTemp') {
+      currentEnvTempRef.current = temperature;
+    } else {
+      currentTempRef.current = temperature;
     }
+
+    if (!isRunning || startTime === null) return;
+    const point: TemperatureDataPoint = {
+      time: Math.round(reading.timestamp - startTime) / 1000,
+      temperature: reading.temperature
+    };
+    if (reading.environmentTemp !== undefined) {
+      point.environmentTemp = reading.environmentTemp;
+    }
+    setTemperatureData((prev) => {
+      const last = prev[prev.length - 1];
+      // Entries within the same millisecond replace each other
+      if (last && point.time <= last.time) {
+        return [...prev.slice(0, -1), { ...point, time: last.time }];
+      }
+      return [...prev, point];
+    });
+  };
+
+  /**
+   * Current value of a channel, read from the refs so rapid taps accumulate
+   */
+  const getChannelTemp = (channel: ChannelKey): number => {
+    return channel === 'environmentTemp'
+      ? currentEnvTempRef.current ?? currentTempRef.current
+      : currentTempRef.current;
   };
 
   /**
-   * Increases current temperature by 1°C or 1.8°F
+   * Selected step size, converted from the displayed unit to the session unit
+   */
+  const step = convertTemperatureDelta(stepSize, displayUnit, unit);
+
+  /**
+   * Switches the displayed unit, resetting the step to that unit's default
    */
-  const handleIncreaseTemp = () => {
-    const increment = unit === 'C' ? 1 : 1.8;
-    setCurrentTemp((prevTemp) => prevTemp + increment);
+  const handleDisplayUnitChange = (nextUnit: TemperatureUnit) => {
+    setDisplayUnit(nextUnit);
+    setStepSize(getTemperatureStep(nextUnit));
   };
 
   /**
-   * Decreases current temperature by 1°C or 1.8°F (minimum 0)
+   * Increases a channel's temperature by one step
    */
-  const handleDecreaseTemp = () => {
-    const decrement = unit === 'C' ? 1 : 1.8;
-    setCurrentTemp((prevTemp) => Math.max(0, prevTemp - decrement));
+  const handleIncreaseTemp = (channel: ChannelKey) => {
+    setManualTemperature(getChannelTemp(channel) + step, channel);
+  };
+
+  /**
+   * Decreases a channel's temperature by one step (minimum 0)
+   */
+  const handleDecreaseTemp = (channel: ChannelKey) => {
+    setManualTemperature(Math.max(0, getChannelTemp(channel) - step), channel);
+  };
+
+  /**
+   * Jumps a channel straight to a typed reading (in the displayed unit)
+   */
+  const handleEnterTemperature = (temperature: number, channel: ChannelKey) => {
+    setManualTemperature(convertTemperature(temperature, displayUnit, unit), channel);
   };
 
 
@@ -214,25 +417,46 @@ function RoastingScreen({ beanName, chargeTemp, unit, onBack }: RoastingScreenPr
    * Ends the session and navigates to summary screen
    */
   const handleBackWithConfirmation = () => {
-    // Stop the timer
+    // Stop the timer and record the drop, with the readings at the drop ending the data
     setIsRunning(false);
-    setRoastStage('ended');
+    // Manual entries are logged at their exact time, so the last one may be later than the whole-second timer
+    const lastPoint = temperatureData[temperatureData.length - 1];
+    const dropTime = lastPoint ? Math.max(seconds, lastPoint.time) : seconds;
+    const finalData = appendReading(temperatureData, createDataPoint(dropTime, currentTemp, currentEnvTemp), 0);
+    const finalEvents = withTurningPoint(
+      [...events, { type: 'drop', time: dropTime, temperature: currentTemp }],
+      finalData
+    );
+    setEvents(finalEvents);
     
     // Clear localStorage for this session
-    localStorage.removeItem(sessionKeyRef.current);
+    removeSavedSession(sessionId);
     
     // Pass all session data to parent
-    onBack({ temperatureData, totalTime: seconds, firstCrackTime });
+    onBack({ temperatureData: finalData, totalTime: dropTime, firstCrackTime, events: finalEvents });
   };
 
 
   /**
-   * Formats seconds into MM:SS format
+   * Runs the action bound to a pressed hotkey
    */
-  const formatTime = (totalSeconds: number) => {
-    const mins = Math.floor(totalSeconds / 60);
-    const secs = totalSeconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  const handleHotkey = (action: HotkeyAction) => {
+    switch (action) {
+      case 'temperatureUp':
+        handleIncreaseTemp('temperature');
+        break;
+      case 'temperatureDown':
+        handleDecreaseTemp('temperature');
+        break;
+      case 'firstCrack':
+        handleFirstCrack();
+        break;
+      case 'end':
+        if (roastStage === 'firstCrack') {
+          handleBackWithConfirmation();
+        }
+        break;
+    }
   };
 
   /**
@@ -243,64 +467,262 @@ function RoastingScreen({ beanName, chargeTemp, unit, onBack }: RoastingScreenPr
     return `${mins}m`;
   };
 
+  /**
+   * Recorded data extended to the current readings while logging, so the
+   * curve reaches the present between keyframes
+   */
+  const liveData = isRunning && sourceStatus === 'connected'
+    ? appendReading(temperatureData, createDataPoint(seconds, currentTemp, currentEnvTemp), 0)
+    : temperatureData;
+
+  /**
+   * Data, reference roast and readings converted to the displayed unit
+   */
+  const displayData = convertDataPoints(liveData, unit, displayUnit);
+  const displayReference = referenceRoast ? convertRoastUnit(referenceRoast, displayUnit) : null;
+  const displayTemp = convertTemperature(currentTemp, unit, displayUnit);
+  const displayEnvTemp = currentEnvTemp !== null ? convertTemperature(currentEnvTemp, unit, displayUnit) : null;
+
+  /**
+   * Chart data with Rate of Rise, downsampled so long sessions draw smoothly
+   */
+  const chartData = downsampleLTTB(withRoR(displayData, rorWindow));
+
   /**
    * Calculate the minimum and maximum temperatures from data
    */
-  const minTemp = Math.min(...temperatureData.map(d => d.temperature));
-  const maxTemp = Math.max(...temperatureData.map(d => d.temperature));
+  const referenceData = displayReference ? downsampleLTTB(displayReference.temperatureData) : [];
+  const referenceTemps = referenceData.map(d => d.temperature);
+  const channelTemps = channels.flatMap(channel => getChannelValues(chartData, channel));
+  const minTemp = Math.min(...channelTemps, ...referenceTemps);
+  const maxTemp = Math.max(...channelTemps, ...referenceTemps);
+
+  /**
+   * Planned events, with their temperatures in the display unit
+   */
+  const eventTargets = (targets?.events ?? []).map((target) => ({
+    ...target,
+    displayTemperature: target.temperature !== null ? convertTemperature(target.temperature, unit, displayUnit) : null
+  }));
+
+  /**
+   * X-axis extent covers the live roast, the reference roast and the planned events
+   */
+  const lastTime = liveData.length > 0 ? liveData[liveData.length - 1].time : 0;
+  const axisEnd = Math.max(lastTime, referenceRoast?.totalTime ?? 0, ...eventTargets.map((target) => target.time ?? 0));
+
+  /**
+   * Roast phases so far, filling the DTR bar up to the current time
+   */
+  const { phases } = analyzePhases(temperatureData, events, seconds, unit, phaseThresholds);
+  const currentPhase = phases.length > 0 ? phases[phases.length - 1] : null;
+
+  /**
+   * Live deltas against the reference roast
+   */
+  const referenceDeltas = displayReference
+    ? getReferenceDeltas(seconds, displayTemp, firstCrackTime, displayReference.temperatureData, displayReference.firstCrackTime)
+    : null;
+
+  /**
+   * Events with the detected turning point, and the current RoR for the readout
+   */
+  const displayEvents = withTurningPoint(events, temperatureData);
+  const currentRoR = getCurrentRoR(displayData, rorWindow);
+
+  /**
+   * Target projections (in the session unit) while the roast is in progress,
+   * the recommended drop and the alarms they raise
+   */
+  const projections = hasTargets(targets) && (roastStage === 'started' || roastStage === 'firstCrack')
+    ? projectTargets(targets, { seconds, currentTemp, ror: getCurrentRoR(liveData, rorWindow), firstCrackTime })
+    : [];
+  const recommendedDrop = getRecommendedDrop(projections);
+  const alarms = hasTargets(targets) ? getTargetAlarms(projections, targets.alarmLeadTime) : [];
+  const alarmKeys = alarms.map((alarm) => `${alarm.type}:${alarm.stage}`).join(',');
+
+  /**
+   * Play the alarm tone once for every newly raised alarm
+   */
+  useEffect(() => {
+    alarmKeys.split(',').filter(Boolean).forEach((key) => {
+      if (playedAlarmsRef.current.has(key)) return;
+      playedAlarmsRef.current.add(key);
+      playAlarmTone(key.endsWith(':reached') ? 'reached' : 'approaching');
+    });
+  }, [alarmKeys]);
 
   return (
     <div className="screen-container">
       <div className="screen-header">
         <h1>{beanName}</h1>
+        {recipe && <span className="recipe-badge">{formatRecipeRef(recipe)}</span>}
+        <span className={`source-status source-status-${sourceStatus}`} title={sourceMessage ?? undefined}>
+          ● {SOURCE_LABELS[source.kind]}
+          {source.kind !== 'manual' && `: ${
+            sourceStatus === 'connected' ? 'Live' :
+            sourceStatus === 'stale' ? 'No signal' :
+            sourceStatus === 'disconnected' ? 'Reconnecting…' :
+            'Connecting…'
+          }`}
+        </span>
+        <UnitToggle unit={displayUnit} onChange={handleDisplayUnitChange} />
       </div>
 
+      {source.kind !== 'manual' && sourceStatus !== 'connected' && (
+        <div className="source-warning" role="alert">
+          Temperature signal lost{sourceMessage ? ` (${sourceMessage})` : ''}. Logging is paused until readings resume.
+        </div>
+      )}
+
       <div className="graph-wrapper">
         <div className="graph-container">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={temperatureData}>
+            <LineChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#333333" />
               <XAxis 
                 dataKey="time" 
+                type="number"
+                domain={[0, axisEnd]}
                 stroke="#ffffff"
                 tick={{ fill: '#ffffff' }}
                 tickFormatter={formatMinutes}
                 label={{ value: 'Time (minutes)', position: 'insideBottom', offset: -5, fill: '#ffffff' }}
                 interval="preserveStartEnd"
                 allowDecimals={false}
-                ticks={temperatureData.length > 0 ? Array.from(
-                  { length: Math.floor(temperatureData[temperatureData.length - 1].time / 60) + 2 }, 
+                ticks={Array.from(
+                  { length: Math.floor(axisEnd / 60) + 2 }, 
                   (_, i) => i * 60
-                ).filter(tick => tick <= temperatureData[temperatureData.length - 1].time + 60) : [0]}
+                ).filter(tick => tick <= axisEnd + 60)}
               />
               <YAxis 
+                yAxisId="temp"
                 stroke="#ffffff"
                 tick={{ fill: '#ffffff' }}
-                label={{ value: `Temperature (°${unit})`, angle: -90, position: 'insideLeft', fill: '#ffffff' }}
+                label={{ value: `Temperature (°${displayUnit})`, angle: -90, position: 'insideLeft', fill: '#ffffff' }}
                 domain={[Math.floor(minTemp - 5), Math.ceil(maxTemp + 5)]}
               />
+              <YAxis 
+                yAxisId="ror"
+                orientation="right"
+                stroke="#00bfff"
+                tick={{ fill: '#00bfff' }}
+                label={{ value: `RoR (°${displayUnit}/min)`, angle: 90, position: 'insideRight', fill: '#00bfff' }}
+                domain={['auto', 'auto']}
+                allowDecimals={false}
+              />
               <Tooltip 
                 contentStyle={{ backgroundColor: '#000000', border: '1px solid #ffffff', color: '#ffffff' }}
                 labelStyle={{ color: '#ffffff' }}
                 labelFormatter={(value) => `Time: ${formatMinutes(value as number)}`}
               />
               <Legend wrapperStyle={{ color: '#ffffff' }} />
-              {firstCrackTime !== null && (
+              {referenceRoast?.firstCrackTime != null && (
                 <ReferenceLine 
-                  x={firstCrackTime} 
+                  yAxisId="temp"
+                  x={referenceRoast.firstCrackTime} 
                   stroke="#ffaa00" 
+                  strokeOpacity={0.4}
+                  strokeDasharray="2 4"
+                  label={{ value: 'Ref FC', position: 'insideTopRight', fill: '#ffaa00', fillOpacity: 0.6, fontSize: 11 }}
+                />
+              )}
+              {displayReference && (
+                <Line 
+                  yAxisId="temp"
+                  data={referenceData}
+                  type="monotone" 
+                  dataKey="temperature" 
+                  stroke="#ffffff" 
+                  strokeOpacity={0.35}
                   strokeWidth={2}
-                  strokeDasharray="5 5"
-                  label={{ value: 'First Crack', position: 'top', fill: '#ffaa00', fontSize: 12 }}
+                  strokeDasharray="4 4"
+                  dot={false}
+                  isAnimationActive={false}
+                  name={`Reference: ${displayReference.beanName}`}
                 />
               )}
+              {eventTargets.map((target) => {
+                const definition = getEventDefinition(target.type);
+                const label = { value: `${definition.shortLabel} plan`, position: 'insideTopLeft' as const, fill: definition.color, fillOpacity: 0.6, fontSize: 11 };
+                if (target.time !== null && target.displayTemperature !== null) {
+                  return (
+                    <ReferenceDot
+                      key={`target-${target.type}`}
+                      yAxisId="temp"
+                      x={target.time}
+                      y={target.displayTemperature}
+                      r={6}
+                      fill="none"
+                      stroke={definition.color}
+                      strokeWidth={2}
+                      label={{ ...label, position: 'top' }}
+                    />
+                  );
+                }
+                return (
+                  <ReferenceLine
+                    key={`target-${target.type}`}
+                    yAxisId="temp"
+                    {...(target.time !== null ? { x: target.time } : { y: target.displayTemperature ?? 0 })}
+                    stroke={definition.color}
+                    strokeOpacity={0.4}
+                    strokeDasharray="1 4"
+                    label={label}
+                  />
+                );
+              })}
+              {gaps.map((gap) => (
+                <ReferenceArea 
+                  key={gap.start}
+                  yAxisId="temp"
+                  x1={gap.start}
+                  x2={gap.end}
+                  fill="#ff5555"
+                  fillOpacity={0.12}
+                  label={{ value: 'No data', position: 'insideTop', fill: '#ff5555', fontSize: 11 }}
+                />
+              ))}
+              {displayEvents.map((event) => {
+                const definition = getEventDefinition(event.type);
+                return (
+                  <ReferenceLine 
+                    key={event.type}
+                    yAxisId="temp"
+                    x={event.time} 
+                    stroke={definition.color} 
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    label={{ value: definition.shortLabel, position: 'top', fill: definition.color, fontSize: 12 }}
+                  />
+                );
+              })}
+              {channels.map((channel) => {
+                const definition = getChannelDefinition(channel);
+                return (
+                  <Line 
+                    key={channel}
+                    yAxisId="temp"
+                    type="monotone" 
+                    dataKey={channel} 
+                    stroke={definition.color} 
+                    strokeWidth={2}
+                    dot={channel === 'temperature' ? { fill: definition.color, r: 3 } : false}
+                    connectNulls
+                    name={recordsEnvTemp ? `${definition.shortLabel} (°${displayUnit})` : `Temperature (°${displayUnit})`}
+                  />
+                );
+              })}
               <Line 
+                yAxisId="ror"
                 type="monotone" 
-                dataKey="temperature" 
-                stroke="#ffffff" 
-                strokeWidth={2}
-                dot={{ fill: '#ffffff', r: 3 }}
-                name={`Temperature (°${unit})`}
+                dataKey="ror" 
+                stroke="#00bfff" 
+                strokeWidth={1.5}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+                name={`RoR (°${displayUnit}/min)`}
               />
             </LineChart>
           </ResponsiveContainer>
@@ -308,37 +730,203 @@ function RoastingScreen({ beanName, chargeTemp, unit, onBack }: RoastingScreenPr
       </div>
 
       <div className="dtr-section">
-        <div className="dtr-label">DTR</div>
+        <div className="dtr-label">
+          DTR{currentPhase ? ` · ${currentPhase.label}` : ''}
+        </div>
         <div className="dtr-progress-container">
-          <div 
-            className="dtr-progress-bar" 
-            style={{ 
-              width: `${calculateDTR(firstCrackTime, seconds)}%`,
-              backgroundColor: getDTRColor(calculateDTR(firstCrackTime, seconds))
-            }}
-          />
+          {phases.map((phase) => (
+            <div 
+              key={phase.type}
+              className="dtr-phase-segment" 
+              style={{ width: `${phase.percentage}%`, backgroundColor: phase.color }}
+              title={`${phase.label}: ${formatTime(phase.duration)}`}
+            />
+          ))}
+          {targets?.dtr != null && (
+            <div
+              className="dtr-target-marker"
+              style={{ left: `${100 - targets.dtr}%` }}
+              title={`Target DTR ${targets.dtr}%`}
+            />
+          )}
           <div className="dtr-progress-text">
             {calculateDTR(firstCrackTime, seconds).toFixed(1)}%
+            {targets?.dtr != null && ` / ${targets.dtr}%`}
           </div>
         </div>
       </div>
 
+      {alarms.length > 0 && (
+        <div className={`target-alarm${alarms.some((alarm) => alarm.stage === 'reached') ? ' target-alarm-reached' : ''}`} role="alert">
+          {alarms.map((alarm) => {
+            const remaining = projections.find((projection) => projection.type === alarm.type)?.remaining ?? 0;
+            return (
+              <span key={alarm.type}>
+                {TARGET_LABELS[alarm.type]} {alarm.stage === 'reached' ? 'reached' : `in ${formatTime(remaining)}`}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {projections.length > 0 && (
+        <div className="target-projections">
+          <span className="target-countdown">
+            {recommendedDrop?.remaining == null
+              ? 'Drop: projecting…'
+              : recommendedDrop.remaining <= 0
+                ? 'Drop now'
+                : `Drop in ${formatTime(recommendedDrop.remaining)}`}
+          </span>
+          {projections.map((projection) => (
+            <span key={projection.type}>
+              {TARGET_LABELS[projection.type]}: {projection.time !== null ? formatTime(projection.time) : '--'}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {eventTargets.length > 0 && (
+        <div className="target-projections event-target-status">
+          {eventTargets.map((target) => {
+            const definition = getEventDefinition(target.type);
+            const deviation = getEventTargetDeviation(target, events);
+            const planned = [
+              target.time !== null ? formatTime(target.time) : null,
+              target.displayTemperature !== null ? `${target.displayTemperature.toFixed(1)}°${displayUnit}` : null
+            ].filter(Boolean).join(' @ ');
+            const recorded = deviation && [
+              deviation.time !== null ? `${deviation.time >= 0 ? '+' : '-'}${formatTime(Math.abs(deviation.time))}` : null,
+              deviation.temperature !== null
+                ? `${deviation.temperature >= 0 ? '+' : ''}${convertTemperatureDelta(deviation.temperature, unit, displayUnit).toFixed(1)}°${displayUnit}`
+                : null
+            ].filter(Boolean).join(', ');
+            return (
+              <span key={target.type} style={{ color: deviation ? definition.color : undefined }}>
+                {definition.shortLabel}: {planned}{recorded ? ` (${recorded})` : ''}
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {referenceDeltas && (
+        <div className="reference-deltas">
+          <span>
+            vs. Ref:{' '}
+            {referenceDeltas.temperatureDelta !== null
+              ? `${referenceDeltas.temperatureDelta >= 0 ? '+' : ''}${referenceDeltas.temperatureDelta.toFixed(1)}°${displayUnit}`
+              : '--'}
+          </span>
+          <span>
+            {referenceDeltas.firstCrackDelta !== null
+              ? `FC ${formatTime(Math.abs(referenceDeltas.firstCrackDelta))} ${referenceDeltas.firstCrackDelta > 0 ? 'behind' : referenceDeltas.firstCrackDelta < 0 ? 'ahead' : 'on time'}`
+              : referenceDeltas.timeToReferenceFirstCrack !== null
+                ? `Ref FC in ${formatTime(referenceDeltas.timeToReferenceFirstCrack)}`
+                : 'Ref FC: N/A'}
+          </span>
+        </div>
+      )}
+
       <div className="timer-wrapper">
         <h2 className="timer-display">Time: {formatTime(seconds)}</h2>
         <div className="temperature-display">
-          <div className="current-temp">Current: {currentTemp.toFixed(1)}°{unit}</div>
+          {recordsEnvTemp ? (
+            <div className="current-temp current-temp-channels">
+              <span style={{ color: getChannelDefinition('temperature').color }}>BT: {displayTemp.toFixed(1)}°{displayUnit}</span>
+              <span style={{ color: getChannelDefinition('environmentTemp').color }}>
+                ET: {displayEnvTemp !== null ? `${displayEnvTemp.toFixed(1)}°${displayUnit}` : '--'}
+              </span>
+            </div>
+          ) : (
+            <div className="current-temp">Current: {displayTemp.toFixed(1)}°{displayUnit}</div>
+          )}
+          <div className="current-ror">
+            RoR: {formatRoR(currentRoR)}°{displayUnit}/min
+            <select
+              value={rorWindow}
+              onChange={(e) => setRorWindow(Number(e.target.value))}
+              className="ror-window-select"
+              aria-label="RoR window"
+            >
+              {ROR_WINDOW_OPTIONS.map((option) => (
+                <option key={option} value={option}>{option}s</option>
+              ))}
+            </select>
+          </div>
         </div>
       </div>
 
-      <div className="controls-wrapper">
-        <div className="temp-controls-container">
-          <button onClick={handleIncreaseTemp} className="temp-control-button temp-increase">
-            + Increase
-          </button>
-          <button onClick={handleDecreaseTemp} className="temp-control-button temp-decrease">
-            - Decrease
+      <div className="event-controls">
+        {ROAST_EVENTS.filter((definition) =>
+          ['dryEnd', 'firstCrackEnd', 'secondCrackStart', 'secondCrackEnd'].includes(definition.type)
+        ).map((definition) => (
+          <button
+            key={definition.type}
+            onClick={() => recordEvent(definition.type)}
+            disabled={!canRecordEvent(definition.type)}
+            className="event-button"
+            style={{ color: definition.color, borderColor: definition.color }}
+          >
+            {definition.label}
           </button>
-        </div>
+        ))}
+        <button onClick={handleUndoEvent} disabled={!lastUndoableEvent} className="event-button">
+          {lastUndoableEvent ? `Undo ${getEventDefinition(lastUndoableEvent.type).shortLabel}` : 'Undo'}
+        </button>
+      </div>
+
+      <RoastConsole
+        unit={displayUnit}
+        channels={channels}
+        isManual={source.kind === 'manual'}
+        step={stepSize}
+        onStepChange={setStepSize}
+        onEnterTemperature={handleEnterTemperature}
+        onHotkey={handleHotkey}
+      />
+
+      <div className="controls-wrapper">
+        {source.kind === 'manual' ? (
+          recordsEnvTemp ? (
+            <div className="temp-controls-container temp-controls-dual">
+              {channels.map((channel) => (
+                <button
+                  key={`${channel}-increase`}
+                  onClick={() => handleIncreaseTemp(channel)}
+                  className="temp-control-button temp-increase"
+                  style={{ color: getChannelDefinition(channel).color, borderColor: getChannelDefinition(channel).color }}
+                >
+                  + {getChannelDefinition(channel).shortLabel}
+                </button>
+              ))}
+              {channels.map((channel) => (
+                <button
+                  key={`${channel}-decrease`}
+                  onClick={() => handleDecreaseTemp(channel)}
+                  className="temp-control-button temp-decrease"
+                  style={{ color: getChannelDefinition(channel).color, borderColor: getChannelDefinition(channel).color }}
+                >
+                  - {getChannelDefinition(channel).shortLabel}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="temp-controls-container">
+              <button onClick={() => handleIncreaseTemp('temperature')} className="temp-control-button temp-increase">
+                + Increase
+              </button>
+              <button onClick={() => handleDecreaseTemp('temperature')} className="temp-control-button temp-decrease">
+                - Decrease
+              </button>
+            </div>
+          )
+        ) : (
+          <div className="temp-controls-container source-panel">
+            <div>{SOURCE_LABELS[source.kind]} source</div>
+            {source.kind === 'websocket' && <div className="source-panel-detail">{source.url}</div>}
+          </div>
+        )}
         <button 
           onClick={() => {
             if (roastStage === 'ready') {
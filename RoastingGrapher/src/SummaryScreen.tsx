@@ -2,147 +2,604 @@
  * Summary Screen Component
  * 
  * Displays the final roasting session summary with:
- * - Complete temperature graph with first crack indicator
- * - Session statistics (times, temperatures, DTR)
- * - Export functionality (CSV/JSON)
+ * - Complete temperature graph (BT, and ET when recorded) with roast event markers and RoR curve
+ * - Session statistics (times, per-channel temperatures, DTR), recorded events and the recipe used
+ * - Drying/Maillard/development phase bar, with configurable fallback thresholds
+ * - Green and roasted batch weights with weight loss and yield
+ * - Cupping results (roast level, tasting notes, scores, rating), editable at any time
+ * - Edit mode for correcting recorded data and first crack, with an audit trail
+ * - Celsius/Fahrenheit display toggle
+ * - Export functionality (CSV/JSON/Artisan) in the displayed unit, including phases, weights and cupping
+ * - Printable roast report with PNG/SVG chart export
+ * - Share link that opens the roast read-only (roasts opened from a link have no editing)
+ * - Warnings about the roast (from importing it or deducting its batch from the inventory), if any
  */
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceDot } from 'recharts';
+import type { MouseHandlerDataParam } from 'recharts';
 import { calculateDTR } from './utils/dtrCalculations';
-import { exportToCSV, exportToJSON, formatTime } from './utils/exportUtils';
-
-interface TemperatureDataPoint {
-  time: number;
-  temperature: number;
-}
+import { exportToArtisan, exportToCSV, exportToJSON, getTemperatureStats } from './utils/exportUtils';
+import { formatTime } from './utils/format';
+import { DEFAULT_ROR_WINDOW, ROR_WINDOW_OPTIONS, withRoR } from './utils/rorCalculations';
+import { downsampleLTTB } from './utils/sampling';
+import { getEventDefinition } from './utils/roastEvents';
+import { getChannelDefinition, getRecordedChannels } from './utils/channels';
+import { convertRoastUnit, convertTemperature } from './utils/unitConversion';
+import { analyzePhases, loadPhaseThresholds, savePhaseThresholds } from './utils/phaseAnalysis';
+import type { PhaseThresholds } from './utils/phaseAnalysis';
+import { getDevelopmentLevel, getRoastWeights } from './utils/weightLoss';
+import { getEditsSinceRevert, isEditedRoast, retimeFirstCrack } from './utils/roastEditing';
+import { formatRecipeRef } from './utils/recipes';
+import { createShareLink, getShareLinkWarnings } from './utils/shareLink';
+import { AXIS_PROPS, GRID_STROKE, LEGEND_STYLE, ROR_AXIS_PROPS, ROR_COLOR, TOOLTIP_PROPS, formatMinutes, getMinuteTicks, getTemperatureDomain } from './utils/chartConfig';
+import UnitToggle from './UnitToggle';
+import CuppingPanel from './CuppingPanel';
+import ReportView from './ReportView';
+import RoastEditor from './RoastEditor';
+import type { SummaryData, TemperatureDataPoint, TemperatureUnit } from './types';
 
 interface SummaryScreenProps {
-  beanName: string;
-  chargeTemp: number;
-  unit: 'C' | 'F';
-  temperatureData: TemperatureDataPoint[];
-  totalTime: number;
-  firstCrackTime: number | null;
+  /** Completed roast to display */
+  roast: SummaryData;
   onBackToSetup: () => void;
+  /** Label for the back button (defaults to "Back to Setup") */
+  backLabel?: string;
+  /** Warnings about the roast (e.g., data that could not be imported or stock that could not be deducted) */
+  warnings?: string[];
+  /** Callback function called with the roast after the user edits it (e.g., its weights or data) */
+  onUpdate?: (roast: SummaryData) => void;
 }
 
-function SummaryScreen({ beanName, chargeTemp, unit, temperatureData, totalTime, firstCrackTime, onBackToSetup }: SummaryScreenProps) {
+/** Share of the roast time around the first crack marker where pressing starts a drag */
+const FIRST_CRACK_GRAB_RATIO = 0.02;
+
+function SummaryScreen({ roast, onBackToSetup, backLabel = 'Back to Setup', warnings = [], onUpdate }: SummaryScreenProps) {
+  const [rorWindow, setRorWindow] = useState(DEFAULT_ROR_WINDOW);
+  // Unit the roast is shown and exported in (the stored roast keeps its recorded unit)
+  const [displayUnit, setDisplayUnit] = useState<TemperatureUnit>(roast.unit);
+  const [phaseThresholds, setPhaseThresholds] = useState<PhaseThresholds>(loadPhaseThresholds);
+  // Batch weight inputs in grams
+  const [greenWeightInput, setGreenWeightInput] = useState(roast.greenWeight?.toString() ?? '');
+  const [roastedWeightInput, setRoastedWeightInput] = useState(roast.roastedWeight?.toString() ?? '');
+  const [showReport, setShowReport] = useState(false);
+  // Export one row per second (resampled) rather than the stored change-based readings
+  const [perSecondExport, setPerSecondExport] = useState(true);
+  // Roast with unsaved data edits, null when not in edit mode
+  const [draft, setDraft] = useState<SummaryData | null>(null);
+  // Point selected on the chart in edit mode
+  const [selectedTime, setSelectedTime] = useState<number | null>(null);
+  // First crack time while its marker is being dragged
+  const [dragTime, setDragTime] = useState<number | null>(null);
+  // Created share link, whether it was copied, and its size warnings
+  const [share, setShare] = useState<{ url: string; copied: boolean; warnings: string[] } | null>(null);
+  const [isSharing, setIsSharing] = useState(false);
+  // Add the cupping results, recipe reference and edit history to share links
+  const [shareNotes, setShareNotes] = useState(false);
+
   /**
-   * Formats seconds to minutes for X-axis display (minutes only)
+   * Roast shown on screen: the draft while editing, previewing a first crack drag
    */
-  const formatMinutes = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    return `${mins}m`;
-  };
+  const shownRoast = useMemo(() => {
+    if (!draft) return roast;
+    if (dragTime === null) return draft;
+    const result = retimeFirstCrack(draft, dragTime);
+    return 'roast' in result ? result.roast : draft;
+  }, [roast, draft, dragTime]);
+
+  const displayRoast = useMemo(() => convertRoastUnit(shownRoast, displayUnit), [shownRoast, displayUnit]);
+  const { beanName, chargeTemp, unit, temperatureData, totalTime, firstCrackTime, events } = displayRoast;
+
+  /**
+   * Chart data with Rate of Rise for the selected window, downsampled except in
+   * edit mode, where every recorded point must be selectable
+   */
+  const chartData = useMemo(() => {
+    const data = withRoR(temperatureData, rorWindow);
+    return draft ? data : downsampleLTTB(data);
+  }, [temperatureData, rorWindow, draft]);
+  const channels = useMemo(() => getRecordedChannels(temperatureData), [temperatureData]);
+  const hasEnvTemp = channels.includes('environmentTemp');
 
   /**
    * Calculate min, max, and final temperatures from data
    */
-  const minTemp = Math.min(...temperatureData.map(d => d.temperature));
-  const maxTemp = Math.max(...temperatureData.map(d => d.temperature));
-  const finalTemp = temperatureData[temperatureData.length - 1]?.temperature || chargeTemp;
+  const { minTemp, maxTemp, finalTemp, environmentTemp } = getTemperatureStats(displayRoast);
+  const axisMin = Math.min(minTemp, environmentTemp?.minTemp ?? minTemp);
+  const axisMax = Math.max(maxTemp, environmentTemp?.maxTemp ?? maxTemp);
 
   /**
    * Calculate DTR for display
    */
   const dtr = calculateDTR(firstCrackTime, totalTime);
 
+  /**
+   * Drying, Maillard and development phases
+   */
+  const { phases } = useMemo(
+    () => analyzePhases(temperatureData, events, totalTime, unit, phaseThresholds),
+    [temperatureData, events, totalTime, unit, phaseThresholds]
+  );
+
+  /**
+   * Update a phase threshold entered in the display unit (stored in Celsius)
+   */
+  const handleThresholdChange = (key: keyof PhaseThresholds, value: string) => {
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed)) return;
+    const next = { ...phaseThresholds, [key]: convertTemperature(parsed, displayUnit, 'C') };
+    setPhaseThresholds(next);
+    savePhaseThresholds(next);
+  };
+
+  /**
+   * Weight loss and yield, when both weights are recorded
+   */
+  const weights = getRoastWeights(roast);
+
+  /**
+   * Save the entered batch weights with the roast (empty clears a weight)
+   */
+  const handleSaveWeights = (e: React.FormEvent) => {
+    e.preventDefault();
+    const parseGrams = (value: string) => {
+      const parsed = parseFloat(value);
+      return !isNaN(parsed) && parsed > 0 ? parsed : null;
+    };
+    onUpdate?.({ ...roast, greenWeight: parseGrams(greenWeightInput), roastedWeight: parseGrams(roastedWeightInput) });
+  };
+
+  /**
+   * Time under the pointer in edit mode
+   */
+  const getPointerTime = (state: MouseHandlerDataParam): number | null => {
+    const time = Number(state.activeLabel);
+    return state.activeLabel !== undefined && Number.isFinite(time) ? time : null;
+  };
+
+  /**
+   * Start dragging the first crack marker when pressed near it, otherwise select
+   * the recorded point nearest the pointer
+   */
+  const handleChartMouseDown = (state: MouseHandlerDataParam) => {
+    const time = getPointerTime(state);
+    if (!draft || time === null) return;
+    const grabDistance = Math.max(5, totalTime * FIRST_CRACK_GRAB_RATIO);
+    if (draft.firstCrackTime !== null && Math.abs(time - draft.firstCrackTime) <= grabDistance) {
+      setDragTime(time);
+      return;
+    }
+    const nearest = draft.temperatureData.reduce<TemperatureDataPoint | null>(
+      (best, point) => (!best || Math.abs(point.time - time) < Math.abs(best.time - time) ? point : best),
+      null
+    );
+    if (nearest) setSelectedTime(nearest.time);
+  };
+
+  /**
+   * Move the dragged first crack marker
+   */
+  const handleChartMouseMove = (state: MouseHandlerDataParam) => {
+    const time = getPointerTime(state);
+    if (dragTime !== null && time !== null) setDragTime(time);
+  };
+
+  /**
+   * Drop the first crack marker, recording the retime as one edit
+   */
+  const handleChartMouseUp = () => {
+    if (!draft || dragTime === null) return;
+    const result = retimeFirstCrack(draft, dragTime);
+    if ('roast' in result) setDraft(result.roast);
+    setDragTime(null);
+  };
+
+  /**
+   * Store the edited data with the roast; weights and cupping saved meanwhile are kept
+   */
+  const handleSaveEdits = () => {
+    if (!draft) return;
+    const { temperatureData, firstCrackTime, events, edits, original } = draft;
+    onUpdate?.({ ...roast, temperatureData, firstCrackTime, events, edits, original });
+    setDraft(null);
+    setSelectedTime(null);
+  };
+
+  /**
+   * Leave edit mode without storing the draft
+   */
+  const handleCancelEdits = () => {
+    setDraft(null);
+    setSelectedTime(null);
+  };
+
+  const selectedPoint = draft && selectedTime !== null
+    ? temperatureData.find((point) => point.time === selectedTime)
+    : undefined;
+
+  /**
+   * Creates a share link for the roast and copies it to the clipboard
+   */
+  const handleShare = async () => {
+    setIsSharing(true);
+    try {
+      const link = await createShareLink(roast, { includeNotes: shareNotes });
+      let copied = false;
+      try {
+        await navigator.clipboard.writeText(link.url);
+        copied = true;
+      } catch (error) {
+        console.warn('[Share] Could not copy the link:', error);
+      }
+      setShare({ url: link.url, copied, warnings: getShareLinkWarnings(link) });
+    } catch (error) {
+      console.error('Failed to create share link:', error);
+      setShare({ url: '', copied: false, warnings: ['The share link could not be created in this browser.'] });
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
   /**
    * Handle CSV export
    */
   const handleExportCSV = () => {
-    exportToCSV(beanName, chargeTemp, finalTemp, unit, totalTime, firstCrackTime, dtr, temperatureData);
+    exportToCSV(roast, rorWindow, displayUnit, phaseThresholds, perSecondExport);
   };
 
   /**
    * Handle JSON export
    */
   const handleExportJSON = () => {
-    exportToJSON(beanName, chargeTemp, finalTemp, minTemp, maxTemp, unit, totalTime, firstCrackTime, dtr, temperatureData);
+    exportToJSON(roast, rorWindow, displayUnit, phaseThresholds, perSecondExport);
   };
 
+  /**
+   * Handle Artisan profile export
+   */
+  const handleExportArtisan = () => {
+    exportToArtisan(roast, displayUnit);
+  };
+
+  if (showReport) {
+    return (
+      <ReportView
+        roast={displayRoast}
+        rorWindow={rorWindow}
+        phaseThresholds={phaseThresholds}
+        onClose={() => setShowReport(false)}
+      />
+    );
+  }
+
   return (
     <div className="screen-container">
       <div className="screen-header">
         <h1>{beanName}</h1>
+        <UnitToggle unit={displayUnit} onChange={setDisplayUnit} />
       </div>
 
       <div className="graph-wrapper">
         <div className="graph-container">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={temperatureData}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#333333" />
+            <LineChart
+              data={chartData}
+              className={draft ? 'chart-editing' : undefined}
+              onMouseDown={draft ? handleChartMouseDown : undefined}
+              onMouseMove={draft ? handleChartMouseMove : undefined}
+              onMouseUp={draft ? handleChartMouseUp : undefined}
+              onMouseLeave={draft ? handleChartMouseUp : undefined}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke={GRID_STROKE} />
               <XAxis 
                 dataKey="time" 
-                stroke="#ffffff"
-                tick={{ fill: '#ffffff' }}
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                {...AXIS_PROPS}
                 tickFormatter={formatMinutes}
-                label={{ value: 'Time (minutes)', position: 'insideBottom', offset: -5, fill: '#ffffff' }}
+                label={{ value: 'Time (minutes)', position: 'insideBottom', offset: -5, fill: AXIS_PROPS.stroke }}
                 interval="preserveStartEnd"
                 allowDecimals={false}
-                ticks={temperatureData.length > 0 ? Array.from(
-                  { length: Math.floor(temperatureData[temperatureData.length - 1].time / 60) + 2 }, 
-                  (_, i) => i * 60
-                ).filter(tick => tick <= temperatureData[temperatureData.length - 1].time + 60) : [0]}
+                ticks={temperatureData.length > 0 ? getMinuteTicks(temperatureData[temperatureData.length - 1].time) : [0]}
               />
               <YAxis 
-                stroke="#ffffff"
-                tick={{ fill: '#ffffff' }}
-                label={{ value: `Temperature (°${unit})`, angle: -90, position: 'insideLeft', fill: '#ffffff' }}
-                domain={[Math.floor(minTemp - 5), Math.ceil(maxTemp + 5)]}
+                yAxisId="temp"
+                {...AXIS_PROPS}
+                label={{ value: `Temperature (°${unit})`, angle: -90, position: 'insideLeft', fill: AXIS_PROPS.stroke }}
+                domain={getTemperatureDomain(axisMin, axisMax)}
+              />
+              <YAxis 
+                yAxisId="ror"
+                orientation="right"
+                {...ROR_AXIS_PROPS}
+                label={{ value: `RoR (°${unit}/min)`, angle: 90, position: 'insideRight', fill: ROR_COLOR }}
+                domain={['auto', 'auto']}
+                allowDecimals={false}
               />
               <Tooltip 
-                contentStyle={{ backgroundColor: '#000000', border: '1px solid #ffffff', color: '#ffffff' }}
-                labelStyle={{ color: '#ffffff' }}
+                {...TOOLTIP_PROPS}
                 labelFormatter={(value) => `Time: ${formatMinutes(value as number)}`}
               />
-              <Legend wrapperStyle={{ color: '#ffffff' }} />
-              {firstCrackTime !== null && (
-                <ReferenceLine 
-                  x={firstCrackTime} 
-                  stroke="#ffaa00" 
+              <Legend wrapperStyle={LEGEND_STYLE} />
+              {events.map((event) => {
+                const definition = getEventDefinition(event.type);
+                return (
+                  <ReferenceLine 
+                    key={event.type}
+                    yAxisId="temp"
+                    x={event.time} 
+                    stroke={definition.color} 
+                    strokeWidth={2}
+                    strokeDasharray="5 5"
+                    label={{ value: definition.shortLabel, position: 'top', fill: definition.color, fontSize: 12 }}
+                  />
+                );
+              })}
+              {selectedPoint && (
+                <ReferenceDot
+                  yAxisId="temp"
+                  x={selectedPoint.time}
+                  y={selectedPoint.temperature}
+                  r={6}
+                  fill="none"
+                  stroke="#ffff00"
                   strokeWidth={2}
-                  strokeDasharray="5 5"
-                  label={{ value: 'First Crack', position: 'top', fill: '#ffaa00', fontSize: 12 }}
                 />
               )}
+              {channels.map((channel) => {
+                const definition = getChannelDefinition(channel);
+                return (
+                  <Line 
+                    key={channel}
+                    yAxisId="temp"
+                    type="monotone" 
+                    dataKey={channel} 
+                    stroke={definition.color} 
+                    strokeWidth={2}
+                    dot={channel === 'temperature' ? { fill: definition.color, r: 3 } : false}
+                    connectNulls
+                    name={hasEnvTemp ? `${definition.shortLabel} (°${unit})` : `Temperature (°${unit})`}
+                  />
+                );
+              })}
               <Line 
+                yAxisId="ror"
                 type="monotone" 
-                dataKey="temperature" 
-                stroke="#ffffff" 
-                strokeWidth={2}
-                dot={{ fill: '#ffffff', r: 3 }}
-                name={`Temperature (°${unit})`}
+                dataKey="ror" 
+                stroke={ROR_COLOR} 
+                strokeWidth={1.5}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+                name={`RoR (°${unit}/min)`}
               />
             </LineChart>
           </ResponsiveContainer>
         </div>
       </div>
 
+      {warnings.length > 0 && (
+        <div className="import-warnings" role="status">
+          <strong>Warnings:</strong>
+          <ul>
+            {warnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="screen-content">
         <h2>Roast Complete!</h2>
+        {draft && (
+          <RoastEditor
+            roast={draft}
+            displayUnit={displayUnit}
+            selectedTime={selectedTime}
+            onSelectTime={setSelectedTime}
+            onChange={setDraft}
+            onSave={handleSaveEdits}
+            onCancel={handleCancelEdits}
+          />
+        )}
         <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', margin: '10px 0' }}>
+          {roast.recipe && (
+            <p><strong>Recipe:</strong> {formatRecipeRef(roast.recipe)}</p>
+          )}
           <p><strong>Total Time:</strong> {formatTime(totalTime)}</p>
           {firstCrackTime !== null && (
             <p><strong>First Crack Time:</strong> {formatTime(firstCrackTime)}</p>
           )}
           <p><strong>Charge Temp:</strong> {chargeTemp.toFixed(1)}°{unit}</p>
-          <p><strong>Final Temp:</strong> {finalTemp.toFixed(1)}°{unit}</p>
+          <p><strong>Final Temp{hasEnvTemp ? ' (BT)' : ''}:</strong> {finalTemp.toFixed(1)}°{unit}</p>
+          {environmentTemp && (
+            <p>
+              <strong>ET:</strong> final {environmentTemp.finalTemp.toFixed(1)}°{unit} · min {environmentTemp.minTemp.toFixed(1)}°{unit} · max {environmentTemp.maxTemp.toFixed(1)}°{unit}
+            </p>
+          )}
           {firstCrackTime !== null && (
             <p><strong>DTR:</strong> {dtr.toFixed(1)}%</p>
           )}
+          {!draft && roast.edits && roast.edits.length > 0 && (
+            <details className="edit-history-summary">
+              <summary>
+                {isEditedRoast(roast)
+                  ? `Edited after roasting (${getEditsSinceRevert(roast).length} edits)`
+                  : 'Reverted to the data as recorded'}
+              </summary>
+              <ol className="edit-history">
+                {roast.edits.map((edit, index) => (
+                  <li key={index}>{edit.description}</li>
+                ))}
+              </ol>
+            </details>
+          )}
+          {weights && (
+            <>
+              <p>
+                <strong>Weight Loss:</strong> {weights.weightLoss.toFixed(1)}% · <strong>Yield:</strong> {weights.yield.toFixed(1)}%
+              </p>
+              <p>
+                <strong>Development:</strong> {getDevelopmentLevel(weights.weightLoss)}
+                {firstCrackTime !== null && ` (DTR ${dtr.toFixed(1)}%, ${weights.weightLoss.toFixed(1)}% loss)`}
+              </p>
+            </>
+          )}
+          {onUpdate && (
+            <form className="weight-form" onSubmit={handleSaveWeights}>
+              <label className="form-label-inline">
+                Green
+                <input
+                  type="number"
+                  value={greenWeightInput}
+                  onChange={(e) => setGreenWeightInput(e.target.value)}
+                  placeholder="g"
+                  min="0"
+                  step="0.1"
+                />
+              </label>
+              <label className="form-label-inline">
+                Roasted
+                <input
+                  type="number"
+                  value={roastedWeightInput}
+                  onChange={(e) => setRoastedWeightInput(e.target.value)}
+                  placeholder="g"
+                  min="0"
+                  step="0.1"
+                />
+              </label>
+              <button type="submit">Save Weights</button>
+            </form>
+          )}
+          <CuppingPanel
+            cupping={roast.cupping ?? null}
+            onSave={onUpdate ? (cupping) => onUpdate({ ...roast, cupping }) : undefined}
+          />
+          {events.length > 0 && (
+            <p>
+              <strong>Events:</strong>{' '}
+              {events.map((event) => `${getEventDefinition(event.type).shortLabel} ${formatTime(event.time)}`).join(' · ')}
+            </p>
+          )}
+          {phases.length > 0 && (
+            <div className="phase-summary">
+              <div className="phase-bar">
+                {phases.map((phase) => (
+                  <div
+                    key={phase.type}
+                    className="phase-bar-segment"
+                    style={{ width: `${phase.percentage}%`, backgroundColor: phase.color }}
+                    title={`${phase.label}: ${formatTime(phase.duration)} (${phase.percentage.toFixed(1)}%)`}
+                  />
+                ))}
+              </div>
+              <div className="phase-legend">
+                {phases.map((phase) => (
+                  <span key={phase.type} className="phase-legend-item">
+                    <span className="phase-swatch" style={{ backgroundColor: phase.color }} />
+                    {phase.label} {formatTime(phase.duration)} ({phase.percentage.toFixed(1)}%)
+                    {phase.startSource === 'threshold' && ' *'}
+                  </span>
+                ))}
+              </div>
+              {phases.some((phase) => phase.startSource === 'threshold') && (
+                <p className="phase-note">* Start estimated from the bean temperature threshold</p>
+              )}
+            </div>
+          )}
+          <div className="phase-thresholds">
+            <label className="form-label-inline">
+              Yellowing at:
+              <input
+                type="number"
+                step="1"
+                key={`yellowing-${displayUnit}`}
+                defaultValue={convertTemperature(phaseThresholds.yellowing, 'C', displayUnit).toFixed(0)}
+                onChange={(e) => handleThresholdChange('yellowing', e.target.value)}
+              />
+              °{displayUnit}
+            </label>
+            <label className="form-label-inline">
+              First crack at:
+              <input
+                type="number"
+                step="1"
+                key={`firstCrack-${displayUnit}`}
+                defaultValue={convertTemperature(phaseThresholds.firstCrack, 'C', displayUnit).toFixed(0)}
+                onChange={(e) => handleThresholdChange('firstCrack', e.target.value)}
+              />
+              °{displayUnit}
+            </label>
+          </div>
+          <label className="form-label-inline">
+            RoR window:
+            <select value={rorWindow} onChange={(e) => setRorWindow(Number(e.target.value))} style={{ width: 'auto' }}>
+              {ROR_WINDOW_OPTIONS.map((option) => (
+                <option key={option} value={option}>{option}s</option>
+              ))}
+            </select>
+          </label>
         </div>
       </div>
 
       <div className="center-elements">
         <div style={{ display: 'flex', flexDirection: 'column', gap: '10px', width: '100%', maxWidth: '600px', margin: '0 auto' }}>
+          <label className="form-label-inline" style={{ justifyContent: 'center' }}>
+            <input
+              type="checkbox"
+              checked={perSecondExport}
+              onChange={(e) => setPerSecondExport(e.target.checked)}
+            />
+            <span>One row per second in CSV/JSON (off: recorded changes only)</span>
+          </label>
           <button onClick={handleExportCSV} style={{ width: '100%' }}>
-            Export CSV
+            Export CSV (°{displayUnit})
           </button>
           <button onClick={handleExportJSON} style={{ width: '100%' }}>
-            Export JSON
+            Export JSON (°{displayUnit})
+          </button>
+          <button onClick={handleExportArtisan} style={{ width: '100%' }}>
+            Export Artisan (.alog, °{displayUnit})
+          </button>
+          {onUpdate && !draft && (
+            <button onClick={() => setDraft(roast)} style={{ width: '100%' }}>
+              Edit Roast Data
+            </button>
+          )}
+          <button onClick={() => setShowReport(true)} style={{ width: '100%' }}>
+            Roast Report (°{displayUnit})
           </button>
+          {(roast.cupping || roast.recipe || (roast.edits?.length ?? 0) > 0) && (
+            <label className="form-label-inline" style={{ justifyContent: 'center' }}>
+              <input
+                type="checkbox"
+                checked={shareNotes}
+                onChange={(e) => {
+                  setShareNotes(e.target.checked);
+                  setShare(null);
+                }}
+              />
+              <span>Include cupping notes, recipe and edit history in the share link</span>
+            </label>
+          )}
+          <button onClick={handleShare} disabled={isSharing || draft !== null} style={{ width: '100%' }}>
+            Share Link
+          </button>
+          {share && (
+            <div className="share-link" role="status">
+              {share.url && (
+                <>
+                  <p>{share.copied ? 'Link copied to the clipboard.' : 'Copy the link below.'} Anyone with the link can view this roast.</p>
+                  <input type="text" value={share.url} readOnly aria-label="Share link" onFocus={(e) => e.target.select()} />
+                </>
+              )}
+              {share.warnings.map((warning) => (
+                <p key={warning} className="share-link-warning">{warning}</p>
+              ))}
+            </div>
+          )}
           <button onClick={onBackToSetup} style={{ width: '100%' }}>
-            Back to Setup
+            {backLabel}
           </button>
         </div>
       </div>
@@ -0,0 +1,75 @@
+/**
+ * Unfinished Sessions Component
+ *
+ * Lists roasts that were still in progress when the app was closed, reloaded
+ * or crashed, and lets the user resume them, save them as completed roasts,
+ * or discard them.
+ */
+import { useState } from 'react';
+import { formatTime } from './utils/format';
+import { isStaleSession, listSavedSessions, removeSavedSession } from './utils/sessionRecovery';
+import type { SavedSession } from './utils/sessionRecovery';
+
+interface UnfinishedSessionsProps {
+  /** Callback function called to continue a session on the roasting screen */
+  onResume: (saved: SavedSession) => void;
+  /** Callback function called to end a session and save it as a completed roast */
+  onConvert: (saved: SavedSession) => void;
+}
+
+function UnfinishedSessions({ onResume, onConvert }: UnfinishedSessionsProps) {
+  // Sessions are read once when the setup screen opens
+  const [now] = useState(() => Date.now());
+  const [sessions, setSessions] = useState<SavedSession[]>(() => listSavedSessions());
+
+  /**
+   * Discards a session after confirmation
+   */
+  const handleDiscard = (saved: SavedSession) => {
+    if (!window.confirm(`Discard the unfinished roast of "${saved.session.beanName}"? Its data will be lost.`)) {
+      return;
+    }
+    removeSavedSession(saved.session.sessionId);
+    setSessions((prev) => prev.filter((session) => session.session.sessionId !== saved.session.sessionId));
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="unfinished-sessions">
+      <h2>Unfinished Roasts</h2>
+      <ul className="unfinished-session-list">
+        {sessions.map((saved) => {
+          const { sessionId, beanName, unit } = saved.session;
+          const lastPoint = saved.temperatureData[saved.temperatureData.length - 1];
+          const stale = isStaleSession(saved, now);
+          return (
+            <li key={sessionId} className="unfinished-session">
+              <div className="unfinished-session-info">
+                <strong>{beanName}</strong>
+                <span className="unfinished-session-details">
+                  {formatTime(saved.seconds)} elapsed · {(lastPoint?.temperature ?? saved.currentTemp).toFixed(1)}°{unit}
+                  {saved.savedAt > 0 && ` · last saved ${new Date(saved.savedAt).toLocaleString()}`}
+                  {stale && ' · stale'}
+                </span>
+              </div>
+              <div className="unfinished-session-actions">
+                <button
+                  onClick={() => onResume(saved)}
+                  disabled={stale}
+                  title={stale ? 'Too much time has passed to continue this roast' : undefined}
+                >
+                  Resume
+                </button>
+                <button onClick={() => onConvert(saved)}>Save as Roast</button>
+                <button onClick={() => handleDiscard(saved)}>Discard</button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+export default UnfinishedSessions;
@@ -0,0 +1,36 @@
+/**
+ * Unit Toggle Component
+ *
+ * Switches the unit temperatures are displayed (and exported) in between
+ * Celsius and Fahrenheit. The roast itself stays stored in its recorded unit.
+ */
+import type { TemperatureUnit } from './types';
+
+interface UnitToggleProps {
+  /** Currently displayed unit */
+  unit: TemperatureUnit;
+  /** Callback function called when the user picks a unit */
+  onChange: (unit: TemperatureUnit) => void;
+}
+
+const UNITS: TemperatureUnit[] = ['C', 'F'];
+
+function UnitToggle({ unit, onChange }: UnitToggleProps) {
+  return (
+    <div className="unit-toggle" role="group" aria-label="Temperature unit">
+      {UNITS.map((option) => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onChange(option)}
+          className={option === unit ? 'unit-toggle-button unit-toggle-active' : 'unit-toggle-button'}
+          aria-pressed={option === unit}
+        >
+          °{option}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default UnitToggle;
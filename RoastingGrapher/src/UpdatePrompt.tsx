@@ -0,0 +1,26 @@
+/**
+ * Update Prompt Component
+ *
+ * Banner offering to reload into a new version of the app once it has been
+ * downloaded for offline use. The app keeps running the current version until
+ * the user reloads; App hides the banner during a roast.
+ */
+import { useState, useSyncExternalStore } from 'react';
+import { applyUpdate, isUpdateAvailable, subscribeToUpdates } from './utils/serviceWorker';
+
+function UpdatePrompt() {
+  const updateAvailable = useSyncExternalStore(subscribeToUpdates, isUpdateAvailable);
+  const [dismissed, setDismissed] = useState(false);
+
+  if (!updateAvailable || dismissed) return null;
+
+  return (
+    <div className="update-prompt no-print" role="status">
+      <span>Update available</span>
+      <button onClick={applyUpdate}>Reload</button>
+      <button onClick={() => setDismissed(true)} aria-label="Dismiss update notice">Later</button>
+    </div>
+  );
+}
+
+export default UpdatePrompt;
@@ -0,0 +1,68 @@
+/**
+ * Weight Loss Chart Component
+ *
+ * Scatter chart of weight loss against DTR for roasts with both recorded,
+ * showing how development targets relate to moisture loss.
+ */
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import type { SummaryData } from './types';
+import { getRoastDTR } from './utils/roastHistory';
+import { getRoastWeights } from './utils/weightLoss';
+import { AXIS_PROPS, GRID_STROKE, TOOLTIP_PROPS } from './utils/chartConfig';
+
+interface WeightLossChartProps {
+  /** Roasts to plot (roasts without first crack or weights are skipped) */
+  roasts: SummaryData[];
+}
+
+function WeightLossChart({ roasts }: WeightLossChartProps) {
+  const points = roasts.flatMap((roast) => {
+    const weights = getRoastWeights(roast);
+    if (!weights || roast.firstCrackTime === null) return [];
+    return [{
+      dtr: Math.round(getRoastDTR(roast) * 10) / 10,
+      weightLoss: Math.round(weights.weightLoss * 10) / 10,
+      name: `${roast.beanName} (${new Date(roast.roastedAt).toLocaleDateString()})`
+    }];
+  });
+
+  if (points.length === 0) {
+    return <p className="weight-loss-chart-empty">No roasts with first crack and both batch weights yet.</p>;
+  }
+
+  return (
+    <div className="weight-loss-chart">
+      <ResponsiveContainer width="100%" height="100%">
+        <ScatterChart margin={{ bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={GRID_STROKE} />
+          <XAxis
+            type="number"
+            dataKey="dtr"
+            name="DTR"
+            unit="%"
+            {...AXIS_PROPS}
+            domain={['auto', 'auto']}
+            label={{ value: 'DTR (%)', position: 'insideBottom', offset: -5, fill: AXIS_PROPS.stroke }}
+          />
+          <YAxis
+            type="number"
+            dataKey="weightLoss"
+            name="Weight loss"
+            unit="%"
+            {...AXIS_PROPS}
+            domain={['auto', 'auto']}
+            label={{ value: 'Weight loss (%)', angle: -90, position: 'insideLeft', fill: AXIS_PROPS.stroke }}
+          />
+          <Tooltip
+            {...TOOLTIP_PROPS}
+            cursor={{ strokeDasharray: '3 3' }}
+            labelFormatter={(_, payload) => payload?.[0]?.payload?.name ?? ''}
+          />
+          <Scatter data={points} fill="#daa06d" isAnimationActive={false} />
+        </ScatterChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export default WeightLossChart;
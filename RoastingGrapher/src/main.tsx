@@ -2,7 +2,7 @@
  * Application Entry Point
  * 
  * Initializes React application with StrictMode and ErrorBoundary.
- * Clears caches on version updates to ensure users see the latest code.
+ * Registers the service worker that keeps the app available offline.
  */
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
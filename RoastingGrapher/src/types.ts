@@ -0,0 +1,290 @@
+/**
+ * Shared Data Types
+ *
+ * Data structures shared between screens, storage and export utilities.
+ */
+
+/**
+ * Temperature unit
+ */
+export type TemperatureUnit = 'C' | 'F';
+
+/**
+ * Data point structure for temperature logging
+ */
+export interface TemperatureDataPoint {
+  /** Time in seconds since timer started */
+  time: number;
+  /** Temperature reading at this time point (bean temperature, BT) */
+  temperature: number;
+  /** Environment/exhaust temperature reading (ET), when recorded */
+  environmentTemp?: number;
+}
+
+/**
+ * Named temperature channel: the data point field holding its readings
+ */
+export type ChannelKey = 'temperature' | 'environmentTemp';
+
+/**
+ * Standard roast event types
+ */
+export type RoastEventType =
+  | 'charge'
+  | 'turningPoint'
+  | 'dryEnd'
+  | 'firstCrackStart'
+  | 'firstCrackEnd'
+  | 'secondCrackStart'
+  | 'secondCrackEnd'
+  | 'drop';
+
+/**
+ * Timestamped roast event
+ */
+export interface RoastEvent {
+  type: RoastEventType;
+  /** Time in seconds since charge */
+  time: number;
+  /** Temperature when the event was recorded */
+  temperature: number;
+}
+
+/**
+ * Summary data structure for a completed roast, with first crack time for DTR calculation
+ */
+export interface SummaryData {
+  /** Unique roast identifier */
+  id: string;
+  /** ISO timestamp of when the roast was completed */
+  roastedAt: string;
+  beanName: string;
+  chargeTemp: number;
+  unit: TemperatureUnit;
+  /** Readings stored when they change, plus keyframes while they hold steady (older roasts have one per second) */
+  temperatureData: TemperatureDataPoint[];
+  totalTime: number;
+  /** First crack start time, kept alongside the events for DTR calculation */
+  firstCrackTime: number | null;
+  /** Recorded roast events ordered by time */
+  events: RoastEvent[];
+  /** Green coffee lot the beans came from (absent for free-text beans) */
+  lotId?: string | null;
+  /** Green (unroasted) batch weight in grams */
+  greenWeight?: number | null;
+  /** Roasted batch weight in grams, weighed after the drop */
+  roastedWeight?: number | null;
+  /** Cupping results added after the roast has rested */
+  cupping?: CuppingResult | null;
+  /** Audit trail of post-roast corrections, oldest first (absent or empty when never edited) */
+  edits?: RoastEdit[];
+  /** Data as recorded, kept from the first edit so the roast can be reverted */
+  original?: RecordedRoastData | null;
+  /** Recipe revision the roast was started from (absent or null when none) */
+  recipe?: RecipeRef | null;
+}
+
+/**
+ * Kind of post-roast correction
+ */
+export type RoastEditType =
+  | 'retimeFirstCrack'
+  | 'editPoint'
+  | 'insertPoint'
+  | 'deletePoint'
+  | 'interpolate'
+  | 'revert';
+
+/**
+ * Audit trail entry for a post-roast correction
+ */
+export interface RoastEdit {
+  type: RoastEditType;
+  /** ISO timestamp of when the edit was made */
+  editedAt: string;
+  /** Human-readable description (e.g., "Retimed first crack from 09:40 to 09:30") */
+  description: string;
+}
+
+/**
+ * Roast data that post-roast editing can change
+ */
+export interface RecordedRoastData {
+  temperatureData: TemperatureDataPoint[];
+  firstCrackTime: number | null;
+  events: RoastEvent[];
+}
+
+/**
+ * SCA cupping form attribute
+ */
+export type CuppingAttribute =
+  | 'fragrance'
+  | 'flavor'
+  | 'aftertaste'
+  | 'acidity'
+  | 'body'
+  | 'balance'
+  | 'uniformity'
+  | 'cleanCup'
+  | 'sweetness'
+  | 'overall';
+
+/**
+ * SCA-style cupping form: attribute scores (0-10) and defect points
+ */
+export interface CuppingScores {
+  attributes: Record<CuppingAttribute, number>;
+  /** Points subtracted for taints and faults */
+  defects: number;
+}
+
+/**
+ * Results of cupping a roast
+ */
+export interface CuppingResult {
+  /** Agtron (or other colour meter) roast-level reading */
+  agtron: number | null;
+  /** Free-text roast colour, e.g. "City+" */
+  roastColor: string;
+  /** Free-text tasting notes */
+  notes: string;
+  /** Cupping form scores (null when not scored) */
+  scores: CuppingScores | null;
+  /** Overall rating from 1 to 5 */
+  rating: number | null;
+  /** ISO timestamp of when the results were last edited */
+  updatedAt: string;
+}
+
+/**
+ * Green coffee lot in the inventory
+ */
+export interface GreenCoffeeLot {
+  /** Unique lot identifier */
+  id: string;
+  /** Name used as the bean name of roasts from this lot */
+  name: string;
+  origin: string;
+  process: string;
+  variety: string;
+  /** Moisture content in percent */
+  moisture: number | null;
+  /** Density in grams per litre */
+  density: number | null;
+  /** Purchase price per kilogram */
+  purchasePrice: number | null;
+  /** Remaining green weight in grams */
+  remainingWeight: number;
+  /** Remaining weight (grams) below which the lot is low on stock */
+  lowStockWeight: number;
+  /** ISO timestamp of when the lot was added */
+  createdAt: string;
+}
+
+/**
+ * Temperature source selected for a session
+ */
+export type TemperatureSourceConfig =
+  | { kind: 'manual' }
+  | { kind: 'simulated' }
+  | { kind: 'websocket'; url: string };
+
+/**
+ * Targets set before a roast; unset targets are null
+ */
+export interface RoastTargets {
+  /** Development time ratio (%) */
+  dtr: number | null;
+  /** Drop temperature in the session unit */
+  dropTemp: number | null;
+  /** Total roast time in seconds */
+  totalTime: number | null;
+  /** Seconds before a projected target its alarm fires */
+  alarmLeadTime: number;
+  /** Planned roast events (absent in targets set before event targets existed) */
+  events?: RoastEventTarget[];
+}
+
+/**
+ * Planned time and temperature of a roast event; unset values are null
+ */
+export interface RoastEventTarget {
+  type: RoastEventType;
+  /** Planned time in seconds since charge */
+  time: number | null;
+  /** Planned bean temperature in the session unit */
+  temperature: number | null;
+}
+
+/**
+ * Roast setup saved by a recipe revision
+ */
+export interface RecipePlan {
+  beanName: string;
+  /** Inventory lot the beans come from (null for a free-text bean name) */
+  lotId: string | null;
+  chargeTemp: number;
+  unit: TemperatureUnit;
+  /** Targets in the recipe unit (null when none are planned) */
+  targets: RoastTargets | null;
+  /** Reference roast drawn as a ghost curve (null for none) */
+  referenceRoast: SummaryData | null;
+}
+
+/**
+ * Earlier revision of a recipe
+ */
+export interface RecipeRevision extends RecipePlan {
+  revision: number;
+  /** ISO timestamp of when the revision was saved */
+  savedAt: string;
+}
+
+/**
+ * Named, versioned roast recipe; saving changes creates a new revision and
+ * keeps the previous ones
+ */
+export interface RoastRecipe extends RecipeRevision {
+  /** Unique recipe identifier */
+  id: string;
+  name: string;
+  /** Earlier revisions, oldest first */
+  revisions: RecipeRevision[];
+}
+
+/**
+ * Recipe revision a session or roast was started from
+ */
+export interface RecipeRef {
+  id: string;
+  name: string;
+  revision: number;
+  /** Whether the setup was changed from the revision before starting (absent when unchanged) */
+  modified?: boolean;
+}
+
+/**
+ * Session data structure for an active roast
+ */
+export interface SessionData {
+  /** Stable identifier used to persist and recover the session */
+  sessionId: string;
+  beanName: string;
+  chargeTemp: number;
+  unit: TemperatureUnit;
+  /** Previous roast drawn as a ghost curve, converted to the session unit */
+  referenceRoast: SummaryData | null;
+  /** Where temperature readings come from */
+  source: TemperatureSourceConfig;
+  /** Recorded probe channels (bean temperature is always included) */
+  channels: ChannelKey[];
+  /** Roast targets with alarms (null when none were set) */
+  targets: RoastTargets | null;
+  /** Inventory lot the batch is taken from (null for a free-text bean name) */
+  lotId: string | null;
+  /** Green batch weight in grams, deducted from the lot when the roast completes */
+  greenWeight: number | null;
+  /** Recipe revision the session was started from (null when none) */
+  recipe: RecipeRef | null;
+}
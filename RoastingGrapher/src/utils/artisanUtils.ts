@@ -0,0 +1,462 @@
+/**
+ * Artisan Profile Utilities
+ *
+ * Converts between completed roasts and Artisan roast profiles. Artisan stores
+ * profiles (.alog) as a Python dictionary literal; its JSON export uses the
+ * same keys. Fields this app does not model are reported as import warnings.
+ */
+
+import type { RoastEvent, RoastEventType, SummaryData, TemperatureDataPoint, TemperatureUnit } from '../types';
+import type { ImportIssue, ImportResult } from './importUtils';
+import { getEventTime, sortEvents, withTurningPoint } from './roastEvents';
+import { createRoastId } from './roastHistory';
+
+/**
+ * Positions of the roast events in Artisan's `timeindex` array
+ */
+const TIMEINDEX = {
+  CHARGE: 0,
+  DRY: 1,
+  FCs: 2,
+  FCe: 3,
+  SCs: 4,
+  SCe: 5,
+  DROP: 6,
+  COOL: 7
+} as const;
+
+/**
+ * Artisan `timeindex` slots for the roast events this app records
+ * (the turning point is computed by Artisan, not stored)
+ */
+const EVENT_TIMEINDEX: { type: RoastEventType; index: number; name: string }[] = [
+  { type: 'dryEnd', index: TIMEINDEX.DRY, name: 'DRY' },
+  { type: 'firstCrackStart', index: TIMEINDEX.FCs, name: 'FCs' },
+  { type: 'firstCrackEnd', index: TIMEINDEX.FCe, name: 'FCe' },
+  { type: 'secondCrackStart', index: TIMEINDEX.SCs, name: 'SCs' },
+  { type: 'secondCrackEnd', index: TIMEINDEX.SCe, name: 'SCe' }
+];
+
+/**
+ * Artisan profile fields this app does not import, with a description for warnings
+ */
+const UNSUPPORTED_FIELDS: { key: string; description: string }[] = [
+  { key: 'specialevents', description: 'special events (burner, fan, drum, damper)' },
+  { key: 'extradevices', description: 'extra devices' },
+  { key: 'weight', description: 'batch weights' },
+  { key: 'volume', description: 'batch volumes' },
+  { key: 'density', description: 'bean density' },
+  { key: 'moisture_greens', description: 'green bean moisture' },
+  { key: 'roastingnotes', description: 'roasting notes' },
+  { key: 'cuppingnotes', description: 'cupping notes' },
+  { key: 'flavors', description: 'cupping flavor scores' },
+  { key: 'ground_color', description: 'ground color reading' },
+  { key: 'whole_color', description: 'whole bean color reading' },
+  { key: 'background', description: 'background profile' }
+];
+
+/**
+ * Find the index of the first data point at or after the given time
+ */
+const indexAtTime = (data: TemperatureDataPoint[], time: number): number => {
+  const index = data.findIndex(point => point.time >= time);
+  return index === -1 ? data.length - 1 : index;
+};
+
+/**
+ * Build an Artisan profile object from a completed roast
+ *
+ * Bean temperature is written as BT (`temp2`) and environment temperature as
+ * ET (`temp1`), using Artisan's "no reading" value of -1 where ET was not
+ * recorded. CHARGE is the first point, the recorded
+ * events fill the DRY/FCs/FCe/SCs/SCe slots and DROP is the end of the roast.
+ *
+ * @param roast - Completed roast
+ * @returns Artisan profile as a plain object
+ */
+export const createArtisanProfile = (roast: SummaryData): Record<string, unknown> => {
+  const data = roast.temperatureData.filter(point => point.time <= roast.totalTime);
+  const timex = data.map(point => point.time);
+  const temp2 = data.map(point => Number(point.temperature.toFixed(1)));
+  const temp1 = data.map(point => point.environmentTemp !== undefined ? Number(point.environmentTemp.toFixed(1)) : -1);
+  const dropIndex = data.length > 0 ? indexAtTime(data, roast.totalTime) : 0;
+  const firstCrackIndex = roast.firstCrackTime !== null ? indexAtTime(data, roast.firstCrackTime) : 0;
+
+  const timeindex = [0, 0, 0, 0, 0, 0, 0, 0];
+  EVENT_TIMEINDEX.forEach(({ type, index }) => {
+    const time = getEventTime(roast.events, type);
+    if (time !== null && data.length > 0) timeindex[index] = indexAtTime(data, time);
+  });
+  timeindex[TIMEINDEX.FCs] = firstCrackIndex;
+  timeindex[TIMEINDEX.DROP] = dropIndex;
+
+  const roastedAt = new Date(roast.roastedAt);
+  const computed: Record<string, number> = {
+    CHARGE_BT: roast.chargeTemp,
+    DROP_time: roast.totalTime,
+    DROP_BT: temp2[dropIndex] ?? roast.chargeTemp,
+    totaltime: roast.totalTime
+  };
+  if (temp1[dropIndex] !== undefined && temp1[dropIndex] !== -1) {
+    computed.DROP_ET = temp1[dropIndex];
+  }
+  if (roast.firstCrackTime !== null) {
+    computed.FCs_time = roast.firstCrackTime;
+    computed.FCs_BT = temp2[firstCrackIndex] ?? roast.chargeTemp;
+  }
+
+  return {
+    version: '2.10.0',
+    mode: roast.unit,
+    title: roast.beanName,
+    beans: roast.beanName,
+    roastUUID: roast.id.replace(/-/g, ''),
+    roastdate: roastedAt.toDateString(),
+    roastisodate: roastedAt.toISOString().slice(0, 10),
+    roasttime: roastedAt.toTimeString().slice(0, 8),
+    roastepoch: Math.floor(roastedAt.getTime() / 1000),
+    timex,
+    temp1,
+    temp2,
+    timeindex,
+    extratimex: [],
+    extratemp1: [],
+    extratemp2: [],
+    specialevents: [],
+    specialeventstype: [],
+    specialeventsvalue: [],
+    specialeventsStrings: [],
+    computed
+  };
+};
+
+/**
+ * Serialize a value as a Python literal, as read by Artisan's `ast.literal_eval`
+ *
+ * @param value - JSON-compatible value
+ * @returns Python literal source
+ */
+export const toPythonLiteral = (value: unknown): string => {
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'None';
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`;
+  }
+  if (Array.isArray(value)) return `[${value.map(toPythonLiteral).join(', ')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .map(([key, entry]) => `${toPythonLiteral(key)}: ${toPythonLiteral(entry)}`);
+  return `{${entries.join(', ')}}`;
+};
+
+/**
+ * Build Artisan .alog file content for a roast
+ *
+ * @param roast - Completed roast
+ * @returns .alog file content
+ */
+export const createArtisanContent = (roast: SummaryData): string => {
+  return toPythonLiteral(createArtisanProfile(roast)) + '\n';
+};
+
+/**
+ * Parse a Python literal (dict, list, tuple, str, number, bool, None)
+ *
+ * @param text - Python literal source
+ * @returns Equivalent JavaScript value
+ * @throws Error with the line of the offending character
+ */
+export const parsePythonLiteral = (text: string): unknown => {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = text.slice(0, pos).split('\n').length;
+    throw new Error(`line ${line}: ${message}`);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseString = (): string => {
+    const quote = text[pos];
+    pos++;
+    let result = '';
+    while (pos < text.length && text[pos] !== quote) {
+      if (text[pos] === '\\') {
+        const next = text[pos + 1];
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', '\\': '\\', "'": "'", '"': '"' };
+        if (next === 'u' || next === 'x') {
+          const length = next === 'u' ? 4 : 2;
+          result += String.fromCharCode(parseInt(text.slice(pos + 2, pos + 2 + length), 16));
+          pos += 2 + length;
+          continue;
+        }
+        result += escapes[next] ?? next;
+        pos += 2;
+        continue;
+      }
+      result += text[pos];
+      pos++;
+    }
+    if (pos >= text.length) fail('unterminated string');
+    pos++;
+    return result;
+  };
+
+  const parseSequence = (close: string): unknown[] => {
+    pos++;
+    const items: unknown[] = [];
+    skipWhitespace();
+    while (text[pos] !== close) {
+      items.push(parseValue());
+      skipWhitespace();
+      if (text[pos] === ',') {
+        pos++;
+        skipWhitespace();
+      } else if (text[pos] !== close) {
+        fail(`expected "," or "${close}"`);
+      }
+    }
+    pos++;
+    return items;
+  };
+
+  const parseDict = (): Record<string, unknown> => {
+    pos++;
+    const result: Record<string, unknown> = {};
+    skipWhitespace();
+    while (text[pos] !== '}') {
+      const key = parseValue();
+      skipWhitespace();
+      if (text[pos] !== ':') fail('expected ":"');
+      pos++;
+      result[String(key)] = parseValue();
+      skipWhitespace();
+      if (text[pos] === ',') {
+        pos++;
+        skipWhitespace();
+      } else if (text[pos] !== '}') {
+        fail('expected "," or "}"');
+      }
+    }
+    pos++;
+    return result;
+  };
+
+  const parseValue = (): unknown => {
+    skipWhitespace();
+    const char = text[pos];
+    if (char === undefined) return fail('unexpected end of input');
+    if (char === '{') return parseDict();
+    if (char === '[') return parseSequence(']');
+    if (char === '(') return parseSequence(')');
+    if (char === "'" || char === '"') return parseString();
+    if ((char === 'u' || char === 'b') && (text[pos + 1] === "'" || text[pos + 1] === '"')) {
+      pos++;
+      return parseString();
+    }
+    const word = text.slice(pos).match(/^(True|False|None|-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/);
+    if (!word) return fail(`unexpected character "${char}"`);
+    pos += word[0].length;
+    if (word[0] === 'True') return true;
+    if (word[0] === 'False') return false;
+    if (word[0] === 'None') return null;
+    return Number(word[0]);
+  };
+
+  const value = parseValue();
+  skipWhitespace();
+  if (pos < text.length) fail('unexpected content after profile');
+  return value;
+};
+
+/**
+ * Check whether parsed file content looks like an Artisan profile
+ */
+export const isArtisanProfile = (data: unknown): data is Record<string, unknown> => {
+  return typeof data === 'object' && data !== null && 'timex' in data && 'temp2' in data;
+};
+
+/**
+ * Check whether an Artisan field holds any meaningful value
+ */
+const hasContent = (value: unknown): boolean => {
+  if (value === null || value === undefined || value === '' || value === 0) return false;
+  if (Array.isArray(value)) return value.some(hasContent);
+  if (typeof value === 'object') return Object.values(value as Record<string, unknown>).some(hasContent);
+  return true;
+};
+
+/**
+ * Convert a parsed Artisan profile into a roast
+ *
+ * @param profile - Parsed Artisan profile
+ * @returns Parsed roast with any errors and warnings
+ */
+export const parseArtisanData = (profile: Record<string, unknown>): ImportResult => {
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+
+  // Unit
+  let unit: TemperatureUnit = 'C';
+  if (profile.mode === 'C' || profile.mode === 'F') {
+    unit = profile.mode;
+  } else {
+    warnings.push({ message: 'Profile has no temperature mode ("mode"); assuming °C' });
+  }
+
+  // Time and bean temperature curves
+  const timex = Array.isArray(profile.timex) ? profile.timex : null;
+  const temp2 = Array.isArray(profile.temp2) ? profile.temp2 : null;
+  if (!timex || !temp2) {
+    errors.push({ message: 'Profile is missing the "timex" or "temp2" (BT) arrays' });
+    return { roast: null, errors, warnings };
+  }
+  if (timex.length !== temp2.length) {
+    errors.push({ message: `"timex" has ${timex.length} entries but "temp2" has ${temp2.length}` });
+    return { roast: null, errors, warnings };
+  }
+
+  // Event indexes
+  const timeindex = Array.isArray(profile.timeindex) ? profile.timeindex.map(Number) : [];
+  let chargeIndex = timeindex[TIMEINDEX.CHARGE] ?? -1;
+  if (!(chargeIndex >= 0 && chargeIndex < timex.length)) {
+    warnings.push({ message: 'No CHARGE event; the roast starts at the first sample' });
+    chargeIndex = 0;
+  }
+  let dropIndex = timeindex[TIMEINDEX.DROP] ?? 0;
+  if (!(dropIndex > chargeIndex && dropIndex < timex.length)) {
+    warnings.push({ message: 'No DROP event; the roast ends at the last sample' });
+    dropIndex = timex.length - 1;
+  }
+  const firstCrackIndex = timeindex[TIMEINDEX.FCs] ?? 0;
+
+  if ((timeindex[TIMEINDEX.COOL] ?? 0) > 0) {
+    warnings.push({ message: 'COOL event not supported and ignored' });
+  }
+
+  // Environment temperature is optional; a mismatched curve is ignored
+  let temp1 = Array.isArray(profile.temp1) ? profile.temp1 : null;
+  if (temp1 && temp1.length !== timex.length) {
+    warnings.push({ message: `"temp1" (ET) has ${temp1.length} entries but "timex" has ${timex.length}; ET was ignored` });
+    temp1 = null;
+  }
+
+  // Bean and environment temperature data between CHARGE and DROP, relative to CHARGE
+  const chargeTime = Number(timex[chargeIndex]);
+  const temperatureData: TemperatureDataPoint[] = [];
+  let missingReadings = 0;
+  for (let i = chargeIndex; i <= dropIndex; i++) {
+    const time = Number(timex[i]) - chargeTime;
+    const temperature = Number(temp2[i]);
+    if (!Number.isFinite(time) || !Number.isFinite(temperature) || temperature === -1) {
+      missingReadings++;
+      continue;
+    }
+    const point: TemperatureDataPoint = { time: Math.round(time * 10) / 10, temperature };
+    const environmentTemp = temp1 ? Number(temp1[i]) : NaN;
+    if (Number.isFinite(environmentTemp) && environmentTemp !== -1) {
+      point.environmentTemp = environmentTemp;
+    }
+    temperatureData.push(point);
+  }
+  if (missingReadings > 0) {
+    warnings.push({ message: `${missingReadings} samples without a valid BT reading were skipped` });
+  }
+  if (chargeIndex > 0) {
+    warnings.push({ message: `${chargeIndex} samples recorded before CHARGE were dropped` });
+  }
+  if (timex.length - 1 > dropIndex) {
+    warnings.push({ message: `${timex.length - 1 - dropIndex} samples recorded after DROP were dropped` });
+  }
+  if (temperatureData.length === 0) {
+    errors.push({ message: 'Profile contains no bean temperature readings' });
+    return { roast: null, errors, warnings };
+  }
+
+  // Unsupported fields
+  UNSUPPORTED_FIELDS.forEach(({ key, description }) => {
+    if (hasContent(profile[key])) {
+      warnings.push({ message: `Artisan ${description} ("${key}") not supported and ignored` });
+    }
+  });
+
+  const totalTime = Math.round(Number(timex[dropIndex]) - chargeTime);
+  const firstCrackTime = firstCrackIndex > chargeIndex && firstCrackIndex <= dropIndex
+    ? Math.round(Number(timex[firstCrackIndex]) - chargeTime)
+    : null;
+
+  const chargeTemp = Number(temp2[chargeIndex]);
+
+  // Roast events from the timeindex slots; events outside CHARGE..DROP are dropped
+  const eventAt = (type: RoastEventType, index: number): RoastEvent => ({
+    type,
+    time: Math.round(Number(timex[index]) - chargeTime),
+    temperature: Number(temp2[index])
+  });
+  const events: RoastEvent[] = [eventAt('charge', chargeIndex)];
+  EVENT_TIMEINDEX.forEach(({ type, index, name }) => {
+    const eventIndex = timeindex[index] ?? 0;
+    if (eventIndex <= 0) return;
+    if (eventIndex > chargeIndex && eventIndex <= dropIndex) {
+      events.push(eventAt(type, eventIndex));
+    } else {
+      warnings.push({ message: `${name} event lies outside CHARGE..DROP and was ignored` });
+    }
+  });
+  events.push({ type: 'drop', time: totalTime, temperature: Number(temp2[dropIndex]) });
+  const beanName = [profile.title, profile.beans]
+    .find((value): value is string => typeof value === 'string' && value.trim() !== '')
+    ?.trim() ?? 'Artisan roast';
+  const roastedAt = typeof profile.roastepoch === 'number'
+    ? new Date(profile.roastepoch * 1000).toISOString()
+    : new Date().toISOString();
+
+  return {
+    roast: {
+      id: createRoastId(),
+      roastedAt,
+      beanName,
+      chargeTemp: Number.isFinite(chargeTemp) && chargeTemp !== -1 ? chargeTemp : temperatureData[0].temperature,
+      unit,
+      temperatureData,
+      totalTime,
+      firstCrackTime,
+      events: withTurningPoint(sortEvents(events), temperatureData)
+    },
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Parse Artisan profile file content (.alog Python literal or Artisan JSON)
+ *
+ * @param text - File contents
+ * @returns Parsed roast with any errors and warnings
+ */
+export const parseArtisanProfile = (text: string): ImportResult => {
+  let data: unknown;
+  try {
+    try {
+      data = JSON.parse(text);
+    } catch {
+      data = parsePythonLiteral(text);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const line = Number(message.match(/^line (\d+)/)?.[1]);
+    return {
+      roast: null,
+      errors: [{ line: Number.isFinite(line) ? line : undefined, message: `Invalid Artisan profile: ${message.replace(/^line \d+: /, '')}` }],
+      warnings: []
+    };
+  }
+
+  if (!isArtisanProfile(data)) {
+    return { roast: null, errors: [{ message: 'Not an Artisan profile (missing "timex" and "temp2")' }], warnings: [] };
+  }
+  return parseArtisanData(data);
+};
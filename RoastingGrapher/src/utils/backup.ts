@@ -0,0 +1,332 @@
+/**
+ * Backup and Restore
+ *
+ * Bundles all local data (settings, in-progress sessions, saved roasts,
+ * recipes, green coffee lots and quarantined records) into a single JSON file with a
+ * manifest and a SHA-256 checksum, and restores such a file by merging it
+ * into the local data or replacing the local data with it.
+ *
+ * Restored records keep the schema version they were backed up with, so the
+ * regular storage migrations upgrade older backups when the records are loaded.
+ * Backups made before recipes existed restore with no recipes.
+ *
+ * The database part of a restore (clearing and writing every store) runs in a
+ * single transaction, and localStorage is only touched once it has committed,
+ * so a failed restore leaves the stored roasts, recipes and lots as they were.
+ */
+import type { SummaryData } from '../types';
+import { LOTS_STORE, QUARANTINE_STORE, RECIPES_STORE, ROASTS_STORE, requestToPromise, withStore, withStores } from './database';
+import { getAllLots } from './inventory';
+import { getAllRecipes } from './recipes';
+import { getAllRoasts } from './roastHistory';
+import { SESSION_KEY_PREFIX, listSavedSessions } from './sessionRecovery';
+import { SCHEMA_VERSION, getQuarantinedRecords, isObject, readSetting, toStoredRecord, writeLocalRecord } from './storage';
+import { HOTKEYS_STORAGE_KEY } from './hotkeys';
+import { PHASE_THRESHOLDS_STORAGE_KEY } from './phaseAnalysis';
+import { REPORT_TEMPLATE_STORAGE_KEY } from './reportTemplate';
+import { saveBlob } from './exportUtils';
+
+/** Identifies backup files */
+const BACKUP_FORMAT = 'roasting-grapher-backup';
+
+/** localStorage keys of every setting included in backups */
+const SETTING_KEYS = [HOTKEYS_STORAGE_KEY, PHASE_THRESHOLDS_STORAGE_KEY, REPORT_TEMPLATE_STORAGE_KEY];
+
+/**
+ * Summary of a backup's contents
+ */
+export interface BackupManifest {
+  /** ISO timestamp of when the backup was created */
+  createdAt: string;
+  /** Storage schema version of the backed up records */
+  schemaVersion: number;
+  /** Number of records of each kind */
+  counts: {
+    settings: number;
+    sessions: number;
+    roasts: number;
+    /** Missing in backups made before recipes existed */
+    recipes?: number;
+    lots: number;
+    quarantined: number;
+  };
+}
+
+/**
+ * Backed up records (kept loosely typed: older backups are migrated after restoring)
+ */
+export interface BackupData {
+  /** Settings by localStorage key */
+  settings: Record<string, unknown>;
+  sessions: unknown[];
+  roasts: unknown[];
+  /** Missing in backups made before recipes existed */
+  recipes?: unknown[];
+  lots: unknown[];
+  quarantined: unknown[];
+}
+
+/**
+ * Backup file contents
+ */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  manifest: BackupManifest;
+  /** SHA-256 (hex) of the manifest and data */
+  checksum: string;
+  data: BackupData;
+}
+
+/**
+ * How a backup is restored
+ * - merge: add records missing locally, keeping local records with the same id
+ * - replace: erase local settings, sessions, roasts, recipes and lots, then restore the backup
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * Restore preview: what a backup contains and what it has in common with local data
+ */
+export interface RestorePreview {
+  manifest: BackupManifest;
+  /** Backed up roasts whose id is already in the local library */
+  duplicateRoasts: { id: string; beanName: string; roastedAt: string }[];
+  /** Number of backed up roasts not in the local library */
+  newRoasts: number;
+  /** Number of backed up sessions already saved locally */
+  duplicateSessions: number;
+  /** Number of backed up lots already in the local inventory */
+  duplicateLots: number;
+  /** Number of roasts currently in the local library */
+  localRoasts: number;
+}
+
+/**
+ * Number of records of each kind written by a restore
+ */
+export interface RestoreResult {
+  settings: number;
+  sessions: number;
+  roasts: number;
+  recipes: number;
+  lots: number;
+}
+
+/**
+ * SHA-256 of a backup's manifest and data, as hex
+ */
+const computeChecksum = async (manifest: BackupManifest, data: BackupData): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify({ manifest, data }));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Id of a backed up record, if it has one
+ */
+const getRecordId = (record: unknown): string | null => {
+  return isObject(record) && typeof record.id === 'string' ? record.id : null;
+};
+
+/**
+ * Session id of a backed up session, if it has one
+ */
+const getSessionId = (record: unknown): string | null => {
+  return isObject(record) && isObject(record.session) && typeof record.session.sessionId === 'string'
+    ? record.session.sessionId
+    : null;
+};
+
+/**
+ * Collects all local data into a backup
+ *
+ * @returns Backup with manifest and checksum
+ */
+export const createBackup = async (): Promise<BackupFile> => {
+  const [roasts, recipes, lots, quarantined] = await Promise.all([getAllRoasts(), getAllRecipes(), getAllLots(), getQuarantinedRecords()]);
+  const settings: Record<string, unknown> = {};
+  SETTING_KEYS.forEach(key => {
+    const value = readSetting(key);
+    if (value) settings[key] = value;
+  });
+  const data: BackupData = { settings, sessions: listSavedSessions(), roasts, recipes, lots, quarantined };
+  const manifest: BackupManifest = {
+    createdAt: new Date().toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    counts: {
+      settings: Object.keys(settings).length,
+      sessions: data.sessions.length,
+      roasts: roasts.length,
+      recipes: recipes.length,
+      lots: lots.length,
+      quarantined: quarantined.length
+    }
+  };
+  return { format: BACKUP_FORMAT, manifest, checksum: await computeChecksum(manifest, data), data };
+};
+
+/**
+ * Creates a backup of all local data and downloads it
+ *
+ * @returns Manifest of the downloaded backup
+ */
+export const downloadBackup = async (): Promise<BackupManifest> => {
+  const backup = await createBackup();
+  const date = backup.manifest.createdAt.slice(0, 10);
+  saveBlob(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), `roasting-grapher-backup_${date}.json`);
+  return backup.manifest;
+};
+
+/**
+ * Reads and verifies a backup file
+ *
+ * @param file - Selected backup file
+ * @returns The backup, or why it cannot be restored
+ */
+export const readBackupFile = async (file: File): Promise<{ backup: BackupFile } | { error: string }> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await file.text());
+  } catch {
+    return { error: `"${file.name}" is not a backup file (not valid JSON)` };
+  }
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT || !isObject(parsed.manifest) || !isObject(parsed.data)) {
+    return { error: `"${file.name}" is not a Coffee Roasting Grapher backup` };
+  }
+  const backup = parsed as unknown as BackupFile;
+  const { data, manifest } = backup;
+  if (!isObject(data.settings) || ![data.sessions, data.roasts, data.lots, data.quarantined].every(Array.isArray)) {
+    return { error: 'The backup is incomplete' };
+  }
+  if (data.recipes !== undefined && !Array.isArray(data.recipes)) {
+    return { error: 'The backup is incomplete' };
+  }
+  if (typeof manifest.schemaVersion !== 'number' || manifest.schemaVersion > SCHEMA_VERSION) {
+    return { error: 'The backup was made by a newer version of the app; update the app before restoring it' };
+  }
+  if (backup.checksum !== await computeChecksum(manifest, data)) {
+    return { error: 'The backup is damaged or was modified (checksum mismatch)' };
+  }
+  return { backup };
+};
+
+/**
+ * Compares a backup with the local data
+ *
+ * @param backup - Verified backup
+ * @returns What the backup contains and which records are already stored locally
+ */
+export const previewRestore = async (backup: BackupFile): Promise<RestorePreview> => {
+  const [roastIds, lotIds] = await Promise.all([
+    withStore(ROASTS_STORE, 'readonly', store => requestToPromise(store.getAllKeys())),
+    withStore(LOTS_STORE, 'readonly', store => requestToPromise(store.getAllKeys()))
+  ]);
+  const localRoastIds = new Set(roastIds);
+  const localLotIds = new Set(lotIds);
+  const duplicateRoasts = backup.data.roasts
+    .filter(roast => localRoastIds.has(getRecordId(roast) ?? ''))
+    .map(roast => {
+      const { id, beanName, roastedAt } = roast as SummaryData;
+      return { id, beanName: String(beanName), roastedAt: String(roastedAt) };
+    });
+  return {
+    manifest: backup.manifest,
+    duplicateRoasts,
+    newRoasts: backup.data.roasts.filter(roast => getRecordId(roast) !== null).length - duplicateRoasts.length,
+    duplicateSessions: backup.data.sessions.filter(session => {
+      const sessionId = getSessionId(session);
+      return sessionId !== null && localStorage.getItem(`${SESSION_KEY_PREFIX}${sessionId}`) !== null;
+    }).length,
+    duplicateLots: backup.data.lots.filter(lot => localLotIds.has(getRecordId(lot) ?? '')).length,
+    localRoasts: localRoastIds.size
+  };
+};
+
+/**
+ * Writes backed up records with ids to an object store, keeping records already stored under the same id
+ *
+ * @param store - Object store to write to (part of the restore transaction)
+ * @param records - Backed up records
+ * @param schemaVersion - Schema version of the records, stored with them (null for unversioned stores)
+ * @returns Number of records written
+ */
+const restoreRecords = async (store: IDBObjectStore, records: unknown[], schemaVersion: number | null): Promise<number> => {
+  const existing = new Set(await requestToPromise(store.getAllKeys()));
+  let written = 0;
+  for (const record of records) {
+    const id = getRecordId(record);
+    if (id === null || existing.has(id)) continue;
+    const value = schemaVersion !== null ? toStoredRecord(record as object, schemaVersion) : record;
+    await requestToPromise(store.put(value));
+    existing.add(id);
+    written++;
+  }
+  return written;
+};
+
+/**
+ * Restores a verified backup
+ *
+ * @param backup - Verified backup
+ * @param mode - Merge into or replace the local data
+ * @returns Number of records of each kind restored
+ */
+export const restoreBackup = async (backup: BackupFile, mode: RestoreMode): Promise<RestoreResult> => {
+  const { data, manifest } = backup;
+
+  // All database changes commit together, or not at all
+  const { roasts, recipes, lots } = await withStores(
+    [ROASTS_STORE, RECIPES_STORE, LOTS_STORE, QUARANTINE_STORE],
+    'readwrite',
+    async stores => {
+      if (mode === 'replace') {
+        for (const storeName of [ROASTS_STORE, RECIPES_STORE, LOTS_STORE]) {
+          await requestToPromise(stores[storeName].clear());
+        }
+      }
+      const counts = {
+        roasts: await restoreRecords(stores[ROASTS_STORE], data.roasts, manifest.schemaVersion),
+        recipes: await restoreRecords(stores[RECIPES_STORE], data.recipes ?? [], manifest.schemaVersion),
+        lots: await restoreRecords(stores[LOTS_STORE], data.lots, null)
+      };
+      // Quarantined records are never erased, so a replace merges them too
+      await restoreRecords(stores[QUARANTINE_STORE], data.quarantined, null);
+      return counts;
+    }
+  );
+
+  // localStorage values to write (a replace overwrites local values with the same key)
+  const writes: [string, unknown][] = [];
+  data.sessions.forEach(session => {
+    const sessionId = getSessionId(session);
+    if (sessionId !== null) writes.push([`${SESSION_KEY_PREFIX}${sessionId}`, session]);
+  });
+  Object.entries(data.settings).forEach(([key, value]) => {
+    if (SETTING_KEYS.includes(key) && isObject(value)) writes.push([key, value]);
+  });
+
+  let sessions = 0;
+  let settings = 0;
+  writes.forEach(([key, value]) => {
+    if (mode === 'merge' && localStorage.getItem(key) !== null) return;
+    writeLocalRecord(key, value, manifest.schemaVersion);
+    if (key.startsWith(SESSION_KEY_PREFIX)) {
+      sessions++;
+    } else {
+      settings++;
+    }
+  });
+
+  // A replace removes the remaining local values only once the backup's are written
+  if (mode === 'replace') {
+    const restoredKeys = new Set(writes.map(([key]) => key));
+    const staleKeys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && (key.startsWith(SESSION_KEY_PREFIX) || SETTING_KEYS.includes(key)) && !restoredKeys.has(key)) staleKeys.push(key);
+    }
+    staleKeys.forEach(key => localStorage.removeItem(key));
+  }
+
+  return { settings, sessions, roasts, recipes, lots };
+};
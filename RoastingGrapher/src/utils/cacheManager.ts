@@ -1,10 +1,14 @@
 /**
  * Cache Manager
  * 
- * Handles cache clearing and version management to ensure users always see
- * the latest version of the application.
+ * Handles version tracking and the offline service worker, plus a manual
+ * reset that clears caches and local data as a last resort.
  */
 
+import { registerServiceWorker } from './serviceWorker';
+import { downloadBackup } from './backup';
+
+// Independent of the storage SCHEMA_VERSION: bumping it never migrates or clears stored data
 const APP_VERSION = '1.5.1';
 const VERSION_KEY = 'app_version';
 
@@ -43,43 +47,9 @@ async function unregisterServiceWorkers(): Promise<void> {
 }
 
 /**
- * Clears old localStorage data but preserves current session data
- */
-function clearOldLocalStorage(): void {
-  try {
-    const currentSessionKeys: string[] = [];
-    
-    // Find all current roasting session keys
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('roasting_session_')) {
-        currentSessionKeys.push(key);
-      }
-    }
-
-    // Store session data temporarily
-    const sessionData: Record<string, string> = {};
-    currentSessionKeys.forEach(key => {
-      const value = localStorage.getItem(key);
-      if (value) sessionData[key] = value;
-    });
-
-    // Clear all localStorage
-    localStorage.clear();
-
-    // Restore session data
-    Object.entries(sessionData).forEach(([key, value]) => {
-      localStorage.setItem(key, value);
-    });
-
-    console.log('[Cache Manager] Old localStorage cleared, sessions preserved');
-  } catch (error) {
-    console.error('[Cache Manager] Error clearing localStorage:', error);
-  }
-}
-
-/**
- * Checks app version and clears caches if version has changed
+ * Records the app version and registers the offline service worker.
+ * Version changes never clear caches or stored data: new builds are picked up
+ * by the service worker, which offers the update to the user.
  */
 export async function initializeCacheManager(): Promise<void> {
   try {
@@ -87,29 +57,36 @@ export async function initializeCacheManager(): Promise<void> {
 
     if (storedVersion !== APP_VERSION) {
       console.log(`[Cache Manager] Version change detected: ${storedVersion || 'none'} → ${APP_VERSION}`);
-      console.log('[Cache Manager] Clearing caches...');
-
-      // Clear all caches
-      await clearAllCaches();
-      await unregisterServiceWorkers();
-      clearOldLocalStorage();
-
-      // Update version
       localStorage.setItem(VERSION_KEY, APP_VERSION);
-
-      console.log('[Cache Manager] Cache clearing complete');
     } else {
-      console.log(`[Cache Manager] Version ${APP_VERSION} - caches are up to date`);
+      console.log(`[Cache Manager] Version ${APP_VERSION}`);
     }
   } catch (error) {
     console.error('[Cache Manager] Initialization error:', error);
   }
+
+  // Registration runs in the background so rendering never waits on the network
+  void registerServiceWorker();
 }
 
 /**
- * Forces a cache clear and page reload
+ * Forces a cache clear and page reload. Unlike updates, this also erases
+ * everything stored in localStorage (settings and unfinished roasts), so the
+ * user is offered a backup of all local data first.
  */
 export async function forceClearCacheAndReload(): Promise<void> {
+  if (!window.confirm('Resetting the app clears its caches and erases settings and unfinished roasts stored in this browser. Continue?')) {
+    return;
+  }
+  if (window.confirm('Download a backup of all your data before resetting?')) {
+    try {
+      await downloadBackup();
+    } catch (error) {
+      console.error('[Cache Manager] Backup before reset failed:', error);
+      if (!window.confirm('The backup could not be created. Reset anyway?')) return;
+    }
+  }
+
   console.log('[Cache Manager] Force clearing caches...');
   await clearAllCaches();
   await unregisterServiceWorkers();
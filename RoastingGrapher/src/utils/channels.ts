@@ -0,0 +1,86 @@
+/**
+ * Temperature Channel Utilities
+ * 
+ * Describes the named probe channels recorded in each data point (bean
+ * temperature and environment temperature) and computes per-channel stats.
+ */
+import type { ChannelKey, TemperatureDataPoint } from '../types';
+
+/**
+ * Display configuration for a temperature channel
+ */
+export interface ChannelDefinition {
+  key: ChannelKey;
+  /** Full name (e.g., "Bean Temp") */
+  label: string;
+  /** Abbreviation used in readouts and legends (e.g., "BT") */
+  shortLabel: string;
+  /** Chart line and readout color */
+  color: string;
+}
+
+/**
+ * Available channels; bean temperature is always recorded
+ */
+export const CHANNELS: ChannelDefinition[] = [
+  { key: 'temperature', label: 'Bean Temp', shortLabel: 'BT', color: '#ffffff' },
+  { key: 'environmentTemp', label: 'Env Temp', shortLabel: 'ET', color: '#ff7f50' }
+];
+
+/**
+ * Per-channel temperature statistics
+ */
+export interface ChannelStats {
+  finalTemp: number;
+  minTemp: number;
+  maxTemp: number;
+}
+
+/**
+ * Look up the display configuration of a channel
+ */
+export const getChannelDefinition = (key: ChannelKey): ChannelDefinition => {
+  return CHANNELS.find(channel => channel.key === key) ?? CHANNELS[0];
+};
+
+/**
+ * Get the recorded values of a channel, skipping points without a reading
+ * 
+ * @param data - Temperature data points
+ * @param key - Channel to read
+ * @returns Channel values in time order
+ */
+export const getChannelValues = (data: TemperatureDataPoint[], key: ChannelKey): number[] => {
+  return data
+    .map(point => point[key])
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value));
+};
+
+/**
+ * Get the channels that have at least one reading in the data
+ * 
+ * @param data - Temperature data points
+ * @returns Recorded channel keys in display order
+ */
+export const getRecordedChannels = (data: TemperatureDataPoint[]): ChannelKey[] => {
+  return CHANNELS
+    .filter(channel => channel.key === 'temperature' || data.some(point => typeof point[channel.key] === 'number'))
+    .map(channel => channel.key);
+};
+
+/**
+ * Calculate final, minimum and maximum values of a channel
+ * 
+ * @param data - Temperature data points
+ * @param key - Channel to summarize
+ * @returns Channel statistics, or null if the channel has no readings
+ */
+export const getChannelStats = (data: TemperatureDataPoint[], key: ChannelKey): ChannelStats | null => {
+  const values = getChannelValues(data, key);
+  if (values.length === 0) return null;
+  return {
+    finalTemp: values[values.length - 1],
+    minTemp: Math.min(...values),
+    maxTemp: Math.max(...values)
+  };
+};
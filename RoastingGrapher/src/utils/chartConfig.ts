@@ -0,0 +1,80 @@
+/**
+ * Chart Configuration
+ *
+ * Shared recharts styling and axis helpers for the roast charts, so the
+ * summary and comparison charts look and scale the same way.
+ */
+
+/** Grid line color */
+export const GRID_STROKE = '#333333';
+
+/** Axis line and tick color */
+export const AXIS_COLOR = '#ffffff';
+
+/** Rate of Rise curve and axis color */
+export const ROR_COLOR = '#00bfff';
+
+/** Props shared by the time and temperature axes */
+export const AXIS_PROPS = {
+  stroke: AXIS_COLOR,
+  tick: { fill: AXIS_COLOR }
+};
+
+/** Props of the Rate of Rise axis */
+export const ROR_AXIS_PROPS = {
+  stroke: ROR_COLOR,
+  tick: { fill: ROR_COLOR }
+};
+
+/** Tooltip styling */
+export const TOOLTIP_PROPS = {
+  contentStyle: { backgroundColor: '#000000', border: '1px solid #ffffff', color: '#ffffff' },
+  labelStyle: { color: '#ffffff' }
+};
+
+/** Legend styling */
+export const LEGEND_STYLE = { color: '#ffffff' };
+
+/**
+ * Formats seconds to minutes for X-axis display (minutes only)
+ *
+ * @param seconds - Time in seconds (may be negative when aligned to an event)
+ * @returns Whole minutes (e.g., "5m")
+ */
+export const formatMinutes = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  return `${mins}m`;
+};
+
+/**
+ * Whole-minute ticks covering a time range, with one extra minute of headroom
+ *
+ * @param endTime - Last time on the axis in seconds
+ * @param startTime - First time on the axis in seconds
+ * @returns Tick positions in seconds
+ */
+export const getMinuteTicks = (endTime: number, startTime: number = 0): number[] => {
+  const first = Math.floor(startTime / 60);
+  const last = Math.floor(endTime / 60) + 1;
+  return Array.from({ length: last - first + 1 }, (_, i) => (first + i) * 60);
+};
+
+/**
+ * Temperature axis domain with a margin around the recorded range
+ *
+ * @param minTemp - Lowest temperature shown
+ * @param maxTemp - Highest temperature shown
+ * @returns Axis domain
+ */
+export const getTemperatureDomain = (minTemp: number, maxTemp: number): [number, number] => {
+  return [Math.floor(minTemp - 5), Math.ceil(maxTemp + 5)];
+};
+
+/** Grid, axis and line colors for charts drawn on white paper (reports and exported images) */
+export const PRINT_CHART_COLORS = {
+  grid: '#dddddd',
+  axis: '#333333',
+  ror: '#0077b6',
+  temperature: '#222222',
+  environmentTemp: '#d2691e'
+};
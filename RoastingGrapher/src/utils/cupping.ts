@@ -0,0 +1,144 @@
+/**
+ * Cupping Utilities
+ *
+ * Defines the SCA-style cupping form, calculates the total cupping score, and
+ * converts scores to and from their text form used in CSV exports.
+ */
+import type { CuppingAttribute, CuppingResult, CuppingScores, SummaryData } from '../types';
+
+/**
+ * Cupping form attributes in form order
+ */
+export const CUPPING_ATTRIBUTES: { attribute: CuppingAttribute; label: string }[] = [
+  { attribute: 'fragrance', label: 'Fragrance/Aroma' },
+  { attribute: 'flavor', label: 'Flavor' },
+  { attribute: 'aftertaste', label: 'Aftertaste' },
+  { attribute: 'acidity', label: 'Acidity' },
+  { attribute: 'body', label: 'Body' },
+  { attribute: 'balance', label: 'Balance' },
+  { attribute: 'uniformity', label: 'Uniformity' },
+  { attribute: 'cleanCup', label: 'Clean Cup' },
+  { attribute: 'sweetness', label: 'Sweetness' },
+  { attribute: 'overall', label: 'Overall' }
+];
+
+/** Highest score of a single attribute */
+export const MAX_ATTRIBUTE_SCORE = 10;
+
+/** Highest rating */
+export const MAX_RATING = 5;
+
+/**
+ * Creates a cupping form with every attribute at a neutral 7.5
+ * (uniformity, clean cup and sweetness start at the full 10 cups)
+ */
+export const createDefaultScores = (): CuppingScores => ({
+  attributes: Object.fromEntries(CUPPING_ATTRIBUTES.map(({ attribute }) => [
+    attribute,
+    attribute === 'uniformity' || attribute === 'cleanCup' || attribute === 'sweetness' ? 10 : 7.5
+  ])) as Record<CuppingAttribute, number>,
+  defects: 0
+});
+
+/**
+ * Creates empty cupping results
+ */
+export const createEmptyCupping = (): CuppingResult => ({
+  agtron: null,
+  roastColor: '',
+  notes: '',
+  scores: null,
+  rating: null,
+  updatedAt: new Date().toISOString()
+});
+
+/**
+ * Calculate the total cupping score
+ * Total = sum of the attribute scores − defects
+ *
+ * @param scores - Cupping form scores
+ * @returns Total score (100 at most)
+ */
+export const calculateCuppingScore = (scores: CuppingScores): number => {
+  const sum = CUPPING_ATTRIBUTES.reduce((total, { attribute }) => total + scores.attributes[attribute], 0);
+  return sum - scores.defects;
+};
+
+/**
+ * Get the total cupping score of a roast
+ *
+ * @param roast - Roast to score
+ * @returns Total score, or null if the roast has not been scored
+ */
+export const getRoastCuppingScore = (roast: SummaryData): number | null => {
+  return roast.cupping?.scores ? calculateCuppingScore(roast.cupping.scores) : null;
+};
+
+/**
+ * Summarise cupping results on one line (e.g., "84.50 pts · ★★★★ · Agtron 62 · City+")
+ *
+ * @param cupping - Cupping results
+ * @returns Summary, or an empty string if nothing but notes was recorded
+ */
+export const formatCuppingSummary = (cupping: CuppingResult): string => {
+  return [
+    cupping.scores ? `${calculateCuppingScore(cupping.scores).toFixed(2)} pts` : null,
+    cupping.rating !== null ? '★'.repeat(cupping.rating) : null,
+    cupping.agtron !== null ? `Agtron ${cupping.agtron}` : null,
+    cupping.roastColor || null
+  ].filter(Boolean).join(' · ');
+};
+
+/**
+ * Format scores for a single CSV header line
+ * (e.g., "Fragrance/Aroma 8.00; Flavor 8.25; ...; Defects 0")
+ *
+ * @param scores - Cupping form scores
+ * @returns Semicolon-separated score list
+ */
+export const formatScoreList = (scores: CuppingScores): string => {
+  return [
+    ...CUPPING_ATTRIBUTES.map(({ attribute, label }) => `${label} ${scores.attributes[attribute].toFixed(2)}`),
+    `Defects ${scores.defects}`
+  ].join('; ');
+};
+
+/**
+ * Parse a score list written by `formatScoreList`
+ *
+ * @param text - Semicolon-separated score list
+ * @returns Parsed scores, or an error message describing the first invalid entry
+ */
+export const parseScoreList = (text: string): { scores: CuppingScores } | { error: string } => {
+  const scores = createDefaultScores();
+  const seen = new Set<string>();
+  for (const entry of text.split(';').map(part => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^(.+?)\s+(\d+(?:\.\d+)?)$/);
+    const label = match?.[1].toLowerCase();
+    const value = match ? parseFloat(match[2]) : NaN;
+    const definition = CUPPING_ATTRIBUTES.find(d => d.label.toLowerCase() === label);
+    if (definition && value <= MAX_ATTRIBUTE_SCORE) {
+      scores.attributes[definition.attribute] = value;
+      seen.add(definition.attribute);
+    } else if (label === 'defects' && !isNaN(value)) {
+      scores.defects = value;
+    } else {
+      return { error: `Invalid cupping score "${entry}"` };
+    }
+  }
+  if (seen.size !== CUPPING_ATTRIBUTES.length) {
+    return { error: 'Cupping scores are incomplete' };
+  }
+  return { scores };
+};
+
+/**
+ * Check whether a roast's cupping results match a search text (tasting notes or roast colour)
+ *
+ * @param roast - Roast to check
+ * @param search - Lower-case search text
+ */
+export const cuppingMatches = (roast: SummaryData, search: string): boolean => {
+  if (!roast.cupping) return false;
+  return roast.cupping.notes.toLowerCase().includes(search) || roast.cupping.roastColor.toLowerCase().includes(search);
+};
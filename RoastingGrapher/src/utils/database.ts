@@ -0,0 +1,160 @@
+/**
+ * IndexedDB Database
+ *
+ * Opens the application database and provides small promise wrappers around
+ * IndexedDB requests and transactions. Data kept here is independent of
+ * localStorage, so clearing site caches or settings never touches it.
+ */
+
+const DB_NAME = 'roasting_grapher';
+const DB_VERSION = 4;
+
+/** Object store holding completed roasts, keyed by roast id */
+export const ROASTS_STORE = 'roasts';
+
+/** Object store holding green coffee lots, keyed by lot id */
+export const LOTS_STORE = 'lots';
+
+/** Object store holding roast recipes, keyed by recipe id */
+export const RECIPES_STORE = 'recipes';
+
+/** Object store holding records that could not be loaded, keyed by record id */
+export const QUARANTINE_STORE = 'quarantine';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Creates or upgrades object stores when the database version changes
+ */
+const upgradeDatabase = (db: IDBDatabase): void => {
+  if (!db.objectStoreNames.contains(ROASTS_STORE)) {
+    const store = db.createObjectStore(ROASTS_STORE, { keyPath: 'id' });
+    store.createIndex('roastedAt', 'roastedAt');
+  }
+  if (!db.objectStoreNames.contains(LOTS_STORE)) {
+    db.createObjectStore(LOTS_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(RECIPES_STORE)) {
+    db.createObjectStore(RECIPES_STORE, { keyPath: 'id' });
+  }
+  if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+    db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+  }
+};
+
+/**
+ * Opens the application database (cached after the first call)
+ *
+ * @returns Promise resolving to the open database
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not supported in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => upgradeDatabase(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Wraps an IndexedDB request in a promise
+ *
+ * @param request - Request to wait for
+ * @returns Promise resolving to the request result
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs a callback against an object store and waits for the transaction to complete
+ *
+ * @param storeName - Object store to open
+ * @param mode - Transaction mode
+ * @param callback - Work to perform with the store; its return value is resolved, and throwing aborts the transaction
+ * @returns Promise resolving to the callback's result once the transaction commits
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+  let result: T;
+  try {
+    result = await callback(transaction.objectStore(storeName));
+  } catch (error) {
+    // Roll back everything written so far (the transaction may already have aborted itself)
+    try {
+      transaction.abort();
+    } catch {
+      // Already finished
+    }
+    done.catch(() => undefined);
+    throw error;
+  }
+  await done;
+  return result;
+};
+
+/**
+ * Runs a callback against several object stores in a single transaction, so
+ * either all of its changes are committed or none are
+ *
+ * @param storeNames - Object stores to open
+ * @param mode - Transaction mode
+ * @param callback - Work to perform with the stores (by name); throwing aborts the transaction
+ * @returns Promise resolving to the callback's result once the transaction commits
+ */
+export const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  callback: (stores: Record<string, IDBObjectStore>) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+  const stores: Record<string, IDBObjectStore> = {};
+  storeNames.forEach(name => {
+    stores[name] = transaction.objectStore(name);
+  });
+  let result: T;
+  try {
+    result = await callback(stores);
+  } catch (error) {
+    // Roll back everything written so far (the transaction may already have aborted itself)
+    try {
+      transaction.abort();
+    } catch {
+      // Already finished
+    }
+    done.catch(() => undefined);
+    throw error;
+  }
+  await done;
+  return result;
+};
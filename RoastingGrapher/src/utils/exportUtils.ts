@@ -1,109 +1,243 @@
 /**
  * Export Utilities
  * 
- * Provides functions for exporting roasting session data as CSV and JSON files.
+ * Provides functions for exporting roasting session data as CSV, JSON and
+ * Artisan profile files. Environment temperature (ET) is included when recorded,
+ * and CSV and JSON exports carry the roast phase breakdown, batch weights,
+ * cupping results, the recipe revision the roast was started from and whether
+ * the data was edited after the roast.
+ *
+ * Readings are stored only when they change (plus keyframes); exports write
+ * one row per second by default, resampled from the stored readings.
  */
 
-interface TemperatureDataPoint {
-  time: number;
-  temperature: number;
+import type { SummaryData, TemperatureUnit } from '../types';
+import { calculateDTR } from './dtrCalculations';
+import { DEFAULT_ROR_WINDOW, withRoR } from './rorCalculations';
+import { formatEventList } from './roastEvents';
+import { createArtisanContent } from './artisanUtils';
+import { getChannelStats } from './channels';
+import type { ChannelStats } from './channels';
+import { convertRoastUnit } from './unitConversion';
+import { DEFAULT_PHASE_THRESHOLDS, analyzePhases, formatPhaseList } from './phaseAnalysis';
+import type { PhaseThresholds } from './phaseAnalysis';
+import { getRoastWeights } from './weightLoss';
+import { calculateCuppingScore, formatScoreList } from './cupping';
+import { formatEditList, getEditsSinceRevert, isEditedRoast } from './roastEditing';
+import { resampleToSeconds } from './sampling';
+import { formatTime } from './format';
+import { formatRecipeRef } from './recipes';
+
+/**
+ * Temperature statistics for a roast: bean temperature, plus environment
+ * temperature when it was recorded
+ */
+export interface TemperatureStats extends ChannelStats {
+  environmentTemp: ChannelStats | null;
 }
 
 /**
- * Format seconds into MM:SS format
+ * Calculate final, minimum and maximum temperatures of a roast per channel
  * 
- * @param totalSeconds - Time in seconds
- * @returns Formatted string (e.g., "05:23")
+ * @param roast - Completed roast
+ * @returns Temperature statistics (charge temperature when no data was recorded)
  */
-export const formatTime = (totalSeconds: number): string => {
-  const mins = Math.floor(totalSeconds / 60);
-  const secs = totalSeconds % 60;
-  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+export const getTemperatureStats = (roast: SummaryData): TemperatureStats => {
+  const beanStats = getChannelStats(roast.temperatureData, 'temperature')
+    ?? { finalTemp: roast.chargeTemp, minTemp: roast.chargeTemp, maxTemp: roast.chargeTemp };
+  return { ...beanStats, environmentTemp: getChannelStats(roast.temperatureData, 'environmentTemp') };
 };
 
 /**
- * Export roasting session data as CSV file
+ * Build CSV file content for a roast
  * 
- * @param beanName - Name of the coffee beans
- * @param chargeTemp - Initial charge temperature
- * @param finalTemp - Final roast temperature
- * @param unit - Temperature unit ('C' or 'F')
- * @param totalTime - Total roast time in seconds
- * @param firstCrackTime - Time of first crack in seconds (null if not recorded)
- * @param dtr - Development Time Ratio as percentage
- * @param temperatureData - Array of temperature data points
+ * The header block is parsed back by `parseRoastCSV` in importUtils, so any
+ * change to its labels must be mirrored there.
+ * 
+ * @param roast - Completed roast
+ * @param rorWindow - RoR window in seconds
+ * @param phaseThresholds - Fallback phase thresholds for unrecorded events
+ * @returns CSV content
  */
-export const exportToCSV = (
-  beanName: string,
-  chargeTemp: number,
-  finalTemp: number,
-  unit: 'C' | 'F',
-  totalTime: number,
-  firstCrackTime: number | null,
-  dtr: number,
-  temperatureData: TemperatureDataPoint[]
-): void => {
+export const createCSVContent = (
+  roast: SummaryData,
+  rorWindow: number = DEFAULT_ROR_WINDOW,
+  phaseThresholds: PhaseThresholds = DEFAULT_PHASE_THRESHOLDS
+): string => {
+  const { beanName, chargeTemp, unit, totalTime, firstCrackTime, temperatureData } = roast;
+  const { finalTemp, environmentTemp } = getTemperatureStats(roast);
+  const dtr = calculateDTR(firstCrackTime, totalTime);
+  const { phases } = analyzePhases(temperatureData, roast.events, totalTime, unit, phaseThresholds);
+  const weights = getRoastWeights(roast);
+  const formatGrams = (grams: number | null | undefined) => (grams != null ? `${grams} g` : 'N/A');
+  const { cupping } = roast;
+
+  const columns = ['Time (seconds)', `Temperature (°${unit})`, `RoR (°${unit}/min)`];
+  if (environmentTemp) {
+    columns.push(`ET (°${unit})`);
+  }
+
   const header = [
     'Session Summary',
     `Bean: ${beanName}`,
+    `Roast ID: ${roast.id}`,
+    `Roasted: ${roast.roastedAt}`,
+    `Recipe: ${roast.recipe ? formatRecipeRef(roast.recipe) : 'N/A'}`,
+    ...(roast.recipe ? [`Recipe ID: ${roast.recipe.id}`] : []),
     `Total Time: ${formatTime(totalTime)}`,
     `Charge Temp: ${chargeTemp.toFixed(1)}°${unit}`,
     `Final Temp: ${finalTemp.toFixed(1)}°${unit}`,
+    ...(environmentTemp ? [`Final ET: ${environmentTemp.finalTemp.toFixed(1)}°${unit}`] : []),
     `First Crack Time: ${firstCrackTime !== null ? formatTime(firstCrackTime) : 'N/A'}`,
     `Development Time Ratio: ${firstCrackTime !== null ? dtr.toFixed(1) + '%' : 'N/A'}`,
+    `Events: ${formatEventList(roast.events)}`,
+    `Phases: ${phases.length > 0 ? formatPhaseList(phases) : 'N/A'}`,
+    `Green Weight: ${formatGrams(roast.greenWeight)}`,
+    `Roasted Weight: ${formatGrams(roast.roastedWeight)}`,
+    `Weight Loss: ${weights ? weights.weightLoss.toFixed(1) + '%' : 'N/A'}`,
+    `Yield: ${weights ? weights.yield.toFixed(1) + '%' : 'N/A'}`,
+    ...(cupping ? [
+      `Agtron: ${cupping.agtron ?? 'N/A'}`,
+      `Roast Color: ${cupping.roastColor || 'N/A'}`,
+      `Rating: ${cupping.rating !== null ? cupping.rating + '/5' : 'N/A'}`,
+      `Cupping Score: ${cupping.scores ? calculateCuppingScore(cupping.scores).toFixed(2) : 'N/A'}`,
+      `Cupping Scores: ${cupping.scores ? formatScoreList(cupping.scores) : 'N/A'}`,
+      `Tasting Notes: ${cupping.notes.replace(/\s*\n\s*/g, ' ') || 'N/A'}`
+    ] : []),
+    `Edited: ${isEditedRoast(roast) ? `Yes (${getEditsSinceRevert(roast).length} edits)` : 'No'}`,
+    ...(roast.edits?.length ? [`Edit History: ${formatEditList(roast.edits)}`] : []),
+    `RoR Window: ${rorWindow}s`,
     '',
-    'Time (seconds),Temperature (°' + unit + ')'
+    columns.join(',')
   ].join('\n');
   
-  const dataRows = temperatureData.map(point => 
-    [point.time, point.temperature.toFixed(1)].join(',')
-  ).join('\n');
+  const dataRows = withRoR(temperatureData, rorWindow).map(point => {
+    const row = [point.time, point.temperature.toFixed(1), point.ror !== null ? point.ror.toFixed(1) : ''];
+    if (environmentTemp) {
+      row.push(point.environmentTemp !== undefined ? point.environmentTemp.toFixed(1) : '');
+    }
+    return row.join(',');
+  }).join('\n');
   
-  const csvContent = header + '\n' + dataRows;
-  downloadFile(csvContent, 'text/csv;charset=utf-8;', 'csv', beanName);
+  return header + '\n' + dataRows;
 };
 
 /**
- * Export roasting session data as JSON file
+ * Build JSON file content for a roast
  * 
- * @param beanName - Name of the coffee beans
- * @param chargeTemp - Initial charge temperature
- * @param finalTemp - Final roast temperature
- * @param minTemp - Minimum recorded temperature
- * @param maxTemp - Maximum recorded temperature
- * @param unit - Temperature unit ('C' or 'F')
- * @param totalTime - Total roast time in seconds
- * @param firstCrackTime - Time of first crack in seconds (null if not recorded)
- * @param dtr - Development Time Ratio as percentage
- * @param temperatureData - Array of temperature data points
+ * @param roast - Completed roast
+ * @param rorWindow - RoR window in seconds
+ * @param phaseThresholds - Fallback phase thresholds for unrecorded events
+ * @returns Pretty-printed JSON content
  */
-export const exportToJSON = (
-  beanName: string,
-  chargeTemp: number,
-  finalTemp: number,
-  minTemp: number,
-  maxTemp: number,
-  unit: 'C' | 'F',
-  totalTime: number,
-  firstCrackTime: number | null,
-  dtr: number,
-  temperatureData: TemperatureDataPoint[]
-): void => {
+export const createJSONContent = (
+  roast: SummaryData,
+  rorWindow: number = DEFAULT_ROR_WINDOW,
+  phaseThresholds: PhaseThresholds = DEFAULT_PHASE_THRESHOLDS
+): string => {
+  const { finalTemp, minTemp, maxTemp, environmentTemp } = getTemperatureStats(roast);
+  const dtr = calculateDTR(roast.firstCrackTime, roast.totalTime);
+  const { phases } = analyzePhases(roast.temperatureData, roast.events, roast.totalTime, roast.unit, phaseThresholds);
+  const weights = getRoastWeights(roast);
+
   const jsonData = {
-    beanName,
-    chargeTemp,
-    unit,
-    totalTime,
-    firstCrackTime,
-    developmentTimeRatio: firstCrackTime !== null ? dtr : null,
+    id: roast.id,
+    roastedAt: roast.roastedAt,
+    recipe: roast.recipe ?? null,
+    beanName: roast.beanName,
+    chargeTemp: roast.chargeTemp,
+    unit: roast.unit,
+    totalTime: roast.totalTime,
+    firstCrackTime: roast.firstCrackTime,
+    developmentTimeRatio: roast.firstCrackTime !== null ? dtr : null,
+    events: roast.events,
+    phases: phases.map(({ type, start, end, duration, percentage, startSource }) => ({
+      type, start, end, duration, percentage, startSource
+    })),
+    greenWeight: roast.greenWeight ?? null,
+    roastedWeight: roast.roastedWeight ?? null,
+    weightLoss: weights?.weightLoss ?? null,
+    yield: weights?.yield ?? null,
+    cupping: roast.cupping
+      ? { ...roast.cupping, totalScore: roast.cupping.scores ? calculateCuppingScore(roast.cupping.scores) : null }
+      : null,
+    edited: isEditedRoast(roast),
+    edits: roast.edits ?? [],
     finalTemperature: finalTemp,
     minTemperature: minTemp,
     maxTemperature: maxTemp,
-    temperatureData,
+    ...(environmentTemp && {
+      finalEnvironmentTemperature: environmentTemp.finalTemp,
+      minEnvironmentTemperature: environmentTemp.minTemp,
+      maxEnvironmentTemperature: environmentTemp.maxTemp
+    }),
+    rorWindowSeconds: rorWindow,
+    temperatureData: withRoR(roast.temperatureData, rorWindow),
     exportDate: new Date().toISOString()
   };
 
-  downloadFile(JSON.stringify(jsonData, null, 2), 'application/json', 'json', beanName);
+  return JSON.stringify(jsonData, null, 2);
+};
+
+/**
+ * Resample a roast's readings to one point per second
+ *
+ * @param roast - Roast with change-based readings
+ * @returns Roast with a reading for every second
+ */
+export const resampleRoast = (roast: SummaryData): SummaryData => {
+  return { ...roast, temperatureData: resampleToSeconds(roast.temperatureData) };
+};
+
+/**
+ * Export roasting session data as CSV file
+ * 
+ * @param roast - Completed roast to export
+ * @param rorWindow - RoR window in seconds
+ * @param unit - Temperature unit to write (defaults to the roast's unit)
+ * @param phaseThresholds - Fallback phase thresholds for unrecorded events
+ * @param perSecond - Write one row per second instead of the stored readings
+ */
+export const exportToCSV = (
+  roast: SummaryData,
+  rorWindow: number = DEFAULT_ROR_WINDOW,
+  unit: TemperatureUnit = roast.unit,
+  phaseThresholds: PhaseThresholds = DEFAULT_PHASE_THRESHOLDS,
+  perSecond: boolean = true
+): void => {
+  const exported = convertRoastUnit(perSecond ? resampleRoast(roast) : roast, unit);
+  downloadFile(createCSVContent(exported, rorWindow, phaseThresholds), 'text/csv;charset=utf-8;', 'csv', roast.beanName);
+};
+
+/**
+ * Export roasting session data as JSON file
+ * 
+ * @param roast - Completed roast to export
+ * @param rorWindow - RoR window in seconds
+ * @param unit - Temperature unit to write (defaults to the roast's unit)
+ * @param phaseThresholds - Fallback phase thresholds for unrecorded events
+ * @param perSecond - Write one data point per second instead of the stored readings
+ */
+export const exportToJSON = (
+  roast: SummaryData,
+  rorWindow: number = DEFAULT_ROR_WINDOW,
+  unit: TemperatureUnit = roast.unit,
+  phaseThresholds: PhaseThresholds = DEFAULT_PHASE_THRESHOLDS,
+  perSecond: boolean = true
+): void => {
+  const exported = convertRoastUnit(perSecond ? resampleRoast(roast) : roast, unit);
+  downloadFile(createJSONContent(exported, rorWindow, phaseThresholds), 'application/json', 'json', roast.beanName);
+};
+
+/**
+ * Export roasting session data as an Artisan profile (.alog) file, sampled
+ * once per second as Artisan expects
+ * 
+ * @param roast - Completed roast to export
+ * @param unit - Temperature unit to write (defaults to the roast's unit)
+ */
+export const exportToArtisan = (roast: SummaryData, unit: TemperatureUnit = roast.unit): void => {
+  downloadFile(createArtisanContent(convertRoastUnit(resampleRoast(roast), unit)), 'text/plain;charset=utf-8;', 'alog', roast.beanName);
 };
 
 /**
@@ -115,11 +249,31 @@ export const exportToJSON = (
  * @param beanName - Bean name for filename
  */
 const downloadFile = (content: string, mimeType: string, extension: string, beanName: string): void => {
-  const blob = new Blob([content], { type: mimeType });
+  downloadBlob(new Blob([content], { type: mimeType }), extension, beanName);
+};
+
+/**
+ * Trigger download of binary or prepared content (e.g., chart images) in browser
+ * 
+ * @param blob - File content
+ * @param extension - File extension (without dot)
+ * @param beanName - Bean name for filename
+ */
+export const downloadBlob = (blob: Blob, extension: string, beanName: string): void => {
+  saveBlob(blob, `${beanName}_roast_${new Date().toISOString().slice(0, 10)}.${extension}`);
+};
+
+/**
+ * Trigger download of a file with the given name in browser
+ * 
+ * @param blob - File content
+ * @param fileName - Name of the downloaded file
+ */
+export const saveBlob = (blob: Blob, fileName: string): void => {
   const link = document.createElement('a');
   const url = URL.createObjectURL(blob);
   link.href = url;
-  link.download = `${beanName}_roast_${new Date().toISOString().slice(0, 10)}.${extension}`;
+  link.download = fileName;
   link.style.visibility = 'hidden';
   document.body.appendChild(link);
   link.click();
@@ -0,0 +1,19 @@
+/**
+ * Formatting Utilities
+ *
+ * Formats values for display, labels and exports. Kept free of other app
+ * modules so any utility can import it.
+ */
+
+/**
+ * Format seconds into MM:SS format (fractional seconds are truncated)
+ * 
+ * @param totalSeconds - Time in seconds
+ * @returns Formatted string (e.g., "05:23")
+ */
+export const formatTime = (totalSeconds: number): string => {
+  const wholeSeconds = Math.floor(totalSeconds);
+  const mins = Math.floor(wholeSeconds / 60);
+  const secs = wholeSeconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
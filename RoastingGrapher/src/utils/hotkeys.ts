@@ -0,0 +1,129 @@
+/**
+ * Hotkey Utilities
+ *
+ * Keyboard shortcuts for the roasting screen: the bindable actions, their
+ * default keys, persistence of customized bindings, and key matching.
+ */
+import { readSetting, writeSetting } from './storage';
+
+/**
+ * Action that can be triggered from the keyboard during a roast
+ */
+export type HotkeyAction = 'temperatureUp' | 'temperatureDown' | 'firstCrack' | 'end';
+
+/**
+ * Key bound to each action (`KeyboardEvent.key`, letters in lower case)
+ */
+export type HotkeyBindings = Record<HotkeyAction, string>;
+
+/**
+ * Bindable actions in cheat sheet order
+ */
+export const HOTKEY_ACTIONS: { action: HotkeyAction; label: string }[] = [
+  { action: 'temperatureUp', label: 'Temperature up' },
+  { action: 'temperatureDown', label: 'Temperature down' },
+  { action: 'firstCrack', label: 'First crack' },
+  { action: 'end', label: 'End roast' }
+];
+
+export const DEFAULT_HOTKEYS: HotkeyBindings = {
+  temperatureUp: 'ArrowUp',
+  temperatureDown: 'ArrowDown',
+  firstCrack: 'f',
+  end: 'End'
+};
+
+/** Actions that may repeat while their key is held down */
+const REPEATABLE_ACTIONS: HotkeyAction[] = ['temperatureUp', 'temperatureDown'];
+
+export const HOTKEYS_STORAGE_KEY = 'roast_hotkeys';
+
+/** Display names of keys without a printable character */
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ' ': 'Space',
+  PageUp: 'Page Up',
+  PageDown: 'Page Down'
+};
+
+/**
+ * Normalize a key so letters match regardless of Shift/Caps Lock
+ */
+export const normalizeKey = (key: string): string => (key.length === 1 ? key.toLowerCase() : key);
+
+/**
+ * Format a key for display (e.g., "ArrowUp" → "↑", "f" → "F")
+ */
+export const formatHotkey = (key: string): string => KEY_NAMES[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+
+/**
+ * Load the saved key bindings, falling back to the defaults
+ *
+ * @returns Key bindings for every action
+ */
+export const loadHotkeys = (): HotkeyBindings => {
+  try {
+    const saved = (readSetting(HOTKEYS_STORAGE_KEY) ?? {}) as Partial<HotkeyBindings>;
+    const bindings = { ...DEFAULT_HOTKEYS };
+    HOTKEY_ACTIONS.forEach(({ action }) => {
+      if (typeof saved[action] === 'string' && saved[action]) bindings[action] = saved[action];
+    });
+    return bindings;
+  } catch (error) {
+    console.error('Failed to load hotkeys:', error);
+    return { ...DEFAULT_HOTKEYS };
+  }
+};
+
+/**
+ * Save customized key bindings
+ *
+ * @param bindings - Key bindings for every action
+ */
+export const saveHotkeys = (bindings: HotkeyBindings): void => {
+  writeSetting(HOTKEYS_STORAGE_KEY, bindings);
+};
+
+/**
+ * Bind a key to an action; an action already using the key takes over the
+ * action's previous key so no key triggers two actions
+ *
+ * @param bindings - Current key bindings
+ * @param action - Action to rebind
+ * @param key - New key
+ * @returns Updated key bindings
+ */
+export const bindHotkey = (bindings: HotkeyBindings, action: HotkeyAction, key: string): HotkeyBindings => {
+  const normalized = normalizeKey(key);
+  const updated = { ...bindings };
+  const conflict = HOTKEY_ACTIONS.find(({ action: other }) => other !== action && bindings[other] === normalized);
+  if (conflict) updated[conflict.action] = bindings[action];
+  updated[action] = normalized;
+  return updated;
+};
+
+/**
+ * Whether a key event comes from a text field, where keys must not trigger actions
+ */
+export const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Find the action bound to a key event
+ *
+ * @param bindings - Current key bindings
+ * @param event - Key event
+ * @returns Bound action, or null if the key is unbound or should be ignored
+ */
+export const getHotkeyAction = (bindings: HotkeyBindings, event: KeyboardEvent): HotkeyAction | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) return null;
+  const key = normalizeKey(event.key);
+  const match = HOTKEY_ACTIONS.find(({ action }) => bindings[action] === key);
+  if (!match || (event.repeat && !REPEATABLE_ACTIONS.includes(match.action))) return null;
+  return match.action;
+};
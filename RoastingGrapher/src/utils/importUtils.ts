@@ -0,0 +1,553 @@
+/**
+ * Import Utilities
+ *
+ * Parses roast files previously written by `exportToCSV` and `exportToJSON`
+ * back into summary data, reporting line-level problems for malformed input.
+ * Artisan profiles (.alog or Artisan JSON) are handed to artisanUtils.
+ */
+
+import type { CuppingResult, RecipeRef, RoastEdit, RoastEvent, SummaryData, TemperatureDataPoint, TemperatureUnit } from '../types';
+import { parseArtisanProfile } from './artisanUtils';
+import { ROAST_EVENTS, createLegacyEvents, getEventTime, parseEventList, sortEvents } from './roastEvents';
+import { createRoastId } from './roastHistory';
+import { parseWeight } from './weightLoss';
+import { MAX_RATING, createEmptyCupping, parseScoreList } from './cupping';
+import { parseEditList } from './roastEditing';
+import { parseRecipeRef } from './recipes';
+
+/**
+ * A problem found while parsing a roast file
+ */
+export interface ImportIssue {
+  /** 1-based line number in the file, when the problem can be located */
+  line?: number;
+  message: string;
+}
+
+/**
+ * Result of parsing a roast file
+ */
+export interface ImportResult {
+  /** Parsed roast, or null when the file contains errors */
+  roast: SummaryData | null;
+  errors: ImportIssue[];
+  warnings: ImportIssue[];
+}
+
+/**
+ * Parse a MM:SS time string into seconds
+ *
+ * @param value - Time string (e.g., "05:23")
+ * @returns Time in seconds, or null if the value is not a valid time
+ */
+export const parseTime = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+):([0-5]\d)$/);
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+};
+
+/**
+ * Parse a temperature string such as "180.0°C"
+ *
+ * @param value - Temperature string
+ * @returns Temperature value and unit, or null if the value is not a valid temperature
+ */
+const parseTemperature = (value: string): { temperature: number; unit: TemperatureUnit } | null => {
+  const match = value.trim().match(/^(-?\d+(?:\.\d+)?)\s*°?\s*([CF])$/i);
+  if (!match) return null;
+  return { temperature: parseFloat(match[1]), unit: match[2].toUpperCase() as TemperatureUnit };
+};
+
+/**
+ * Validate a single temperature data point
+ *
+ * @param time - Time value to validate
+ * @param temperature - Temperature value to validate
+ * @param previousTime - Time of the previous valid point, if any
+ * @returns Error message, or null if the point is valid
+ */
+const validateDataPoint = (time: number, temperature: number, previousTime: number | null): string | null => {
+  if (!Number.isFinite(time) || time < 0) return 'time must be a non-negative number';
+  if (!Number.isFinite(temperature)) return 'temperature must be a number';
+  if (previousTime !== null && time < previousTime) return `time ${time} is earlier than the previous point (${previousTime})`;
+  return null;
+};
+
+/**
+ * Parse the contents of a CSV file written by `exportToCSV`
+ *
+ * @param text - CSV file contents
+ * @returns Parsed roast with any errors and warnings
+ */
+export const parseRoastCSV = (text: string): ImportResult => {
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  // Header block: "Label: value" lines up to the column header row
+  const header: Record<string, { value: string; line: number }> = {};
+  let columnLineIndex = -1;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (/^time\b.*,\s*temperature/i.test(line)) {
+      columnLineIndex = i;
+      break;
+    }
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      header[line.slice(0, separator).trim().toLowerCase()] = { value: line.slice(separator + 1).trim(), line: i + 1 };
+    }
+  }
+
+  if (columnLineIndex === -1) {
+    errors.push({ message: 'Missing "Time (seconds),Temperature" column header row' });
+    return { roast: null, errors, warnings };
+  }
+
+  // Bean name
+  const beanName = header['bean']?.value ?? '';
+  if (!beanName) {
+    errors.push({ line: header['bean']?.line, message: 'Missing "Bean:" line' });
+  }
+
+  // Unit from the column header, falling back to the charge temperature
+  const columnUnit = lines[columnLineIndex].match(/°\s*([CF])/i)?.[1].toUpperCase() as TemperatureUnit | undefined;
+
+  // Optional environment temperature column (files without it only carry BT)
+  const envColumn = lines[columnLineIndex].split(',').findIndex(column => /^\s*ET\b/i.test(column));
+
+  // Charge temperature
+  let chargeTemp: number | null = null;
+  let unit: TemperatureUnit | undefined = columnUnit;
+  const chargeEntry = header['charge temp'];
+  if (!chargeEntry) {
+    errors.push({ message: 'Missing "Charge Temp:" line' });
+  } else {
+    const parsed = parseTemperature(chargeEntry.value);
+    if (!parsed) {
+      errors.push({ line: chargeEntry.line, message: `Invalid charge temperature "${chargeEntry.value}"` });
+    } else {
+      chargeTemp = parsed.temperature;
+      if (unit && parsed.unit !== unit) {
+        errors.push({ line: chargeEntry.line, message: `Charge temperature unit °${parsed.unit} does not match data unit °${unit}` });
+      }
+      unit = unit ?? parsed.unit;
+    }
+  }
+  if (!unit) {
+    errors.push({ line: columnLineIndex + 1, message: 'Temperature unit (°C or °F) not found' });
+  }
+
+  // First crack time
+  let firstCrackTime: number | null = null;
+  const firstCrackEntry = header['first crack time'];
+  if (firstCrackEntry && firstCrackEntry.value.toUpperCase() !== 'N/A') {
+    firstCrackTime = parseTime(firstCrackEntry.value);
+    if (firstCrackTime === null) {
+      errors.push({ line: firstCrackEntry.line, message: `Invalid first crack time "${firstCrackEntry.value}"` });
+    }
+  }
+
+  // Data rows
+  const temperatureData: TemperatureDataPoint[] = [];
+  for (let i = columnLineIndex + 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+    const fields = line.split(',');
+    if (fields.length < 2) {
+      errors.push({ line: i + 1, message: `Expected "time,temperature" but found "${line}"` });
+      continue;
+    }
+    const time = Number(fields[0]);
+    const temperature = Number(fields[1]);
+    const previousTime = temperatureData.length > 0 ? temperatureData[temperatureData.length - 1].time : null;
+    const problem = fields[0].trim() === '' || fields[1].trim() === ''
+      ? 'empty value'
+      : validateDataPoint(time, temperature, previousTime);
+    if (problem) {
+      errors.push({ line: i + 1, message: `Invalid data row "${line}": ${problem}` });
+      continue;
+    }
+    const point: TemperatureDataPoint = { time, temperature };
+    const envValue = envColumn > 0 ? fields[envColumn]?.trim() : '';
+    if (envValue) {
+      const environmentTemp = Number(envValue);
+      if (!Number.isFinite(environmentTemp)) {
+        errors.push({ line: i + 1, message: `Invalid data row "${line}": ET must be a number` });
+        continue;
+      }
+      point.environmentTemp = environmentTemp;
+    }
+    temperatureData.push(point);
+  }
+  if (temperatureData.length === 0) {
+    errors.push({ message: 'No temperature data rows found' });
+  }
+
+  // Total time, falling back to the last data point
+  const lastTime = temperatureData.length > 0 ? temperatureData[temperatureData.length - 1].time : 0;
+  let totalTime = lastTime;
+  const totalEntry = header['total time'];
+  if (totalEntry) {
+    const parsed = parseTime(totalEntry.value);
+    if (parsed === null) {
+      errors.push({ line: totalEntry.line, message: `Invalid total time "${totalEntry.value}"` });
+    } else {
+      totalTime = parsed;
+    }
+  } else {
+    warnings.push({ message: 'Missing "Total Time:" line; using the last data point time' });
+  }
+
+  if (firstCrackTime !== null && firstCrackTime > totalTime) {
+    errors.push({ line: firstCrackEntry?.line, message: 'First crack time is after the end of the roast' });
+  }
+
+  // Roast events (files exported before events existed only carry first crack)
+  let events: RoastEvent[] = [];
+  const eventsEntry = header['events'];
+  if (eventsEntry) {
+    const parsed = parseEventList(eventsEntry.value);
+    if ('error' in parsed) {
+      errors.push({ line: eventsEntry.line, message: parsed.error });
+    } else {
+      events = parsed.events;
+    }
+  } else {
+    events = createLegacyEvents(temperatureData, totalTime, firstCrackTime);
+  }
+
+  // Batch weights ("N/A" when not recorded)
+  const readWeight = (label: string): number | null => {
+    const entry = header[label];
+    if (!entry || entry.value === 'N/A') return null;
+    const weight = parseWeight(entry.value);
+    if (weight === null) {
+      warnings.push({ line: entry.line, message: `Invalid ${label} "${entry.value}" ignored` });
+    }
+    return weight;
+  };
+  const greenWeight = readWeight('green weight');
+  const roastedWeight = readWeight('roasted weight');
+
+  // Cupping results (present only once the roast was cupped)
+  let cupping: CuppingResult | null = null;
+  if (header['tasting notes'] || header['cupping scores'] || header['agtron']) {
+    cupping = createEmptyCupping();
+    const text = (label: string) => {
+      const value = header[label]?.value ?? '';
+      return value === 'N/A' ? '' : value;
+    };
+    const agtron = parseFloat(text('agtron'));
+    cupping.agtron = isNaN(agtron) ? null : agtron;
+    cupping.roastColor = text('roast color');
+    cupping.notes = text('tasting notes');
+    const rating = parseInt(text('rating'), 10);
+    cupping.rating = rating >= 1 && rating <= MAX_RATING ? rating : null;
+    const scoresEntry = header['cupping scores'];
+    if (scoresEntry && scoresEntry.value !== 'N/A') {
+      const parsed = parseScoreList(scoresEntry.value);
+      if ('error' in parsed) {
+        warnings.push({ line: scoresEntry.line, message: `${parsed.error}; cupping scores ignored` });
+      } else {
+        cupping.scores = parsed.scores;
+      }
+    }
+  }
+
+  // Audit trail of post-roast edits (the data as recorded is not exported, so it cannot be reverted)
+  let edits: RoastEdit[] = [];
+  const editsEntry = header['edit history'];
+  if (editsEntry) {
+    const parsed = parseEditList(editsEntry.value);
+    if ('error' in parsed) {
+      warnings.push({ line: editsEntry.line, message: `${parsed.error}; edit history ignored` });
+    } else {
+      edits = parsed.edits;
+    }
+  }
+
+  // Recipe the roast was started from ("N/A" when none)
+  let recipe: RecipeRef | null = null;
+  const recipeEntry = header['recipe'];
+  if (recipeEntry && recipeEntry.value !== 'N/A') {
+    const recipeId = header['recipe id']?.value;
+    recipe = recipeId ? parseRecipeRef(recipeEntry.value, recipeId) : null;
+    if (!recipe) {
+      warnings.push({ line: recipeEntry.line, message: `Recipe "${recipeEntry.value}" could not be read; recipe reference ignored` });
+    }
+  }
+
+  if (errors.length > 0 || chargeTemp === null || !unit) {
+    return { roast: null, errors, warnings };
+  }
+
+  return {
+    roast: {
+      id: header['roast id']?.value || createRoastId(),
+      roastedAt: parseRoastedAt(header['roasted']?.value),
+      beanName,
+      chargeTemp,
+      unit,
+      temperatureData,
+      totalTime,
+      firstCrackTime: firstCrackTime ?? getEventTime(events, 'firstCrackStart'),
+      events,
+      greenWeight,
+      roastedWeight,
+      cupping,
+      edits,
+      recipe
+    },
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Parse the contents of a JSON file written by `exportToJSON`
+ *
+ * @param text - JSON file contents
+ * @returns Parsed roast with any errors and warnings
+ */
+export const parseRoastJSON = (text: string): ImportResult => {
+  const errors: ImportIssue[] = [];
+  const warnings: ImportIssue[] = [];
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const position = message.match(/position (\d+)/)?.[1];
+    const line = position !== undefined ? text.slice(0, parseInt(position, 10)).split('\n').length : undefined;
+    errors.push({ line, message: `Invalid JSON: ${message}` });
+    return { roast: null, errors, warnings };
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    errors.push({ message: 'Expected a JSON object' });
+    return { roast: null, errors, warnings };
+  }
+  const record = data as Record<string, unknown>;
+
+  if (typeof record.beanName !== 'string' || !record.beanName.trim()) {
+    errors.push({ message: '"beanName" must be a non-empty string' });
+  }
+  if (typeof record.chargeTemp !== 'number' || !Number.isFinite(record.chargeTemp)) {
+    errors.push({ message: '"chargeTemp" must be a number' });
+  }
+  if (record.unit !== 'C' && record.unit !== 'F') {
+    errors.push({ message: '"unit" must be "C" or "F"' });
+  }
+  if (record.firstCrackTime !== null && record.firstCrackTime !== undefined && typeof record.firstCrackTime !== 'number') {
+    errors.push({ message: '"firstCrackTime" must be a number or null' });
+  }
+
+  const temperatureData: TemperatureDataPoint[] = [];
+  if (!Array.isArray(record.temperatureData)) {
+    errors.push({ message: '"temperatureData" must be an array' });
+  } else {
+    record.temperatureData.forEach((point: unknown, index: number) => {
+      const entry = (typeof point === 'object' && point !== null ? point : {}) as Record<string, unknown>;
+      const previousTime = temperatureData.length > 0 ? temperatureData[temperatureData.length - 1].time : null;
+      const problem = typeof entry.time !== 'number' || typeof entry.temperature !== 'number'
+        ? 'expected { "time": number, "temperature": number }'
+        : entry.environmentTemp !== undefined && (typeof entry.environmentTemp !== 'number' || !Number.isFinite(entry.environmentTemp))
+          ? '"environmentTemp" must be a number'
+          : validateDataPoint(entry.time, entry.temperature, previousTime);
+      if (problem) {
+        errors.push({ line: findJSONLine(text, index), message: `temperatureData[${index}]: ${problem}` });
+        return;
+      }
+      const dataPoint: TemperatureDataPoint = { time: entry.time as number, temperature: entry.temperature as number };
+      if (typeof entry.environmentTemp === 'number') {
+        dataPoint.environmentTemp = entry.environmentTemp;
+      }
+      temperatureData.push(dataPoint);
+    });
+    if (record.temperatureData.length === 0) {
+      errors.push({ message: '"temperatureData" is empty' });
+    }
+  }
+
+  const lastTime = temperatureData.length > 0 ? temperatureData[temperatureData.length - 1].time : 0;
+  let totalTime = lastTime;
+  if (typeof record.totalTime === 'number' && Number.isFinite(record.totalTime) && record.totalTime >= 0) {
+    totalTime = record.totalTime;
+  } else {
+    warnings.push({ message: '"totalTime" missing or invalid; using the last data point time' });
+  }
+
+  const firstCrackTime = typeof record.firstCrackTime === 'number' ? record.firstCrackTime : null;
+  if (firstCrackTime !== null && (firstCrackTime < 0 || firstCrackTime > totalTime)) {
+    errors.push({ message: '"firstCrackTime" must be between 0 and the total time' });
+  }
+
+  let events: RoastEvent[] = [];
+  if (Array.isArray(record.events)) {
+    record.events.forEach((event: unknown, index: number) => {
+      const entry = (typeof event === 'object' && event !== null ? event : {}) as Record<string, unknown>;
+      if (!ROAST_EVENTS.some(definition => definition.type === entry.type) || typeof entry.time !== 'number' || typeof entry.temperature !== 'number') {
+        errors.push({ message: `events[${index}]: expected { "type": event type, "time": number, "temperature": number }` });
+        return;
+      }
+      events.push({ type: entry.type as RoastEvent['type'], time: entry.time, temperature: entry.temperature });
+    });
+    events = sortEvents(events);
+  } else {
+    events = createLegacyEvents(temperatureData, totalTime, firstCrackTime);
+  }
+
+  const readWeight = (key: 'greenWeight' | 'roastedWeight'): number | null => {
+    const value = record[key];
+    if (value === null || value === undefined) return null;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      warnings.push({ message: `"${key}" must be a non-negative number; ignored` });
+      return null;
+    }
+    return value;
+  };
+
+  // Cupping results are kept when well-formed, otherwise dropped with a warning
+  let cupping: CuppingResult | null = null;
+  if (typeof record.cupping === 'object' && record.cupping !== null) {
+    const entry = record.cupping as Record<string, unknown>;
+    const scores = entry.scores as Record<string, unknown> | null | undefined;
+    if (typeof entry.notes === 'string' && (scores === null || scores === undefined || (typeof scores.attributes === 'object' && typeof scores.defects === 'number'))) {
+      cupping = {
+        ...createEmptyCupping(),
+        agtron: typeof entry.agtron === 'number' ? entry.agtron : null,
+        roastColor: typeof entry.roastColor === 'string' ? entry.roastColor : '',
+        notes: entry.notes,
+        scores: scores ? entry.scores as CuppingResult['scores'] : null,
+        rating: typeof entry.rating === 'number' ? entry.rating : null,
+        ...(typeof entry.updatedAt === 'string' && { updatedAt: entry.updatedAt })
+      };
+    } else {
+      warnings.push({ message: '"cupping" is malformed; cupping results ignored' });
+    }
+  }
+
+  // Audit trail of post-roast edits (the data as recorded is not exported, so it cannot be reverted)
+  let edits: RoastEdit[] = [];
+  if (Array.isArray(record.edits)) {
+    edits = record.edits.filter((edit): edit is RoastEdit => (
+      typeof edit === 'object' && edit !== null &&
+      typeof edit.type === 'string' && typeof edit.editedAt === 'string' && typeof edit.description === 'string'
+    ));
+    if (edits.length !== record.edits.length) {
+      warnings.push({ message: `${record.edits.length - edits.length} malformed edit history entries ignored` });
+    }
+  }
+
+  // Recipe the roast was started from, kept when well-formed
+  let recipe: RecipeRef | null = null;
+  if (typeof record.recipe === 'object' && record.recipe !== null) {
+    const entry = record.recipe as Record<string, unknown>;
+    if (typeof entry.id === 'string' && typeof entry.name === 'string' && typeof entry.revision === 'number') {
+      recipe = { id: entry.id, name: entry.name, revision: entry.revision, ...(entry.modified === true && { modified: true }) };
+    } else {
+      warnings.push({ message: '"recipe" is malformed; recipe reference ignored' });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { roast: null, errors, warnings };
+  }
+
+  return {
+    roast: {
+      id: typeof record.id === 'string' && record.id ? record.id : createRoastId(),
+      roastedAt: parseRoastedAt(typeof record.roastedAt === 'string' ? record.roastedAt : typeof record.exportDate === 'string' ? record.exportDate : undefined),
+      beanName: (record.beanName as string).trim(),
+      chargeTemp: record.chargeTemp as number,
+      unit: record.unit as TemperatureUnit,
+      temperatureData,
+      totalTime,
+      firstCrackTime: firstCrackTime ?? getEventTime(events, 'firstCrackStart'),
+      events,
+      greenWeight: readWeight('greenWeight'),
+      roastedWeight: readWeight('roastedWeight'),
+      cupping,
+      edits,
+      recipe
+    },
+    errors,
+    warnings
+  };
+};
+
+/**
+ * Read a roast file chosen by the user and parse it according to its format
+ *
+ * @param file - File selected in a file input
+ * @returns Parsed roast with any errors and warnings
+ */
+export const importRoastFile = async (file: File): Promise<ImportResult> => {
+  const text = await file.text();
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.alog')) {
+    return parseArtisanProfile(text);
+  }
+  if (name.endsWith('.json') || (!name.endsWith('.csv') && text.trimStart().startsWith('{'))) {
+    // Artisan JSON exports carry the sample times in "timex"
+    return /"timex"\s*:/.test(text) ? parseArtisanProfile(text) : parseRoastJSON(text);
+  }
+  if (name.endsWith('.csv') || text.startsWith('Session Summary')) {
+    return parseRoastCSV(text);
+  }
+  return {
+    roast: null,
+    errors: [{ message: `Unsupported file type "${file.name}" (expected .csv, .json or .alog)` }],
+    warnings: []
+  };
+};
+
+/**
+ * Prepare an imported roast to replace the library copy with the same id.
+ * Roast files do not carry the lot or the data as recorded, and CSV files
+ * may lack the recipe and edit history, so those are kept from the library.
+ *
+ * @param imported - Roast parsed from the file
+ * @param saved - Roast in the library with the same id
+ * @returns The imported roast with the library-only fields filled in
+ */
+export const mergeWithSavedRoast = (imported: SummaryData, saved: SummaryData): SummaryData => {
+  const merged: SummaryData = { ...imported, lotId: saved.lotId ?? null };
+  if (!imported.recipe && saved.recipe) merged.recipe = saved.recipe;
+  if (!imported.edits?.length && saved.edits?.length) merged.edits = saved.edits;
+  if (!imported.original && saved.original) merged.original = saved.original;
+  return merged;
+};
+
+/**
+ * Format an import issue for display
+ *
+ * @param issue - Import problem
+ * @returns Human-readable message with line number when available
+ */
+export const formatImportIssue = (issue: ImportIssue): string => {
+  return issue.line !== undefined ? `Line ${issue.line}: ${issue.message}` : issue.message;
+};
+
+/**
+ * Normalize an optional roast date string to an ISO timestamp
+ */
+const parseRoastedAt = (value: string | undefined): string => {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : new Date().toISOString();
+};
+
+/**
+ * Find the line of the nth object in the "temperatureData" array of pretty-printed JSON
+ */
+const findJSONLine = (text: string, index: number): number | undefined => {
+  const arrayStart = text.indexOf('"temperatureData"');
+  if (arrayStart === -1) return undefined;
+  let position = text.indexOf('[', arrayStart);
+  for (let i = 0; i <= index && position !== -1; i++) {
+    position = text.indexOf('{', position + 1);
+  }
+  return position === -1 ? undefined : text.slice(0, position).split('\n').length;
+};
@@ -0,0 +1,109 @@
+/**
+ * Green Coffee Inventory
+ *
+ * Persists green coffee lots in the local database (IndexedDB), deducts
+ * batch weights when roasts complete, and links lots to their roasts.
+ */
+import type { GreenCoffeeLot, SummaryData } from '../types';
+import { LOTS_STORE, requestToPromise, withStore } from './database';
+
+/** Default remaining weight (grams) below which a lot is low on stock */
+export const DEFAULT_LOW_STOCK_WEIGHT = 1000;
+
+/**
+ * Creates a new unique lot identifier
+ */
+export const createLotId = (): string => crypto.randomUUID();
+
+/**
+ * Creates an empty lot with default values
+ *
+ * @returns New lot (not yet saved)
+ */
+export const createEmptyLot = (): GreenCoffeeLot => ({
+  id: createLotId(),
+  name: '',
+  origin: '',
+  process: '',
+  variety: '',
+  moisture: null,
+  density: null,
+  purchasePrice: null,
+  remainingWeight: 0,
+  lowStockWeight: DEFAULT_LOW_STOCK_WEIGHT,
+  createdAt: new Date().toISOString()
+});
+
+/**
+ * Saves a lot, replacing any existing lot with the same id
+ *
+ * @param lot - Lot to save
+ */
+export const saveLot = async (lot: GreenCoffeeLot): Promise<void> => {
+  await withStore(LOTS_STORE, 'readwrite', store => requestToPromise(store.put(lot)));
+};
+
+/**
+ * Loads every lot in the inventory, sorted by name
+ *
+ * @returns All lots
+ */
+export const getAllLots = async (): Promise<GreenCoffeeLot[]> => {
+  const lots = await withStore(LOTS_STORE, 'readonly', store => requestToPromise(store.getAll() as IDBRequest<GreenCoffeeLot[]>));
+  return lots.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Deletes a lot from the inventory (its roasts are kept)
+ *
+ * @param id - Lot identifier
+ */
+export const deleteLot = async (id: string): Promise<void> => {
+  await withStore(LOTS_STORE, 'readwrite', store => requestToPromise(store.delete(id)));
+};
+
+/**
+ * Deducts a roasted batch from a lot's remaining weight (never below zero)
+ *
+ * @param id - Lot identifier
+ * @param weight - Green batch weight in grams
+ * @returns The updated lot and the grams the batch exceeded the stock by (0 when
+ *   the stock covered it), or null if the lot no longer exists
+ */
+export const deductLotWeight = async (id: string, weight: number): Promise<{ lot: GreenCoffeeLot; shortfall: number } | null> => {
+  return withStore(LOTS_STORE, 'readwrite', async store => {
+    const lot = await requestToPromise(store.get(id) as IDBRequest<GreenCoffeeLot | undefined>);
+    if (!lot) return null;
+    const updated = { ...lot, remainingWeight: Math.max(0, lot.remainingWeight - weight) };
+    await requestToPromise(store.put(updated));
+    return { lot: updated, shortfall: Math.max(0, weight - lot.remainingWeight) };
+  });
+};
+
+/**
+ * Check whether a lot is low on stock
+ */
+export const isLowStock = (lot: GreenCoffeeLot): boolean => lot.remainingWeight < lot.lowStockWeight;
+
+/**
+ * Get the roasts made from a lot, newest first
+ *
+ * @param roasts - Roasts from the library
+ * @param lotId - Lot identifier
+ * @returns Roasts of the lot
+ */
+export const getLotRoasts = (roasts: SummaryData[], lotId: string): SummaryData[] => {
+  return roasts
+    .filter(roast => roast.lotId === lotId)
+    .sort((a, b) => b.roastedAt.localeCompare(a.roastedAt));
+};
+
+/**
+ * Format a weight in grams for display (kilograms from 1 kg)
+ *
+ * @param grams - Weight in grams
+ * @returns Formatted weight (e.g., "850 g", "2.35 kg")
+ */
+export const formatWeight = (grams: number): string => {
+  return grams >= 1000 ? `${(grams / 1000).toFixed(2)} kg` : `${Math.round(grams)} g`;
+};
@@ -0,0 +1,206 @@
+/**
+ * Roast Phase Analysis
+ *
+ * Splits a roast into the classic three phases:
+ * - drying: charge to yellowing (dry end)
+ * - Maillard: yellowing to first crack
+ * - development: first crack to drop
+ *
+ * Phase boundaries come from the recorded dry end and first crack events.
+ * When an event was not recorded, the boundary falls back to the time the
+ * bean temperature first reaches a configurable threshold.
+ */
+import type { RoastEvent, TemperatureDataPoint, TemperatureUnit } from '../types';
+import { getEventTime } from './roastEvents';
+import { formatTime } from './format';
+import { convertTemperature } from './unitConversion';
+import { readSetting, writeSetting } from './storage';
+
+export type RoastPhaseType = 'drying' | 'maillard' | 'development';
+
+/**
+ * Display configuration for a roast phase
+ */
+export interface RoastPhaseDefinition {
+  type: RoastPhaseType;
+  label: string;
+  /** Bar and chart color */
+  color: string;
+}
+
+/**
+ * Roast phases in roast order
+ */
+export const ROAST_PHASES: RoastPhaseDefinition[] = [
+  { type: 'drying', label: 'Drying', color: '#9acd32' },
+  { type: 'maillard', label: 'Maillard', color: '#daa06d' },
+  { type: 'development', label: 'Development', color: '#7b3f00' }
+];
+
+/**
+ * Bean temperatures (in Celsius) marking the phase boundaries when the
+ * corresponding event was not recorded
+ */
+export interface PhaseThresholds {
+  /** Yellowing (dry end) temperature */
+  yellowing: number;
+  /** First crack temperature */
+  firstCrack: number;
+}
+
+export const DEFAULT_PHASE_THRESHOLDS: PhaseThresholds = { yellowing: 150, firstCrack: 196 };
+
+export const PHASE_THRESHOLDS_STORAGE_KEY = 'roast_phase_thresholds';
+
+/**
+ * How a phase boundary was determined
+ * - event: from a recorded roast event
+ * - threshold: from the bean temperature reaching a threshold
+ */
+export type PhaseBoundarySource = 'event' | 'threshold';
+
+/**
+ * Single phase of a roast
+ */
+export interface RoastPhase extends RoastPhaseDefinition {
+  /** Phase start in seconds since the timer started */
+  start: number;
+  /** Phase end in seconds (the current time for a phase still in progress) */
+  end: number;
+  /** Phase length in seconds */
+  duration: number;
+  /** Share of the roast time since charge, as a percentage */
+  percentage: number;
+  /** How the phase start was determined (drying always starts at charge) */
+  startSource: PhaseBoundarySource | null;
+}
+
+/**
+ * Phase breakdown of a roast; phases that have not been reached are omitted
+ */
+export interface PhaseAnalysis {
+  phases: RoastPhase[];
+  /** Yellowing time in seconds (null if not reached) */
+  yellowingTime: number | null;
+  /** First crack time in seconds (null if not reached) */
+  firstCrackTime: number | null;
+}
+
+/**
+ * Load the saved phase thresholds, falling back to the defaults
+ *
+ * @returns Phase thresholds in Celsius
+ */
+export const loadPhaseThresholds = (): PhaseThresholds => {
+  try {
+    const saved = (readSetting(PHASE_THRESHOLDS_STORAGE_KEY) ?? {}) as Partial<PhaseThresholds>;
+    return {
+      yellowing: typeof saved.yellowing === 'number' ? saved.yellowing : DEFAULT_PHASE_THRESHOLDS.yellowing,
+      firstCrack: typeof saved.firstCrack === 'number' ? saved.firstCrack : DEFAULT_PHASE_THRESHOLDS.firstCrack
+    };
+  } catch (error) {
+    console.error('Failed to load phase thresholds:', error);
+    return { ...DEFAULT_PHASE_THRESHOLDS };
+  }
+};
+
+/**
+ * Save customized phase thresholds
+ *
+ * @param thresholds - Phase thresholds in Celsius
+ */
+export const savePhaseThresholds = (thresholds: PhaseThresholds): void => {
+  writeSetting(PHASE_THRESHOLDS_STORAGE_KEY, thresholds);
+};
+
+/**
+ * Find the first time the bean temperature reaches a threshold after the
+ * temperature minimum following charge (so the hot charge itself never counts)
+ *
+ * @param data - Temperature data points ordered by time
+ * @param chargeTime - Charge time in seconds
+ * @param threshold - Temperature threshold in the data's unit
+ * @returns Time in seconds, or null if the threshold was not reached
+ */
+const findThresholdCrossing = (data: TemperatureDataPoint[], chargeTime: number, threshold: number): number | null => {
+  const afterCharge = data.filter(point => point.time >= chargeTime);
+  if (afterCharge.length === 0) return null;
+  const lowest = afterCharge.reduce((min, point) => (point.temperature < min.temperature ? point : min));
+  return afterCharge.find(point => point.time > lowest.time && point.temperature >= threshold)?.time ?? null;
+};
+
+/**
+ * Analyze the drying, Maillard and development phases of a roast
+ *
+ * @param data - Temperature data points ordered by time
+ * @param events - Recorded roast events
+ * @param totalTime - Drop time, or the current time for a roast in progress
+ * @param unit - Temperature unit of the data
+ * @param thresholds - Fallback phase thresholds in Celsius
+ * @returns Phase breakdown
+ */
+export const analyzePhases = (
+  data: TemperatureDataPoint[],
+  events: RoastEvent[],
+  totalTime: number,
+  unit: TemperatureUnit,
+  thresholds: PhaseThresholds = DEFAULT_PHASE_THRESHOLDS
+): PhaseAnalysis => {
+  const chargeTime = getEventTime(events, 'charge') ?? 0;
+  const roastTime = totalTime - chargeTime;
+
+  const findBoundary = (eventTime: number | null, thresholdC: number, after: number) => {
+    if (eventTime !== null) return { time: eventTime, source: 'event' as const };
+    const time = findThresholdCrossing(data, after, convertTemperature(thresholdC, 'C', unit));
+    return time !== null && time <= totalTime ? { time, source: 'threshold' as const } : null;
+  };
+
+  const yellowing = findBoundary(getEventTime(events, 'dryEnd'), thresholds.yellowing, chargeTime);
+  const firstCrack = findBoundary(getEventTime(events, 'firstCrackStart'), thresholds.firstCrack, yellowing?.time ?? chargeTime);
+
+  // A recorded first crack without a yellowing point leaves the Maillard phase unknown,
+  // so drying is shown up to first crack
+  const boundaries: { type: RoastPhaseType; start: number; source: PhaseBoundarySource | null }[] = [
+    { type: 'drying', start: chargeTime, source: null }
+  ];
+  if (yellowing && (!firstCrack || yellowing.time <= firstCrack.time)) {
+    boundaries.push({ type: 'maillard', start: yellowing.time, source: yellowing.source });
+  }
+  if (firstCrack) {
+    boundaries.push({ type: 'development', start: firstCrack.time, source: firstCrack.source });
+  }
+
+  const phases = roastTime > 0
+    ? boundaries.map((boundary, index) => {
+      const end = index + 1 < boundaries.length ? boundaries[index + 1].start : totalTime;
+      const duration = Math.max(0, end - boundary.start);
+      return {
+        ...ROAST_PHASES.find(definition => definition.type === boundary.type)!,
+        start: boundary.start,
+        end,
+        duration,
+        percentage: (duration / roastTime) * 100,
+        startSource: boundary.source
+      };
+    })
+    : [];
+
+  return {
+    phases,
+    yellowingTime: phases.find(phase => phase.type === 'maillard')?.start ?? null,
+    firstCrackTime: firstCrack?.time ?? null
+  };
+};
+
+/**
+ * Format phases for a single CSV header line
+ * (e.g., "Drying 04:30 (45.0%); Maillard 03:30 (35.0%); Development 02:00 (20.0%)")
+ *
+ * @param phases - Analyzed phases
+ * @returns Semicolon-separated phase list
+ */
+export const formatPhaseList = (phases: RoastPhase[]): string => {
+  return phases
+    .map(phase => `${phase.label} ${formatTime(phase.duration)} (${phase.percentage.toFixed(1)}%)`)
+    .join('; ');
+};
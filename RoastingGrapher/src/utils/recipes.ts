@@ -0,0 +1,176 @@
+/**
+ * Roast Recipes
+ *
+ * Persists named roast recipes (bean or lot, charge temperature, targets and
+ * an optional reference curve) in the local database as versioned records.
+ * Saving changes to a recipe creates a new revision and keeps the earlier
+ * ones, and roasts record the revision they were started from.
+ */
+import type { RecipePlan, RecipeRef, RecipeRevision, RoastEventTarget, RoastRecipe, RoastTargets } from '../types';
+import { RECIPES_STORE, requestToPromise, withStore } from './database';
+import { formatTime } from './format';
+import { isObject, loadStoredRecords, toStoredRecord } from './storage';
+import type { RecordSchema } from './storage';
+
+/**
+ * Checks that a value is a recipe at the current schema version
+ *
+ * @returns Why the value is not a usable recipe, or null
+ */
+const validateRecipe = (value: unknown): string | null => {
+  if (!isObject(value)) return 'Not a recipe';
+  if (typeof value.id !== 'string' || typeof value.name !== 'string') return 'Missing recipe id or name';
+  if (typeof value.revision !== 'number' || !Array.isArray(value.revisions)) return 'Missing revision history';
+  if (typeof value.beanName !== 'string' || typeof value.chargeTemp !== 'number') return 'Missing bean or charge temperature';
+  if (value.unit !== 'C' && value.unit !== 'F') return 'Unknown temperature unit';
+  return null;
+};
+
+/**
+ * Storage schema of recipes (introduced at schema version 2)
+ */
+const RECIPE_SCHEMA: RecordSchema = {
+  kind: 'recipe',
+  migrations: [
+    // 0 → 1 and 1 → 2: recipes did not exist before version 2
+    value => value,
+    value => value
+  ],
+  validate: validateRecipe
+};
+
+/**
+ * Creates the first revision of a recipe
+ *
+ * @param name - Recipe name
+ * @param plan - Roast setup to save
+ * @returns New recipe (not yet saved)
+ */
+export const createRecipe = (name: string, plan: RecipePlan): RoastRecipe => ({
+  ...plan,
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  revision: 1,
+  savedAt: new Date().toISOString(),
+  revisions: []
+});
+
+/**
+ * Creates the next revision of a recipe, keeping the current one in its history
+ *
+ * @param recipe - Recipe to revise
+ * @param plan - Changed roast setup
+ * @returns Revised recipe (not yet saved)
+ */
+export const reviseRecipe = (recipe: RoastRecipe, plan: RecipePlan): RoastRecipe => {
+  const { id, name, revisions, ...current } = recipe;
+  const previous: RecipeRevision = current;
+  return {
+    ...plan,
+    id,
+    name,
+    revision: recipe.revision + 1,
+    savedAt: new Date().toISOString(),
+    revisions: [...revisions, previous]
+  };
+};
+
+/**
+ * Planned targets as compared between plans (the alarm lead time is a preference, not part of the plan)
+ */
+const getPlannedTargets = (targets: RoastTargets | null): [number | null, number | null, number | null, RoastEventTarget[]] => {
+  const events = [...(targets?.events ?? [])].sort((a, b) => a.type.localeCompare(b.type));
+  return [targets?.dtr ?? null, targets?.dropTemp ?? null, targets?.totalTime ?? null, events];
+};
+
+/**
+ * Check whether a roast setup differs from a recipe revision
+ *
+ * @param revision - Recipe revision the setup was filled from
+ * @param plan - Setup as started
+ * @returns Whether the bean or lot, charge temperature, unit, targets or reference roast differ
+ */
+export const isPlanChanged = (revision: RecipePlan, plan: RecipePlan): boolean => {
+  return revision.beanName !== plan.beanName ||
+    revision.lotId !== plan.lotId ||
+    revision.chargeTemp !== plan.chargeTemp ||
+    revision.unit !== plan.unit ||
+    (revision.referenceRoast?.id ?? null) !== (plan.referenceRoast?.id ?? null) ||
+    JSON.stringify(getPlannedTargets(revision.targets)) !== JSON.stringify(getPlannedTargets(plan.targets));
+};
+
+/**
+ * Reference to the current revision of a recipe, recorded on sessions and roasts
+ *
+ * @param recipe - Recipe the setup was filled from
+ * @param plan - Setup as started; when it differs from the recipe the reference is marked modified
+ */
+export const getRecipeRef = (recipe: RoastRecipe, plan?: RecipePlan): RecipeRef => ({
+  id: recipe.id,
+  name: recipe.name,
+  revision: recipe.revision,
+  ...(plan && isPlanChanged(recipe, plan) && { modified: true })
+});
+
+/**
+ * Format a recipe reference (e.g., "House Espresso (rev 3)" or "House Espresso (rev 3, modified)")
+ */
+export const formatRecipeRef = (ref: RecipeRef): string => `${ref.name} (rev ${ref.revision}${ref.modified ? ', modified' : ''})`;
+
+/**
+ * Parse a recipe reference written by `formatRecipeRef`
+ *
+ * @param text - Formatted reference (e.g., "House Espresso (rev 3, modified)")
+ * @param id - Recipe identifier, which the formatted reference does not carry
+ * @returns Recipe reference, or null if the text is not a formatted reference
+ */
+export const parseRecipeRef = (text: string, id: string): RecipeRef | null => {
+  const match = text.match(/^(.+) \(rev (\d+)(, modified)?\)$/);
+  if (!match) return null;
+  return { id, name: match[1], revision: parseInt(match[2], 10), ...(match[3] && { modified: true }) };
+};
+
+/**
+ * Summarize the setup of a recipe revision (e.g., "Kenya AA · 200.0°C charge · DTR 20% · 10:30")
+ *
+ * @param revision - Recipe revision
+ * @returns Bean, charge temperature and the set targets
+ */
+export const formatRecipePlan = (revision: RecipePlan): string => {
+  const { targets, unit } = revision;
+  const parts = [revision.beanName, `${revision.chargeTemp.toFixed(1)}°${unit} charge`];
+  if (targets?.dtr != null) parts.push(`DTR ${targets.dtr}%`);
+  if (targets?.dropTemp != null) parts.push(`drop ${targets.dropTemp.toFixed(1)}°${unit}`);
+  if (targets?.totalTime != null) parts.push(formatTime(targets.totalTime));
+  if (targets?.events?.length) parts.push(`${targets.events.length} event target${targets.events.length === 1 ? '' : 's'}`);
+  if (revision.referenceRoast) parts.push(`reference ${revision.referenceRoast.beanName}`);
+  return parts.join(' · ');
+};
+
+/**
+ * Saves a recipe, replacing any existing recipe with the same id
+ *
+ * @param recipe - Recipe to save
+ */
+export const saveRecipe = async (recipe: RoastRecipe): Promise<void> => {
+  await withStore(RECIPES_STORE, 'readwrite', store => requestToPromise(store.put(toStoredRecord(recipe))));
+};
+
+/**
+ * Loads every recipe, sorted by name
+ *
+ * @returns All usable recipes (unreadable recipes are quarantined)
+ */
+export const getAllRecipes = async (): Promise<RoastRecipe[]> => {
+  const stored = await withStore(RECIPES_STORE, 'readonly', store => requestToPromise(store.getAll() as IDBRequest<unknown[]>));
+  return loadStoredRecords<RoastRecipe>(RECIPE_SCHEMA, RECIPES_STORE, stored).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Deletes a recipe (roasts keep their reference to it)
+ *
+ * @param id - Recipe identifier
+ */
+export const deleteRecipe = async (id: string): Promise<void> => {
+  await withStore(RECIPES_STORE, 'readwrite', store => requestToPromise(store.delete(id)));
+};
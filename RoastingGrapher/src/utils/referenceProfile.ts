@@ -0,0 +1,85 @@
+/**
+ * Reference Profile Utilities
+ * 
+ * Compares a live roast against a previously recorded reference roast.
+ */
+import type { TemperatureDataPoint } from '../types';
+
+/**
+ * Live comparison against the reference roast
+ */
+export interface ReferenceDeltas {
+  /** Current temperature minus reference temperature at the same elapsed second (null past the reference's end) */
+  temperatureDelta: number | null;
+  /**
+   * Seconds behind (positive) or ahead (negative) of the reference at first crack.
+   * Before first crack this is only known once the reference's first crack has passed.
+   */
+  firstCrackDelta: number | null;
+  /** Seconds until the reference reached first crack (null once passed or if it has none) */
+  timeToReferenceFirstCrack: number | null;
+}
+
+/**
+ * Get the temperature of a profile at a given time by linear interpolation
+ * 
+ * @param data - Temperature data points ordered by time
+ * @param time - Elapsed time in seconds
+ * @returns Interpolated temperature, or null if the time is outside the recorded range
+ */
+export const getTemperatureAt = (data: TemperatureDataPoint[], time: number): number | null => {
+  if (data.length === 0 || time < data[0].time || time > data[data.length - 1].time) return null;
+
+  // Binary search for the first point at or after the requested time
+  let low = 0;
+  let high = data.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (data[mid].time < time) low = mid + 1;
+    else high = mid;
+  }
+  const after = data[low];
+  if (after.time === time || low === 0) return after.temperature;
+  const before = data[low - 1];
+  const ratio = (time - before.time) / (after.time - before.time);
+  return before.temperature + (after.temperature - before.temperature) * ratio;
+};
+
+/**
+ * Calculate live deltas between the current roast and the reference roast
+ * 
+ * @param elapsed - Elapsed roast time in seconds
+ * @param currentTemp - Current temperature
+ * @param firstCrackTime - First crack time of the current roast (null if not yet)
+ * @param referenceData - Reference roast temperature data
+ * @param referenceFirstCrack - First crack time of the reference roast (null if none)
+ * @returns Temperature and first crack deltas
+ */
+export const getReferenceDeltas = (
+  elapsed: number,
+  currentTemp: number,
+  firstCrackTime: number | null,
+  referenceData: TemperatureDataPoint[],
+  referenceFirstCrack: number | null
+): ReferenceDeltas => {
+  const referenceTemp = getTemperatureAt(referenceData, elapsed);
+
+  let firstCrackDelta: number | null = null;
+  let timeToReferenceFirstCrack: number | null = null;
+  if (referenceFirstCrack !== null) {
+    if (firstCrackTime !== null) {
+      firstCrackDelta = firstCrackTime - referenceFirstCrack;
+    } else if (elapsed > referenceFirstCrack) {
+      // Reference already cracked: we are at least this far behind
+      firstCrackDelta = elapsed - referenceFirstCrack;
+    } else {
+      timeToReferenceFirstCrack = referenceFirstCrack - elapsed;
+    }
+  }
+
+  return {
+    temperatureDelta: referenceTemp !== null ? currentTemp - referenceTemp : null,
+    firstCrackDelta,
+    timeToReferenceFirstCrack
+  };
+};
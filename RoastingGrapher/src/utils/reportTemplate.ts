@@ -0,0 +1,165 @@
+/**
+ * Roast Report Template
+ *
+ * Describes what the printable roast report shows: a title, an optional logo,
+ * the chart, and a selectable set of fields. The template is saved in
+ * localStorage.
+ */
+import type { SummaryData } from '../types';
+import { calculateDTR } from './dtrCalculations';
+import { getTemperatureStats } from './exportUtils';
+import { formatTime } from './format';
+import { getEventDefinition, sortEvents } from './roastEvents';
+import { analyzePhases, formatPhaseList } from './phaseAnalysis';
+import type { PhaseThresholds } from './phaseAnalysis';
+import { getRoastWeights } from './weightLoss';
+import { formatCuppingSummary } from './cupping';
+import { readSetting, writeSetting } from './storage';
+
+export type ReportField =
+  | 'roastDate'
+  | 'totalTime'
+  | 'firstCrack'
+  | 'dtr'
+  | 'temperatures'
+  | 'events'
+  | 'phases'
+  | 'weights'
+  | 'cupping'
+  | 'notes';
+
+/**
+ * Report fields in report order
+ */
+export const REPORT_FIELDS: { field: ReportField; label: string }[] = [
+  { field: 'roastDate', label: 'Roasted' },
+  { field: 'totalTime', label: 'Total Time' },
+  { field: 'firstCrack', label: 'First Crack' },
+  { field: 'dtr', label: 'DTR' },
+  { field: 'temperatures', label: 'Charge / Final' },
+  { field: 'events', label: 'Events' },
+  { field: 'phases', label: 'Phases' },
+  { field: 'weights', label: 'Weights' },
+  { field: 'cupping', label: 'Cupping' },
+  { field: 'notes', label: 'Tasting Notes' }
+];
+
+/**
+ * Report layout
+ */
+export interface ReportTemplate {
+  /** Heading above the bean name (e.g., the roastery name) */
+  title: string;
+  /** Logo image as a data URL (null for none) */
+  logo: string | null;
+  /** Whether the roast chart is included */
+  showChart: boolean;
+  /** Fields included, shown in report order */
+  fields: ReportField[];
+}
+
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  title: 'Roast Report',
+  logo: null,
+  showChart: true,
+  fields: REPORT_FIELDS.map(({ field }) => field)
+};
+
+export const REPORT_TEMPLATE_STORAGE_KEY = 'roast_report_template';
+
+/**
+ * A labelled value shown on the report
+ */
+export interface ReportRow {
+  field: ReportField;
+  label: string;
+  value: string;
+}
+
+/**
+ * Load the saved report template, falling back to the defaults
+ *
+ * @returns Report template
+ */
+export const loadReportTemplate = (): ReportTemplate => {
+  try {
+    const saved = (readSetting(REPORT_TEMPLATE_STORAGE_KEY) ?? {}) as Partial<ReportTemplate>;
+    return {
+      title: typeof saved.title === 'string' ? saved.title : DEFAULT_REPORT_TEMPLATE.title,
+      logo: typeof saved.logo === 'string' ? saved.logo : null,
+      showChart: typeof saved.showChart === 'boolean' ? saved.showChart : DEFAULT_REPORT_TEMPLATE.showChart,
+      fields: Array.isArray(saved.fields)
+        ? REPORT_FIELDS.map(({ field }) => field).filter(field => saved.fields!.includes(field))
+        : [...DEFAULT_REPORT_TEMPLATE.fields]
+    };
+  } catch (error) {
+    console.error('Failed to load report template:', error);
+    return { ...DEFAULT_REPORT_TEMPLATE };
+  }
+};
+
+/**
+ * Save the report template
+ *
+ * @param template - Report template
+ */
+export const saveReportTemplate = (template: ReportTemplate): void => {
+  try {
+    writeSetting(REPORT_TEMPLATE_STORAGE_KEY, template);
+  } catch (error) {
+    // A large logo can exceed the storage quota
+    console.error('Failed to save report template:', error);
+  }
+};
+
+/**
+ * Build the report rows for the selected fields; fields without data
+ * (weights, cupping, notes) are left out
+ *
+ * @param roast - Roast in the unit the report is shown in
+ * @param fields - Selected fields
+ * @param phaseThresholds - Fallback phase thresholds for unrecorded events
+ * @returns Rows in report order
+ */
+export const getReportRows = (roast: SummaryData, fields: ReportField[], phaseThresholds: PhaseThresholds): ReportRow[] => {
+  const { unit, totalTime, firstCrackTime } = roast;
+  const value = (field: ReportField): string | null => {
+    switch (field) {
+      case 'roastDate':
+        return new Date(roast.roastedAt).toLocaleString();
+      case 'totalTime':
+        return formatTime(totalTime);
+      case 'firstCrack':
+        return firstCrackTime !== null ? formatTime(firstCrackTime) : 'N/A';
+      case 'dtr':
+        return firstCrackTime !== null ? `${calculateDTR(firstCrackTime, totalTime).toFixed(1)}%` : 'N/A';
+      case 'temperatures':
+        return `${roast.chargeTemp.toFixed(1)}°${unit} / ${getTemperatureStats(roast).finalTemp.toFixed(1)}°${unit}`;
+      case 'events':
+        return roast.events.length > 0
+          ? sortEvents(roast.events)
+            .map(event => `${getEventDefinition(event.type).label} ${formatTime(event.time)} (${event.temperature.toFixed(1)}°${unit})`)
+            .join(' · ')
+          : null;
+      case 'phases': {
+        const { phases } = analyzePhases(roast.temperatureData, roast.events, totalTime, unit, phaseThresholds);
+        return phases.length > 0 ? formatPhaseList(phases) : null;
+      }
+      case 'weights': {
+        const weights = getRoastWeights(roast);
+        return weights
+          ? `${weights.greenWeight} g → ${weights.roastedWeight} g (${weights.weightLoss.toFixed(1)}% loss)`
+          : null;
+      }
+      case 'cupping':
+        return (roast.cupping && formatCuppingSummary(roast.cupping)) || null;
+      case 'notes':
+        return roast.cupping?.notes || null;
+    }
+  };
+  return REPORT_FIELDS.flatMap(({ field, label }) => {
+    if (!fields.includes(field)) return [];
+    const text = value(field);
+    return text !== null ? [{ field, label, value: text }] : [];
+  });
+};
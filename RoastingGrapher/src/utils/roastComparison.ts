@@ -0,0 +1,98 @@
+/**
+ * Roast Comparison Utilities
+ *
+ * Aligns several roasts on a common time axis for overlaying their curves,
+ * and collects the statistics shown side by side on the comparison screen.
+ */
+import type { SummaryData } from '../types';
+import { calculateDTR } from './dtrCalculations';
+import { getTemperatureStats } from './exportUtils';
+import { getEventTime } from './roastEvents';
+
+/**
+ * How roasts are lined up on the time axis
+ * - charge: seconds since charge
+ * - firstCrack: seconds relative to first crack (negative before it)
+ * - normalized: percentage of the roast from charge (0%) to drop (100%)
+ */
+export type ComparisonAlignment = 'charge' | 'firstCrack' | 'normalized';
+
+/** Human-readable alignment names */
+export const ALIGNMENT_LABELS: Record<ComparisonAlignment, string> = {
+  charge: 'Charge',
+  firstCrack: 'First Crack',
+  normalized: 'Roast %'
+};
+
+/** Curve colors, reused in order when comparing more roasts */
+export const COMPARISON_COLORS = ['#ffffff', '#ff7f50', '#00bfff', '#9acd32', '#ffd966', '#da70d6', '#ff5555', '#40e0d0'];
+
+/**
+ * Point of an aligned roast curve
+ */
+export interface AlignedPoint {
+  /** Position on the aligned axis (seconds, or percent when normalized) */
+  x: number;
+  temperature: number;
+}
+
+/**
+ * Side-by-side statistics of a compared roast
+ */
+export interface ComparisonStats {
+  totalTime: number;
+  firstCrackTime: number | null;
+  /** DTR percentage (null without first crack) */
+  dtr: number | null;
+  chargeTemp: number;
+  finalTemp: number;
+}
+
+/**
+ * Get the curve color of the roast at a position in the comparison
+ */
+export const getComparisonColor = (index: number): string => COMPARISON_COLORS[index % COMPARISON_COLORS.length];
+
+/**
+ * Align a roast's bean temperature curve
+ *
+ * @param roast - Roast to align
+ * @param alignment - Alignment mode
+ * @returns Aligned points, or null if the roast lacks the alignment event (first crack)
+ */
+export const alignRoast = (roast: SummaryData, alignment: ComparisonAlignment): AlignedPoint[] | null => {
+  const chargeTime = getEventTime(roast.events, 'charge') ?? 0;
+  switch (alignment) {
+    case 'firstCrack': {
+      if (roast.firstCrackTime === null) return null;
+      const firstCrackTime = roast.firstCrackTime;
+      return roast.temperatureData.map(point => ({ x: point.time - firstCrackTime, temperature: point.temperature }));
+    }
+    case 'normalized': {
+      const duration = roast.totalTime - chargeTime;
+      if (duration <= 0) return null;
+      return roast.temperatureData
+        .filter(point => point.time >= chargeTime && point.time <= roast.totalTime)
+        .map(point => ({ x: ((point.time - chargeTime) / duration) * 100, temperature: point.temperature }));
+    }
+    case 'charge':
+    default:
+      return roast.temperatureData.map(point => ({ x: point.time - chargeTime, temperature: point.temperature }));
+  }
+};
+
+/**
+ * Collect the comparison statistics of a roast
+ *
+ * @param roast - Roast to summarize
+ * @returns Times, DTR and charge/final temperatures
+ */
+export const getComparisonStats = (roast: SummaryData): ComparisonStats => {
+  return {
+    totalTime: roast.totalTime,
+    firstCrackTime: roast.firstCrackTime,
+    dtr: roast.firstCrackTime !== null ? calculateDTR(roast.firstCrackTime, roast.totalTime) : null,
+    chargeTemp: roast.chargeTemp,
+    finalTemp: getTemperatureStats(roast).finalTemp
+  };
+};
@@ -0,0 +1,314 @@
+/**
+ * Roast Editing Utilities
+ *
+ * Post-roast corrections of recorded data: retiming first crack, editing,
+ * inserting and deleting temperature points, and interpolating across a
+ * range. Every edit is appended to the roast's audit trail, and the data as
+ * recorded is kept from the first edit so the roast can be reverted. Reverting
+ * is recorded in the audit trail too; the trail is never cleared.
+ *
+ * Temperatures are in the roast's own unit.
+ */
+import type { RecordedRoastData, RoastEdit, RoastEditType, RoastEvent, SummaryData, TemperatureDataPoint } from '../types';
+import { formatTime } from './format';
+import { sortEvents, withTurningPoint } from './roastEvents';
+
+/**
+ * Result of an edit: the edited roast, or why the edit was rejected
+ */
+export type EditResult = { roast: SummaryData } | { error: string };
+
+/**
+ * Edits made since the roast was last reverted to the data as recorded
+ *
+ * @param roast - Roast to check
+ * @returns Edits after the last revert (the whole trail if it was never reverted)
+ */
+export const getEditsSinceRevert = (roast: SummaryData): RoastEdit[] => {
+  const edits = roast.edits ?? [];
+  const lastRevert = edits.map(edit => edit.type).lastIndexOf('revert');
+  return edits.slice(lastRevert + 1);
+};
+
+/**
+ * Check whether a roast's data differs from the recording (a roast reverted
+ * since its last edit is not edited, though its audit trail remains)
+ */
+export const isEditedRoast = (roast: SummaryData): boolean => {
+  return getEditsSinceRevert(roast).length > 0;
+};
+
+/**
+ * Format the audit trail for a single CSV header line
+ * (e.g., "Retimed first crack from 09:40 to 09:30 (retimeFirstCrack, 2026-10-18T10:00:00.000Z)")
+ *
+ * @param edits - Audit trail, oldest first
+ * @returns Semicolon-separated edit list
+ */
+export const formatEditList = (edits: RoastEdit[]): string => {
+  return edits.map(edit => `${edit.description} (${edit.type}, ${edit.editedAt})`).join('; ');
+};
+
+/**
+ * Parse an edit list written by `formatEditList`
+ *
+ * @param text - Semicolon-separated edit list
+ * @returns Parsed edits, or an error message describing the first invalid entry
+ */
+export const parseEditList = (text: string): { edits: RoastEdit[] } | { error: string } => {
+  const edits: RoastEdit[] = [];
+  for (const entry of text.split(';').map(part => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^(.+)\s+\((\w+),\s*([^\s,()]+)\)$/);
+    if (!match || isNaN(new Date(match[3]).getTime())) {
+      return { error: `Invalid edit history entry "${entry}"` };
+    }
+    edits.push({ type: match[2] as RoastEditType, editedAt: match[3], description: match[1] });
+  }
+  return { edits };
+};
+
+/**
+ * Read a channel at any time, interpolating linearly between the surrounding points
+ *
+ * @param data - Temperature data points ordered by time
+ * @param time - Time in seconds
+ * @param key - Channel to read
+ * @returns Temperature, or null if the channel has no reading around that time
+ */
+export const getTemperatureAt = (
+  data: TemperatureDataPoint[],
+  time: number,
+  key: 'temperature' | 'environmentTemp' = 'temperature'
+): number | null => {
+  const points = data.filter(point => point[key] !== undefined);
+  if (points.length === 0) return null;
+  const after = points.findIndex(point => point.time >= time);
+  if (after === -1) return points[points.length - 1][key]!;
+  if (after === 0 || points[after].time === time) return points[after][key]!;
+  const a = points[after - 1];
+  const b = points[after];
+  return a[key]! + ((b[key]! - a[key]!) * (time - a.time)) / (b.time - a.time);
+};
+
+/**
+ * Format a temperature for an audit trail description
+ */
+const formatDegrees = (temperature: number, roast: SummaryData): string => {
+  return `${temperature.toFixed(1)}°${roast.unit}`;
+};
+
+/**
+ * Re-read the temperatures of events inside a changed time range from the edited data
+ */
+const refreshEventTemperatures = (events: RoastEvent[], data: TemperatureDataPoint[], start: number, end: number): RoastEvent[] => {
+  return events.map(event => {
+    if (event.time < start || event.time > end) return event;
+    return { ...event, temperature: getTemperatureAt(data, event.time) ?? event.temperature };
+  });
+};
+
+/**
+ * Apply changed data to a roast and record the edit in its audit trail
+ *
+ * @param roast - Roast being edited
+ * @param changes - Changed roast data
+ * @param type - Kind of edit
+ * @param description - Audit trail description
+ * @param range - Time range of changed temperature points, whose events are re-read from the data
+ */
+const applyEdit = (
+  roast: SummaryData,
+  changes: Partial<RecordedRoastData>,
+  type: RoastEditType,
+  description: string,
+  range?: [number, number]
+): SummaryData => {
+  const original: RecordedRoastData = roast.original ?? {
+    temperatureData: roast.temperatureData,
+    firstCrackTime: roast.firstCrackTime,
+    events: roast.events
+  };
+  const temperatureData = changes.temperatureData ?? roast.temperatureData;
+  let events = changes.events ?? roast.events;
+  if (range) {
+    // The turning point is detected from the data, so it follows the corrected curve
+    events = withTurningPoint(refreshEventTemperatures(events, temperatureData, range[0], range[1]), temperatureData);
+  }
+  const edit: RoastEdit = { type, editedAt: new Date().toISOString(), description };
+  return { ...roast, ...changes, temperatureData, events, original, edits: [...(roast.edits ?? []), edit] };
+};
+
+/**
+ * Move (or set) first crack, keeping `firstCrackTime` and the first crack start event in step
+ *
+ * @param roast - Roast to edit
+ * @param time - New first crack time in seconds
+ * @returns Edited roast or error
+ */
+export const retimeFirstCrack = (roast: SummaryData, time: number): EditResult => {
+  const newTime = Math.round(time);
+  if (!Number.isFinite(newTime) || newTime < 0 || newTime > roast.totalTime) {
+    return { error: `First crack must be between 00:00 and ${formatTime(roast.totalTime)}` };
+  }
+  if (newTime === roast.firstCrackTime) {
+    return { error: `First crack is already at ${formatTime(newTime)}` };
+  }
+  const event: RoastEvent = {
+    type: 'firstCrackStart',
+    time: newTime,
+    temperature: getTemperatureAt(roast.temperatureData, newTime) ?? 0
+  };
+  const description = roast.firstCrackTime === null
+    ? `Set first crack at ${formatTime(newTime)}`
+    : `Retimed first crack from ${formatTime(roast.firstCrackTime)} to ${formatTime(newTime)}`;
+  return {
+    roast: applyEdit(roast, {
+      firstCrackTime: newTime,
+      events: sortEvents([...roast.events.filter(e => e.type !== 'firstCrackStart'), event])
+    }, 'retimeFirstCrack', description)
+  };
+};
+
+/**
+ * Change the readings of a recorded point
+ *
+ * @param roast - Roast to edit
+ * @param time - Time of the point in seconds
+ * @param values - New bean temperature, and environment temperature when ET was recorded
+ * @returns Edited roast or error
+ */
+export const editPoint = (
+  roast: SummaryData,
+  time: number,
+  values: { temperature: number; environmentTemp?: number }
+): EditResult => {
+  const index = roast.temperatureData.findIndex(point => point.time === time);
+  if (index === -1) return { error: `No point recorded at ${formatTime(time)}` };
+  if (!Number.isFinite(values.temperature) || (values.environmentTemp !== undefined && !Number.isFinite(values.environmentTemp))) {
+    return { error: 'Temperatures must be numbers' };
+  }
+  const point = roast.temperatureData[index];
+  const changes: string[] = [];
+  if (values.temperature !== point.temperature) {
+    changes.push(`BT from ${formatDegrees(point.temperature, roast)} to ${formatDegrees(values.temperature, roast)}`);
+  }
+  if (values.environmentTemp !== undefined && values.environmentTemp !== point.environmentTemp) {
+    changes.push(point.environmentTemp !== undefined
+      ? `ET from ${formatDegrees(point.environmentTemp, roast)} to ${formatDegrees(values.environmentTemp, roast)}`
+      : `ET to ${formatDegrees(values.environmentTemp, roast)}`);
+  }
+  if (changes.length === 0) return { error: 'The point is unchanged' };
+
+  const temperatureData = [...roast.temperatureData];
+  temperatureData[index] = { ...point, ...values };
+  return {
+    roast: applyEdit(roast, { temperatureData }, 'editPoint', `Changed ${changes.join(' and ')} at ${formatTime(time)}`, [time, time])
+  };
+};
+
+/**
+ * Insert a point at a time without a reading
+ *
+ * @param roast - Roast to edit
+ * @param point - New point (whole seconds within the roast)
+ * @returns Edited roast or error
+ */
+export const insertPoint = (roast: SummaryData, point: TemperatureDataPoint): EditResult => {
+  if (!Number.isInteger(point.time) || point.time < 0 || point.time > roast.totalTime) {
+    return { error: `Time must be whole seconds between 00:00 and ${formatTime(roast.totalTime)}` };
+  }
+  if (!Number.isFinite(point.temperature) || (point.environmentTemp !== undefined && !Number.isFinite(point.environmentTemp))) {
+    return { error: 'Temperatures must be numbers' };
+  }
+  if (roast.temperatureData.some(p => p.time === point.time)) {
+    return { error: `A point is already recorded at ${formatTime(point.time)}; edit it instead` };
+  }
+  const temperatureData = [...roast.temperatureData, point].sort((a, b) => a.time - b.time);
+  return {
+    roast: applyEdit(
+      roast,
+      { temperatureData },
+      'insertPoint',
+      `Inserted point at ${formatTime(point.time)} (${formatDegrees(point.temperature, roast)})`,
+      [point.time, point.time]
+    )
+  };
+};
+
+/**
+ * Delete a recorded point
+ *
+ * @param roast - Roast to edit
+ * @param time - Time of the point in seconds
+ * @returns Edited roast or error
+ */
+export const deletePoint = (roast: SummaryData, time: number): EditResult => {
+  const point = roast.temperatureData.find(p => p.time === time);
+  if (!point) return { error: `No point recorded at ${formatTime(time)}` };
+  if (roast.temperatureData.length === 1) return { error: 'The last remaining point cannot be deleted' };
+  const temperatureData = roast.temperatureData.filter(p => p !== point);
+  return {
+    roast: applyEdit(
+      roast,
+      { temperatureData },
+      'deletePoint',
+      `Deleted point at ${formatTime(time)} (${formatDegrees(point.temperature, roast)})`,
+      [time, time]
+    )
+  };
+};
+
+/**
+ * Replace the readings strictly between two times with a straight line between
+ * the readings at those times (e.g., after forgetting to update the temperature)
+ *
+ * @param roast - Roast to edit
+ * @param start - Range start in seconds
+ * @param end - Range end in seconds
+ * @returns Edited roast or error
+ */
+export const interpolateRange = (roast: SummaryData, start: number, end: number): EditResult => {
+  if (!(start < end)) return { error: 'The range end must be after its start' };
+  const data = roast.temperatureData;
+  const startTemp = getTemperatureAt(data, start);
+  const endTemp = getTemperatureAt(data, end);
+  if (startTemp === null || endTemp === null) return { error: 'The roast has no temperature data' };
+  const startEnv = getTemperatureAt(data, start, 'environmentTemp');
+  const endEnv = getTemperatureAt(data, end, 'environmentTemp');
+  const between = (point: TemperatureDataPoint) => point.time > start && point.time < end;
+  const count = data.filter(between).length;
+  if (count === 0) {
+    return { error: `No points between ${formatTime(start)} and ${formatTime(end)}` };
+  }
+
+  const temperatureData = data.map(point => {
+    if (!between(point)) return point;
+    const ratio = (point.time - start) / (end - start);
+    const interpolated: TemperatureDataPoint = { ...point, temperature: startTemp + (endTemp - startTemp) * ratio };
+    if (point.environmentTemp !== undefined && startEnv !== null && endEnv !== null) {
+      interpolated.environmentTemp = startEnv + (endEnv - startEnv) * ratio;
+    }
+    return interpolated;
+  });
+  return {
+    roast: applyEdit(
+      roast,
+      { temperatureData },
+      'interpolate',
+      `Interpolated ${count} point${count === 1 ? '' : 's'} from ${formatTime(start)} to ${formatTime(end)}`,
+      [start, end]
+    )
+  };
+};
+
+/**
+ * Restore the data as recorded, keeping the audit trail and recording the revert in it
+ *
+ * @param roast - Edited roast
+ * @returns Roast with its original data (unchanged if it was never edited)
+ */
+export const revertToOriginal = (roast: SummaryData): SummaryData => {
+  if (!roast.original) return roast;
+  const edit: RoastEdit = { type: 'revert', editedAt: new Date().toISOString(), description: 'Reverted to the data as recorded' };
+  return { ...roast, ...roast.original, original: null, edits: [...(roast.edits ?? []), edit] };
+};
@@ -0,0 +1,163 @@
+/**
+ * Roast Event Utilities
+ *
+ * Defines the standard roast events (charge, turning point, dry end, first and
+ * second crack, drop), detects the turning point automatically, and converts
+ * event lists to and from their text form used in CSV exports.
+ */
+import type { RoastEvent, RoastEventType, TemperatureDataPoint } from '../types';
+import { formatTime } from './format';
+
+/**
+ * Display configuration for a roast event
+ */
+export interface RoastEventDefinition {
+  type: RoastEventType;
+  /** Full name (e.g., "First Crack Start") */
+  label: string;
+  /** Abbreviation used on charts (e.g., "FCs") */
+  shortLabel: string;
+  /** Chart and button color */
+  color: string;
+}
+
+/**
+ * Standard roast events in roast order
+ */
+export const ROAST_EVENTS: RoastEventDefinition[] = [
+  { type: 'charge', label: 'Charge', shortLabel: 'CHARGE', color: '#00ff00' },
+  { type: 'turningPoint', label: 'Turning Point', shortLabel: 'TP', color: '#aaaaaa' },
+  { type: 'dryEnd', label: 'Dry End', shortLabel: 'DRY', color: '#ffd966' },
+  { type: 'firstCrackStart', label: 'First Crack Start', shortLabel: 'FCs', color: '#ffaa00' },
+  { type: 'firstCrackEnd', label: 'First Crack End', shortLabel: 'FCe', color: '#ff8800' },
+  { type: 'secondCrackStart', label: 'Second Crack Start', shortLabel: 'SCs', color: '#ff5555' },
+  { type: 'secondCrackEnd', label: 'Second Crack End', shortLabel: 'SCe', color: '#cc3333' },
+  { type: 'drop', label: 'Drop', shortLabel: 'DROP', color: '#ff0000' }
+];
+
+/**
+ * Minimum rise above the lowest temperature before the turning point is confirmed
+ */
+const TURNING_POINT_CONFIRMATION = 1;
+
+/**
+ * Look up the display configuration of an event type
+ */
+export const getEventDefinition = (type: RoastEventType): RoastEventDefinition => {
+  return ROAST_EVENTS.find(definition => definition.type === type) ?? ROAST_EVENTS[0];
+};
+
+/**
+ * Get the time of an event
+ *
+ * @param events - Recorded events
+ * @param type - Event type to find
+ * @returns Event time in seconds, or null if not recorded
+ */
+export const getEventTime = (events: RoastEvent[], type: RoastEventType): number | null => {
+  return events.find(event => event.type === type)?.time ?? null;
+};
+
+/**
+ * Sort events by time, keeping roast order for simultaneous events
+ */
+export const sortEvents = (events: RoastEvent[]): RoastEvent[] => {
+  const order = (type: RoastEventType) => ROAST_EVENTS.findIndex(definition => definition.type === type);
+  return [...events].sort((a, b) => a.time - b.time || order(a.type) - order(b.type));
+};
+
+/**
+ * Detect the turning point: the temperature minimum after charge, confirmed
+ * once the temperature has risen again
+ *
+ * @param data - Temperature data points ordered by time
+ * @param chargeTime - Charge time in seconds (null if not charged)
+ * @returns Turning point event, or null if not (yet) detectable
+ */
+export const detectTurningPoint = (data: TemperatureDataPoint[], chargeTime: number | null): RoastEvent | null => {
+  if (chargeTime === null) return null;
+  let lowest: TemperatureDataPoint | null = null;
+  let confirmed = false;
+  for (const point of data) {
+    if (point.time < chargeTime) continue;
+    if (lowest === null || point.temperature < lowest.temperature) {
+      lowest = point;
+      confirmed = false;
+    } else if (point.temperature >= lowest.temperature + TURNING_POINT_CONFIRMATION) {
+      confirmed = true;
+    }
+  }
+  if (!lowest || !confirmed || lowest.time === chargeTime) return null;
+  return { type: 'turningPoint', time: lowest.time, temperature: lowest.temperature };
+};
+
+/**
+ * Replace any turning point in the event list with the one detected from the data
+ *
+ * @param events - Recorded events
+ * @param data - Temperature data points ordered by time
+ * @returns Sorted events including the detected turning point
+ */
+export const withTurningPoint = (events: RoastEvent[], data: TemperatureDataPoint[]): RoastEvent[] => {
+  const manual = events.filter(event => event.type !== 'turningPoint');
+  const turningPoint = detectTurningPoint(data, getEventTime(manual, 'charge'));
+  return sortEvents(turningPoint ? [...manual, turningPoint] : manual);
+};
+
+/**
+ * Build the event list for a roast that only recorded first crack
+ * (roasts saved or exported before events were introduced)
+ *
+ * @param data - Temperature data points ordered by time
+ * @param totalTime - Total roast time in seconds
+ * @param firstCrackTime - First crack time in seconds (null if not recorded)
+ * @returns Charge, detected turning point, first crack start and drop events
+ */
+export const createLegacyEvents = (data: TemperatureDataPoint[], totalTime: number, firstCrackTime: number | null): RoastEvent[] => {
+  const temperatureAt = (time: number) => {
+    const point = data.find(d => d.time >= time) ?? data[data.length - 1];
+    return point?.temperature ?? 0;
+  };
+  const events: RoastEvent[] = [{ type: 'charge', time: 0, temperature: temperatureAt(0) }];
+  if (firstCrackTime !== null) {
+    events.push({ type: 'firstCrackStart', time: firstCrackTime, temperature: temperatureAt(firstCrackTime) });
+  }
+  events.push({ type: 'drop', time: totalTime, temperature: temperatureAt(totalTime) });
+  return withTurningPoint(events, data);
+};
+
+/**
+ * Format events for a single CSV header line
+ * (e.g., "Charge 00:00 @ 200.0; First Crack Start 09:30 @ 196.0")
+ *
+ * @param events - Recorded events
+ * @returns Semicolon-separated event list
+ */
+export const formatEventList = (events: RoastEvent[]): string => {
+  return sortEvents(events)
+    .map(event => `${getEventDefinition(event.type).label} ${formatTime(event.time)} @ ${event.temperature.toFixed(1)}`)
+    .join('; ');
+};
+
+/**
+ * Parse an event list written by `formatEventList`
+ *
+ * @param text - Semicolon-separated event list
+ * @returns Parsed events, or an error message describing the first invalid entry
+ */
+export const parseEventList = (text: string): { events: RoastEvent[] } | { error: string } => {
+  const events: RoastEvent[] = [];
+  for (const entry of text.split(';').map(part => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^(.+?)\s+(\d+):([0-5]\d)\s*@\s*(-?\d+(?:\.\d+)?)$/);
+    const definition = match && ROAST_EVENTS.find(d => d.label.toLowerCase() === match[1].toLowerCase());
+    if (!match || !definition) {
+      return { error: `Invalid event "${entry}"` };
+    }
+    events.push({
+      type: definition.type,
+      time: parseInt(match[2], 10) * 60 + parseInt(match[3], 10),
+      temperature: parseFloat(match[4])
+    });
+  }
+  return { events: sortEvents(events) };
+};
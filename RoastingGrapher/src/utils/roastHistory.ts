@@ -0,0 +1,192 @@
+/**
+ * Roast History
+ *
+ * Persists completed roasts in the local roast library (IndexedDB) as
+ * versioned records (see storage.ts) and provides the filtering and sorting
+ * used by the History screen.
+ */
+import type { SummaryData } from '../types';
+import { calculateDTR } from './dtrCalculations';
+import { ROASTS_STORE, requestToPromise, withStore } from './database';
+import { createLegacyEvents } from './roastEvents';
+import { cuppingMatches, getRoastCuppingScore } from './cupping';
+import { isDataPoint, isObject, loadStoredRecords, toStoredRecord } from './storage';
+import type { RecordSchema } from './storage';
+
+export type HistorySortKey = 'date' | 'bean' | 'totalTime' | 'dtr' | 'score';
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Filter criteria for the roast library
+ */
+export interface HistoryFilter {
+  /** Case-insensitive text matched against the bean name and cupping notes */
+  search: string;
+  /** Earliest roast date (YYYY-MM-DD), inclusive */
+  dateFrom: string;
+  /** Latest roast date (YYYY-MM-DD), inclusive */
+  dateTo: string;
+  /** Minimum DTR percentage */
+  minDTR: number | null;
+  /** Maximum DTR percentage */
+  maxDTR: number | null;
+  /** Minimum total cupping score (unscored roasts are excluded when set) */
+  minScore: number | null;
+  /** Minimum rating (unrated roasts are excluded when set) */
+  minRating: number | null;
+}
+
+/**
+ * Creates a new unique roast identifier
+ */
+export const createRoastId = (): string => crypto.randomUUID();
+
+/**
+ * Upgrades an unversioned roast: fills in the events of roasts saved before
+ * events were recorded
+ */
+const migrateUnversionedRoast = (record: unknown): unknown => {
+  if (!isObject(record) || Array.isArray(record.events) || !Array.isArray(record.temperatureData)) return record;
+  const roast = record as unknown as SummaryData;
+  return { ...roast, events: createLegacyEvents(roast.temperatureData, roast.totalTime, roast.firstCrackTime) };
+};
+
+/**
+ * Checks that a value is a roast at the current schema version
+ *
+ * @returns Why the value is not a usable roast, or null
+ */
+const validateRoast = (value: unknown): string | null => {
+  if (!isObject(value)) return 'Not a roast';
+  if (typeof value.id !== 'string' || typeof value.roastedAt !== 'string' || typeof value.beanName !== 'string') {
+    return 'Missing roast id, date or bean name';
+  }
+  if (value.unit !== 'C' && value.unit !== 'F') return 'Unknown temperature unit';
+  if (typeof value.chargeTemp !== 'number' || typeof value.totalTime !== 'number') return 'Missing charge temperature or total time';
+  if (value.firstCrackTime !== null && typeof value.firstCrackTime !== 'number') return 'Invalid first crack time';
+  if (!Array.isArray(value.temperatureData) || !value.temperatureData.every(isDataPoint)) return 'Invalid temperature data';
+  if (!Array.isArray(value.events)) return 'Missing events';
+  return null;
+};
+
+/**
+ * Storage schema of completed roasts
+ */
+const ROAST_SCHEMA: RecordSchema = {
+  kind: 'roast',
+  migrations: [
+    // 0 → 1: unversioned roasts, including those saved before events were recorded
+    migrateUnversionedRoast,
+    // 1 → 2: unchanged (the recipe a roast was started from is optional)
+    value => value
+  ],
+  validate: validateRoast
+};
+
+
+/**
+ * Saves a roast to the library, replacing any existing roast with the same id
+ *
+ * @param roast - Completed roast to save
+ */
+export const saveRoast = async (roast: SummaryData): Promise<void> => {
+  await withStore(ROASTS_STORE, 'readwrite', store => requestToPromise(store.put(toStoredRecord(roast))));
+};
+
+/**
+ * Loads every roast in the library
+ *
+ * @returns All usable saved roasts (unsorted; unreadable roasts are quarantined)
+ */
+export const getAllRoasts = async (): Promise<SummaryData[]> => {
+  const stored = await withStore(ROASTS_STORE, 'readonly', store => requestToPromise(store.getAll() as IDBRequest<unknown[]>));
+  return loadStoredRecords<SummaryData>(ROAST_SCHEMA, ROASTS_STORE, stored);
+};
+
+/**
+ * Loads a single roast by id
+ *
+ * @param id - Roast identifier
+ * @returns The roast, or null if it does not exist or cannot be used
+ */
+export const getRoast = async (id: string): Promise<SummaryData | null> => {
+  const stored = await withStore(ROASTS_STORE, 'readonly', store => requestToPromise(store.get(id) as IDBRequest<unknown>));
+  if (stored === undefined) return null;
+  return loadStoredRecords<SummaryData>(ROAST_SCHEMA, ROASTS_STORE, [stored])[0] ?? null;
+};
+
+/**
+ * Deletes a roast from the library
+ *
+ * @param id - Roast identifier
+ */
+export const deleteRoast = async (id: string): Promise<void> => {
+  await withStore(ROASTS_STORE, 'readwrite', store => requestToPromise(store.delete(id)));
+};
+
+/**
+ * Calculates the DTR of a saved roast
+ */
+export const getRoastDTR = (roast: SummaryData): number => {
+  return calculateDTR(roast.firstCrackTime, roast.totalTime);
+};
+
+/**
+ * Local calendar date of a roast as YYYY-MM-DD (the form of date inputs)
+ */
+const getLocalRoastDate = (roast: SummaryData): string => {
+  const date = new Date(roast.roastedAt);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Applies filter criteria to a list of roasts (dates compare in the local time zone)
+ *
+ * @param roasts - Roasts to filter
+ * @param filter - Filter criteria
+ * @returns Roasts matching every criterion
+ */
+export const filterRoasts = (roasts: SummaryData[], filter: HistoryFilter): SummaryData[] => {
+  const search = filter.search.trim().toLowerCase();
+  return roasts.filter(roast => {
+    const date = getLocalRoastDate(roast);
+    const dtr = getRoastDTR(roast);
+    if (search && !roast.beanName.toLowerCase().includes(search) && !cuppingMatches(roast, search)) return false;
+    if (filter.dateFrom && date < filter.dateFrom) return false;
+    if (filter.dateTo && date > filter.dateTo) return false;
+    if (filter.minDTR !== null && dtr < filter.minDTR) return false;
+    if (filter.maxDTR !== null && dtr > filter.maxDTR) return false;
+    if (filter.minScore !== null && (getRoastCuppingScore(roast) ?? -Infinity) < filter.minScore) return false;
+    if (filter.minRating !== null && (roast.cupping?.rating ?? -Infinity) < filter.minRating) return false;
+    return true;
+  });
+};
+
+/**
+ * Sorts roasts by the given key and direction (returns a new array)
+ *
+ * @param roasts - Roasts to sort
+ * @param key - Field to sort by
+ * @param direction - Ascending or descending
+ * @returns Sorted copy of the roasts
+ */
+export const sortRoasts = (roasts: SummaryData[], key: HistorySortKey, direction: SortDirection): SummaryData[] => {
+  const compare = (a: SummaryData, b: SummaryData): number => {
+    switch (key) {
+      case 'bean':
+        return a.beanName.localeCompare(b.beanName);
+      case 'totalTime':
+        return a.totalTime - b.totalTime;
+      case 'dtr':
+        return getRoastDTR(a) - getRoastDTR(b);
+      case 'score':
+        return (getRoastCuppingScore(a) ?? -1) - (getRoastCuppingScore(b) ?? -1);
+      case 'date':
+      default:
+        return a.roastedAt.localeCompare(b.roastedAt);
+    }
+  };
+  const sorted = [...roasts].sort(compare);
+  return direction === 'desc' ? sorted.reverse() : sorted;
+};
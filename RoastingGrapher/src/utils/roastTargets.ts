@@ -0,0 +1,190 @@
+/**
+ * Roast Target Utilities
+ *
+ * Projects when a roast will hit its targets (development time ratio, drop
+ * temperature, total time), raises alarms as the targets approach, and plays
+ * the alarm tone. Planned event times and temperatures are compared with the
+ * recorded events.
+ */
+import type { RoastEvent, RoastEventTarget, RoastEventType, RoastTargets } from '../types';
+import { ROAST_EVENTS } from './roastEvents';
+
+export type RoastTargetType = 'dtr' | 'dropTemp' | 'totalTime';
+
+/** Human-readable target names */
+export const TARGET_LABELS: Record<RoastTargetType, string> = {
+  dtr: 'Target DTR',
+  dropTemp: 'Drop temp',
+  totalTime: 'Total time'
+};
+
+/** Selectable alarm lead times in seconds */
+export const ALARM_LEAD_TIME_OPTIONS = [0, 15, 30, 60, 120];
+
+/** Default alarm lead time in seconds */
+export const DEFAULT_ALARM_LEAD_TIME = 30;
+
+/** Events that can be planned (charge always starts the roast at 00:00) */
+export const EVENT_TARGET_TYPES: RoastEventType[] = ROAST_EVENTS.map(({ type }) => type).filter(type => type !== 'charge');
+
+/**
+ * Roast state the projections are based on
+ */
+export interface RoastProgress {
+  /** Elapsed time in seconds */
+  seconds: number;
+  /** Current bean temperature in the session unit */
+  currentTemp: number;
+  /** Current Rate of Rise in degrees per minute (null if unavailable) */
+  ror: number | null;
+  /** First crack start time in seconds (null if not yet recorded) */
+  firstCrackTime: number | null;
+}
+
+/**
+ * Projected time a target will be hit
+ */
+export interface TargetProjection {
+  type: RoastTargetType;
+  /** Projected time in seconds (null if it cannot be projected yet) */
+  time: number | null;
+  /** Seconds until the target is hit (0 or less once reached, null if unknown) */
+  remaining: number | null;
+}
+
+/**
+ * Alarm raised for a target
+ * - approaching: the target is projected within the alarm lead time
+ * - reached: the target has been hit
+ */
+export interface TargetAlarm {
+  type: RoastTargetType;
+  stage: 'approaching' | 'reached';
+}
+
+/**
+ * Recorded event compared with its plan: recorded minus planned, null where
+ * either is unknown
+ */
+export interface EventTargetDeviation {
+  /** Seconds late (negative when early) */
+  time: number | null;
+  /** Degrees hotter (negative when cooler) */
+  temperature: number | null;
+}
+
+/**
+ * Check whether any target is set
+ */
+export const hasTargets = (targets: RoastTargets | null): targets is RoastTargets => {
+  return targets !== null && (
+    targets.dtr !== null || targets.dropTemp !== null || targets.totalTime !== null || (targets.events?.length ?? 0) > 0
+  );
+};
+
+/**
+ * Compare a planned event with the recorded event of the same type
+ *
+ * @param target - Planned event
+ * @param events - Recorded events
+ * @returns Deviation from the plan, or null if the event has not been recorded
+ */
+export const getEventTargetDeviation = (target: RoastEventTarget, events: RoastEvent[]): EventTargetDeviation | null => {
+  const event = events.find(e => e.type === target.type);
+  if (!event) return null;
+  return {
+    time: target.time !== null ? event.time - target.time : null,
+    temperature: target.temperature !== null ? event.temperature - target.temperature : null
+  };
+};
+
+/**
+ * Project when each set target will be hit
+ * - DTR: solves (t - firstCrack) / t = DTR, so it is known once first crack is recorded
+ * - drop temperature: extrapolates the current temperature at the current RoR
+ * - total time: the target time itself
+ *
+ * @param targets - Roast targets
+ * @param progress - Current roast state
+ * @returns Projection per set target
+ */
+export const projectTargets = (targets: RoastTargets, progress: RoastProgress): TargetProjection[] => {
+  const { seconds, currentTemp, ror, firstCrackTime } = progress;
+  const projections: TargetProjection[] = [];
+  const add = (type: RoastTargetType, time: number | null) => {
+    projections.push({ type, time, remaining: time !== null ? time - seconds : null });
+  };
+
+  if (targets.dtr !== null) {
+    add('dtr', firstCrackTime !== null && targets.dtr < 100 ? firstCrackTime / (1 - targets.dtr / 100) : null);
+  }
+  if (targets.dropTemp !== null) {
+    if (currentTemp >= targets.dropTemp) {
+      add('dropTemp', seconds);
+    } else {
+      add('dropTemp', ror !== null && ror > 0 ? seconds + ((targets.dropTemp - currentTemp) / ror) * 60 : null);
+    }
+  }
+  if (targets.totalTime !== null) {
+    add('totalTime', targets.totalTime);
+  }
+  return projections;
+};
+
+/**
+ * Get the recommended drop: the earliest projected target
+ *
+ * @param projections - Target projections
+ * @returns Earliest projection, or null if none can be projected yet
+ */
+export const getRecommendedDrop = (projections: TargetProjection[]): TargetProjection | null => {
+  return projections.reduce<TargetProjection | null>((earliest, projection) => {
+    if (projection.time === null) return earliest;
+    return earliest === null || earliest.time === null || projection.time < earliest.time ? projection : earliest;
+  }, null);
+};
+
+/**
+ * Get the alarms raised by the current projections
+ *
+ * @param projections - Target projections
+ * @param leadTime - Seconds before a target the approaching alarm fires
+ * @returns Alarm per target that is approaching or reached
+ */
+export const getTargetAlarms = (projections: TargetProjection[], leadTime: number): TargetAlarm[] => {
+  return projections.flatMap((projection): TargetAlarm[] => {
+    if (projection.remaining === null) return [];
+    if (projection.remaining <= 0) return [{ type: projection.type, stage: 'reached' }];
+    if (projection.remaining <= leadTime) return [{ type: projection.type, stage: 'approaching' }];
+    return [];
+  });
+};
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Play the alarm tone: two short beeps when approaching, three higher beeps when reached
+ *
+ * @param stage - Alarm stage
+ */
+export const playAlarmTone = (stage: TargetAlarm['stage']): void => {
+  try {
+    audioContext ??= new AudioContext();
+    const context = audioContext;
+    const frequency = stage === 'reached' ? 1320 : 880;
+    const beeps = stage === 'reached' ? 3 : 2;
+    for (let i = 0; i < beeps; i++) {
+      const start = context.currentTime + i * 0.25;
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.18);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.2);
+    }
+  } catch (error) {
+    console.error('Failed to play alarm tone:', error);
+  }
+};
@@ -0,0 +1,90 @@
+/**
+ * RoR (Rate of Rise) Calculation Utilities
+ *
+ * Provides functions for calculating the Rate of Rise, the change in bean
+ * temperature in degrees per minute over a trailing time window.
+ */
+import type { TemperatureDataPoint } from '../types';
+
+/** Default RoR window in seconds */
+export const DEFAULT_ROR_WINDOW = 30;
+
+/** Selectable RoR windows in seconds */
+export const ROR_WINDOW_OPTIONS = [15, 30, 60];
+
+/**
+ * Temperature data point with its Rate of Rise
+ */
+export interface RoRDataPoint extends TemperatureDataPoint {
+  /** Rate of Rise in degrees per minute (null until enough data is available) */
+  ror: number | null;
+}
+
+/**
+ * Calculate Rate of Rise for every data point
+ * RoR = (T(t) - T(t - window)) / window × 60
+ *
+ * Uses the oldest point inside the trailing window. Points whose available
+ * span is shorter than half the window have no RoR, which suppresses the
+ * noise at the very start of the roast.
+ *
+ * @param data - Temperature data points ordered by time
+ * @param windowSeconds - Trailing window in seconds
+ * @returns RoR in degrees per minute for each data point (null when unavailable)
+ */
+export const calculateRoR = (data: TemperatureDataPoint[], windowSeconds: number = DEFAULT_ROR_WINDOW): (number | null)[] => {
+  const result: (number | null)[] = [];
+  let start = 0;
+  for (let i = 0; i < data.length; i++) {
+    // Advance the window start so it stays within windowSeconds of the current point
+    while (data[i].time - data[start].time > windowSeconds) {
+      start++;
+    }
+    const span = data[i].time - data[start].time;
+    if (span <= 0 || span < windowSeconds / 2) {
+      result.push(null);
+    } else {
+      result.push(((data[i].temperature - data[start].temperature) / span) * 60);
+    }
+  }
+  return result;
+};
+
+/**
+ * Attach Rate of Rise to temperature data points (e.g. for charting and export)
+ *
+ * @param data - Temperature data points ordered by time
+ * @param windowSeconds - Trailing window in seconds
+ * @returns Data points with an added `ror` field
+ */
+export const withRoR = (data: TemperatureDataPoint[], windowSeconds: number = DEFAULT_ROR_WINDOW): RoRDataPoint[] => {
+  const ror = calculateRoR(data, windowSeconds);
+  return data.map((point, i) => ({ ...point, ror: ror[i] }));
+};
+
+/**
+ * Get the current (latest) Rate of Rise
+ *
+ * @param data - Temperature data points ordered by time
+ * @param windowSeconds - Trailing window in seconds
+ * @returns Latest RoR in degrees per minute, or null if not yet available
+ */
+export const getCurrentRoR = (data: TemperatureDataPoint[], windowSeconds: number = DEFAULT_ROR_WINDOW): number | null => {
+  if (data.length === 0) return null;
+  // Only the trailing window is needed for the latest value
+  const last = data[data.length - 1].time;
+  const recent = data.filter(point => point.time >= last - windowSeconds);
+  const ror = calculateRoR(recent, windowSeconds);
+  return ror[ror.length - 1];
+};
+
+/**
+ * Format a RoR value for display (e.g. "+12.3")
+ *
+ * @param ror - Rate of Rise in degrees per minute
+ * @returns Signed value with one decimal, or "--" when unavailable
+ */
+export const formatRoR = (ror: number | null): string => {
+  if (ror === null) return '--';
+  return `${ror >= 0 ? '+' : ''}${ror.toFixed(1)}`;
+};
@@ -0,0 +1,123 @@
+/**
+ * Sample Storage Utilities
+ *
+ * Temperature readings are stored change-based: a point is recorded when a
+ * reading changes, plus a keyframe repeating the current reading every
+ * KEYFRAME_INTERVAL seconds while it holds steady. Nothing is discarded, so
+ * long roasts keep their charge point.
+ *
+ * Charts draw a copy downsampled with Largest-Triangle-Three-Buckets (LTTB),
+ * and exports can resample the readings to one row per second.
+ */
+import type { TemperatureDataPoint } from '../types';
+
+/** Seconds between keyframes while a reading holds steady */
+export const KEYFRAME_INTERVAL = 5;
+
+/**
+ * Longest interval (seconds) between stored points that resampling holds a
+ * reading across; longer intervals are gaps without readings (e.g., dropouts)
+ */
+const MAX_HOLD_SECONDS = KEYFRAME_INTERVAL * 2;
+
+/** Most points drawn per chart line */
+export const CHART_MAX_POINTS = 800;
+
+/**
+ * Append a reading if it changed, or as a keyframe once the reading has held
+ * steady for the keyframe interval
+ *
+ * @param data - Stored points ordered by time
+ * @param point - New reading
+ * @param keyframeInterval - Seconds between keyframes (0 records the reading regardless, e.g. at the drop)
+ * @returns Data with the reading appended, or the same array if it was not recorded
+ */
+export const appendReading = (
+  data: TemperatureDataPoint[],
+  point: TemperatureDataPoint,
+  keyframeInterval: number = KEYFRAME_INTERVAL
+): TemperatureDataPoint[] => {
+  const last = data[data.length - 1];
+  if (!last) return [point];
+  if (point.time <= last.time) return data;
+  const unchanged = point.temperature === last.temperature && point.environmentTemp === last.environmentTemp;
+  if (unchanged && point.time - last.time < keyframeInterval) return data;
+  return [...data, point];
+};
+
+/**
+ * Resample stored points to one point per whole second by holding each
+ * reading until the next (the per-second format of exports). Seconds inside
+ * gaps without readings are left out.
+ *
+ * @param data - Stored points ordered by time
+ * @returns One point per second from the first to the last reading
+ */
+export const resampleToSeconds = (data: TemperatureDataPoint[]): TemperatureDataPoint[] => {
+  if (data.length === 0) return [];
+  const result: TemperatureDataPoint[] = [];
+  const end = Math.floor(data[data.length - 1].time);
+  let index = 0;
+  for (let time = Math.ceil(data[0].time); time <= end; time++) {
+    while (index + 1 < data.length && data[index + 1].time <= time) index++;
+    const held = data[index];
+    const next = data[index + 1];
+    if (held.time !== time && next && next.time - held.time > MAX_HOLD_SECONDS) continue;
+    const point: TemperatureDataPoint = { time, temperature: held.temperature };
+    if (held.environmentTemp !== undefined) {
+      point.environmentTemp = held.environmentTemp;
+    }
+    result.push(point);
+  }
+  return result;
+};
+
+/**
+ * Downsample points for charting with Largest-Triangle-Three-Buckets, which
+ * keeps the visual shape of the bean temperature curve (peaks, dips, first
+ * and last points) while drawing at most `threshold` points
+ *
+ * @param data - Points ordered by time
+ * @param threshold - Most points to keep
+ * @returns Selected points (the input itself when it is already small enough)
+ */
+export const downsampleLTTB = <T extends TemperatureDataPoint>(data: T[], threshold: number = CHART_MAX_POINTS): T[] => {
+  if (threshold < 3 || data.length <= threshold) return data;
+
+  const sampled: T[] = [data[0]];
+  // Points between the first and last are split into threshold - 2 buckets
+  const bucketSize = (data.length - 2) / (threshold - 2);
+  let selected = 0;
+  for (let bucket = 0; bucket < threshold - 2; bucket++) {
+    // Average of the next bucket is the third corner of the triangle
+    const nextStart = Math.floor((bucket + 1) * bucketSize) + 1;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, data.length);
+    let averageTime = 0;
+    let averageTemp = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      averageTime += data[i].time;
+      averageTemp += data[i].temperature;
+    }
+    averageTime /= nextEnd - nextStart;
+    averageTemp /= nextEnd - nextStart;
+
+    // Keep the point of this bucket forming the largest triangle with the previous selection
+    const a = data[selected];
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+    let largestArea = -1;
+    for (let i = start; i < end; i++) {
+      const area = Math.abs(
+        (a.time - averageTime) * (data[i].temperature - a.temperature) -
+        (a.time - data[i].time) * (averageTemp - a.temperature)
+      );
+      if (area > largestArea) {
+        largestArea = area;
+        selected = i;
+      }
+    }
+    sampled.push(data[selected]);
+  }
+  sampled.push(data[data.length - 1]);
+  return sampled;
+};
@@ -0,0 +1,98 @@
+/**
+ * Service Worker Registration
+ *
+ * Registers the service worker emitted by the build (plugins/serviceWorker.ts),
+ * which precaches the app so it loads offline. A new version installs in the
+ * background and waits; the app is told an update is available and the new
+ * version only takes over when the user chooses to reload. Updating never
+ * touches stored roasts, settings or sessions.
+ */
+
+/** How often an open app checks for a new version (ms) */
+const UPDATE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+let waitingWorker: ServiceWorker | null = null;
+const listeners = new Set<() => void>();
+
+/**
+ * Record the installed version waiting to take over
+ */
+function setWaitingWorker(worker: ServiceWorker | null): void {
+  waitingWorker = worker;
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Watch an installing worker and mark it as waiting once installed, unless it
+ * is the first install (nothing to update from)
+ */
+function trackInstallingWorker(worker: ServiceWorker): void {
+  worker.addEventListener('statechange', () => {
+    if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+      setWaitingWorker(worker);
+    }
+  });
+}
+
+/**
+ * Registers the service worker in production builds
+ */
+export async function registerServiceWorker(): Promise<void> {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+
+    if (registration.waiting && navigator.serviceWorker.controller) {
+      setWaitingWorker(registration.waiting);
+    }
+    registration.addEventListener('updatefound', () => {
+      if (registration.installing) trackInstallingWorker(registration.installing);
+    });
+
+    setInterval(() => {
+      registration.update().catch(error => {
+        console.warn('[Service Worker] Update check failed:', error);
+      });
+    }, UPDATE_CHECK_INTERVAL);
+
+    console.log('[Service Worker] Registered; the app is available offline');
+  } catch (error) {
+    console.error('[Service Worker] Registration failed:', error);
+  }
+}
+
+/**
+ * Subscribe to update availability changes
+ *
+ * @param listener - Called when an update becomes available
+ * @returns Unsubscribe function
+ */
+export const subscribeToUpdates = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Check whether a new version is installed and waiting
+ */
+export const isUpdateAvailable = (): boolean => {
+  return waitingWorker !== null;
+};
+
+/**
+ * Switches to the waiting version and reloads the page once it has taken over
+ */
+export function applyUpdate(): void {
+  if (!waitingWorker) return;
+
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  });
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+}
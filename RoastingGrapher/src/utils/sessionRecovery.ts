@@ -0,0 +1,275 @@
+/**
+ * Session Recovery
+ *
+ * Persists in-progress roasts in localStorage under a stable per-session key
+ * so they survive a reload or crash, and lists, resumes, discards or converts
+ * unfinished sessions. Sessions are stored as versioned records (see storage.ts).
+ */
+import type { RoastEvent, SessionData, SummaryData, TemperatureDataPoint } from '../types';
+import { getRecordedChannels } from './channels';
+import { createLegacyEvents, getEventTime, withTurningPoint } from './roastEvents';
+import { createRoastId } from './roastHistory';
+import { isDataPoint, isObject, readLocalRecord, writeLocalRecord } from './storage';
+import type { RecordSchema } from './storage';
+
+/** Prefix of every saved session key in localStorage */
+export const SESSION_KEY_PREFIX = 'roasting_session_';
+
+/** Sessions not saved for this long can no longer be resumed on the wall clock */
+export const STALE_SESSION_MS = 30 * 60 * 1000;
+
+/** Shortest missing interval (in seconds) recorded as a gap when resuming */
+const MIN_GAP_SECONDS = 3;
+
+/**
+ * Interval of the roast without temperature readings (e.g. while the app was closed)
+ */
+export interface SessionGap {
+  /** Time of the last reading before the gap, in seconds */
+  start: number;
+  /** Time logging resumed, in seconds */
+  end: number;
+}
+
+/**
+ * Persisted state of an in-progress roast
+ */
+export interface SavedSession {
+  /** Session setup the roast was started with */
+  session: SessionData;
+  temperatureData: TemperatureDataPoint[];
+  currentTemp: number;
+  currentEnvTemp: number | null;
+  /** Timer value at the last save, in seconds */
+  seconds: number;
+  /** Whether the timer was running at the last save */
+  isRunning: boolean;
+  /** Wall-clock time (ms since epoch) the timer counts from, null if unknown */
+  startTime: number | null;
+  events: RoastEvent[];
+  /** Intervals without readings */
+  gaps: SessionGap[];
+  /** Wall-clock time of the last save (ms since epoch) */
+  savedAt: number;
+}
+
+/**
+ * Creates a new unique session identifier
+ */
+export const createSessionId = (): string => crypto.randomUUID();
+
+/**
+ * localStorage key of a session
+ */
+const getSessionKey = (sessionId: string): string => `${SESSION_KEY_PREFIX}${sessionId}`;
+
+/**
+ * Upgrades an unversioned session: fills in fields missing from sessions saved
+ * by earlier versions, which stored only the progress under a
+ * "roasting_session_<bean>_<timestamp>" key
+ *
+ * @param record - Parsed localStorage value
+ * @param key - localStorage key
+ * @returns Saved session (values that are not sessions are returned unchanged and fail validation)
+ */
+const migrateUnversionedSession = (record: unknown, key: string): unknown => {
+  if (!isObject(record)) return record;
+  const sessionId = key.slice(SESSION_KEY_PREFIX.length);
+
+  // Current format
+  if (typeof record.session === 'object' && record.session !== null && Array.isArray(record.temperatureData)) {
+    const saved = record as unknown as SavedSession;
+    return {
+      ...saved,
+      session: {
+        ...saved.session,
+        targets: saved.session.targets ?? null,
+        lotId: saved.session.lotId ?? null,
+        greenWeight: saved.session.greenWeight ?? null
+      },
+      gaps: Array.isArray(saved.gaps) ? saved.gaps : []
+    };
+  }
+
+  // Legacy format
+  if (typeof record.beanName !== 'string' || typeof record.chargeTemp !== 'number' || !Array.isArray(record.temperatureData)) {
+    return record;
+  }
+  const temperatureData = record.temperatureData as TemperatureDataPoint[];
+  const seconds = typeof record.seconds === 'number' ? record.seconds : 0;
+  const firstCrackTime = typeof record.firstCrackTime === 'number' ? record.firstCrackTime : null;
+  const legacyTimestamp = Number(sessionId.slice(sessionId.lastIndexOf('_') + 1));
+  return {
+    session: {
+      sessionId,
+      beanName: record.beanName,
+      chargeTemp: record.chargeTemp,
+      unit: record.unit === 'F' ? 'F' : 'C',
+      referenceRoast: null,
+      source: { kind: 'manual' },
+      channels: getRecordedChannels(temperatureData),
+      targets: null,
+      lotId: null,
+      greenWeight: null
+    },
+    temperatureData,
+    currentTemp: typeof record.currentTemp === 'number' ? record.currentTemp : record.chargeTemp,
+    currentEnvTemp: typeof record.currentEnvTemp === 'number' ? record.currentEnvTemp : null,
+    seconds,
+    isRunning: false,
+    startTime: null,
+    events: Array.isArray(record.events)
+      ? record.events as RoastEvent[]
+      // (the turning point is detected again from the data, and the roast has not dropped yet)
+      : createLegacyEvents(temperatureData, seconds, firstCrackTime).filter(event => event.type !== 'turningPoint' && event.type !== 'drop'),
+    gaps: [],
+    savedAt: Number.isFinite(legacyTimestamp) ? legacyTimestamp + seconds * 1000 : 0
+  };
+};
+
+/**
+ * Checks that a value is a saved session at the current schema version
+ *
+ * @returns Why the value is not a usable session, or null
+ */
+const validateSavedSession = (value: unknown): string | null => {
+  if (!isObject(value)) return 'Not a session';
+  const { session } = value;
+  if (!isObject(session) || typeof session.sessionId !== 'string' || typeof session.beanName !== 'string') {
+    return 'Missing session setup';
+  }
+  if (session.unit !== 'C' && session.unit !== 'F') return 'Unknown temperature unit';
+  if (!Array.isArray(value.temperatureData) || !value.temperatureData.every(isDataPoint)) {
+    return 'Invalid temperature data';
+  }
+  if (!Array.isArray(value.events) || !Array.isArray(value.gaps)) return 'Missing events or gaps';
+  if (typeof value.seconds !== 'number' || typeof value.savedAt !== 'number') return 'Missing timer state';
+  return null;
+};
+
+/**
+ * Storage schema of in-progress sessions
+ */
+const SESSION_SCHEMA: RecordSchema = {
+  kind: 'session',
+  migrations: [
+    // 0 → 1: unversioned sessions, including the legacy per-bean format
+    migrateUnversionedSession,
+    // 1 → 2: sessions record the recipe they were started from
+    value => isObject(value) && isObject(value.session) ? { ...value, session: { recipe: null, ...value.session } } : value
+  ],
+  validate: validateSavedSession
+};
+
+/**
+ * Saves the state of an in-progress roast
+ *
+ * @param saved - Session state to persist
+ */
+export const saveSession = (saved: SavedSession): void => {
+  try {
+    writeLocalRecord(getSessionKey(saved.session.sessionId), saved);
+  } catch (error) {
+    console.error('Failed to save session:', error);
+  }
+};
+
+/**
+ * Loads a saved session
+ *
+ * @param sessionId - Session identifier
+ * @returns The saved session, or null if none exists or it cannot be read (it is then quarantined)
+ */
+export const loadSavedSession = (sessionId: string): SavedSession | null => {
+  return readLocalRecord<SavedSession>(SESSION_SCHEMA, getSessionKey(sessionId));
+};
+
+/**
+ * Removes a saved session
+ *
+ * @param sessionId - Session identifier
+ */
+export const removeSavedSession = (sessionId: string): void => {
+  localStorage.removeItem(getSessionKey(sessionId));
+};
+
+/**
+ * Lists every unfinished session in localStorage, most recently saved first
+ *
+ * @returns Saved sessions (unreadable entries are skipped and quarantined)
+ */
+export const listSavedSessions = (): SavedSession[] => {
+  const sessions: SavedSession[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(SESSION_KEY_PREFIX)) continue;
+    const saved = loadSavedSession(key.slice(SESSION_KEY_PREFIX.length));
+    if (saved) sessions.push(saved);
+  }
+  return sessions.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+/**
+ * Whether a session was last saved too long ago to continue on the wall clock
+ *
+ * @param saved - Saved session
+ * @param now - Current wall-clock time (ms since epoch)
+ */
+export const isStaleSession = (saved: SavedSession, now: number): boolean => {
+  return now - saved.savedAt > STALE_SESSION_MS;
+};
+
+/**
+ * Work out where the timer continues when a session is resumed
+ *
+ * A running session continues from its wall-clock offset (the roast kept going
+ * while the app was closed), and the interval without readings is recorded as
+ * a gap. Sessions without a known start time continue from the saved timer.
+ *
+ * @param saved - Saved session
+ * @param now - Current wall-clock time (ms since epoch)
+ * @returns Timer start time, elapsed seconds, and the gap to record (if any)
+ */
+export const getResumePoint = (
+  saved: SavedSession,
+  now: number
+): { startTime: number; seconds: number; gap: SessionGap | null } => {
+  if (!saved.isRunning || saved.startTime === null) {
+    return { startTime: now - saved.seconds * 1000, seconds: saved.seconds, gap: null };
+  }
+  const seconds = Math.max(saved.seconds, Math.floor((now - saved.startTime) / 1000));
+  // Readings are stored only when they change, so the timer (saved every second) marks when the app closed
+  const lastTime = saved.temperatureData.length > 0 ? saved.temperatureData[saved.temperatureData.length - 1].time : 0;
+  const closedAt = Math.max(lastTime, saved.seconds);
+  const gap = seconds - closedAt >= MIN_GAP_SECONDS ? { start: closedAt, end: seconds } : null;
+  return { startTime: saved.startTime, seconds, gap };
+};
+
+/**
+ * Convert an unfinished session into a completed roast, ending it at the last reading
+ *
+ * @param saved - Saved session
+ * @returns Completed roast with a drop event at the last reading
+ */
+export const createSummaryFromSession = (saved: SavedSession): SummaryData => {
+  const { session, temperatureData } = saved;
+  const lastPoint = temperatureData[temperatureData.length - 1];
+  const totalTime = lastPoint?.time ?? saved.seconds;
+  const events = saved.events.filter(event => event.time <= totalTime && event.type !== 'drop');
+  events.push({ type: 'drop', time: totalTime, temperature: lastPoint?.temperature ?? saved.currentTemp });
+  const finalEvents = withTurningPoint(events, temperatureData);
+  return {
+    id: createRoastId(),
+    roastedAt: new Date(saved.savedAt || Date.now()).toISOString(),
+    beanName: session.beanName,
+    chargeTemp: session.chargeTemp,
+    unit: session.unit,
+    temperatureData,
+    totalTime,
+    firstCrackTime: getEventTime(finalEvents, 'firstCrackStart'),
+    events: finalEvents,
+    lotId: session.lotId,
+    greenWeight: session.greenWeight,
+    recipe: session.recipe
+  };
+};
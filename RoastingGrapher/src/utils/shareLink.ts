@@ -0,0 +1,321 @@
+/**
+ * Share Links
+ *
+ * Packs a roast into the fragment of a link to the app, so it can be shared
+ * without a server: opening the link shows the roast read-only. The fragment
+ * is never sent to the server, so the static site only serves the app.
+ *
+ * Times and temperatures are delta-encoded in tenths (successive readings
+ * differ by small whole numbers), the payload is deflate-compressed and then
+ * base64url-encoded. Roasts too long for a link are resampled to one reading
+ * every few seconds, and the link reports how it was reduced.
+ *
+ * Links carry the curve, events and summary only. Cupping notes, the recipe
+ * reference and the edit history are private and are added only on request.
+ */
+import type { CuppingResult, RecipeRef, RoastEdit, RoastEvent, SummaryData, TemperatureDataPoint } from '../types';
+import { ROAST_EVENTS } from './roastEvents';
+import { resampleToSeconds } from './sampling';
+import { isObject } from './storage';
+
+/** Fragment prefix of share links */
+export const SHARE_HASH_PREFIX = '#roast=';
+
+/** Version of the encoded payload */
+const SHARE_FORMAT_VERSION = 1;
+
+/** Longest link created; longer roasts are resampled until they fit */
+export const MAX_SHARE_LINK_LENGTH = 8000;
+
+/** Links longer than this may be cut off by some email and chat apps */
+export const LONG_SHARE_LINK_LENGTH = 2000;
+
+/** Seconds between readings tried, in order, when the stored readings do not fit */
+const RESAMPLE_INTERVALS = [1, 2, 5, 10, 15, 30];
+
+/**
+ * Roast as encoded in a link (short keys keep the link short)
+ */
+interface SharePayload {
+  v: number;
+  id: string;
+  /** Bean name */
+  n: string;
+  /** Roasted at (ISO timestamp) */
+  at: string;
+  u: SummaryData['unit'];
+  /** Charge temperature */
+  c: number;
+  /** Total time in seconds */
+  tt: number;
+  /** First crack time in seconds */
+  fc: number | null;
+  /** Time deltas in tenths of a second */
+  t: number[];
+  /** Bean temperature deltas in tenths of a degree */
+  b: number[];
+  /** Environment temperature deltas in tenths (null for points without one; absent when not recorded) */
+  e?: (number | null)[];
+  /** Events as [type, time, temperature] */
+  ev: [RoastEvent['type'], number, number][];
+  /** Seconds between resampled readings (absent when the stored readings are shared) */
+  s?: number;
+  gw?: number | null;
+  rw?: number | null;
+  cu?: CuppingResult | null;
+  ed?: RoastEdit[];
+  r?: RecipeRef | null;
+}
+
+/**
+ * What to put in a share link besides the curve, events and summary
+ */
+export interface ShareOptions {
+  /** Include the cupping results, recipe reference and edit history */
+  includeNotes?: boolean;
+}
+
+/**
+ * Created share link
+ */
+export interface ShareLink {
+  url: string;
+  /** Seconds between readings if the roast was resampled to fit (null when shared as recorded) */
+  sampleInterval: number | null;
+  /** Number of readings in the link */
+  pointCount: number;
+  /** Number of readings in the roast */
+  originalPointCount: number;
+}
+
+/**
+ * Encode values as deltas of their tenths
+ */
+const toDeltas = (values: number[]): number[] => {
+  let previous = 0;
+  return values.map(value => {
+    const tenths = Math.round(value * 10);
+    const delta = tenths - previous;
+    previous = tenths;
+    return delta;
+  });
+};
+
+/**
+ * Decode deltas of tenths back to values
+ */
+const fromDeltas = (deltas: number[]): number[] => {
+  let tenths = 0;
+  return deltas.map(delta => {
+    tenths += delta;
+    return tenths / 10;
+  });
+};
+
+/**
+ * Build the link payload of a roast
+ *
+ * @param roast - Roast to share
+ * @param data - Readings to include (the stored or resampled readings)
+ * @param sampleInterval - Seconds between resampled readings (null for the stored readings)
+ * @param includeNotes - Whether to add the cupping results, recipe reference and edit history
+ */
+const createPayload = (
+  roast: SummaryData,
+  data: TemperatureDataPoint[],
+  sampleInterval: number | null,
+  includeNotes: boolean
+): SharePayload => {
+  const payload: SharePayload = {
+    v: SHARE_FORMAT_VERSION,
+    id: roast.id,
+    n: roast.beanName,
+    at: roast.roastedAt,
+    u: roast.unit,
+    c: roast.chargeTemp,
+    tt: roast.totalTime,
+    fc: roast.firstCrackTime,
+    t: toDeltas(data.map(point => point.time)),
+    b: toDeltas(data.map(point => point.temperature)),
+    ev: roast.events.map(event => [event.type, event.time, event.temperature])
+  };
+  if (data.some(point => point.environmentTemp !== undefined)) {
+    let previous = 0;
+    payload.e = data.map(point => {
+      if (point.environmentTemp === undefined) return null;
+      const tenths = Math.round(point.environmentTemp * 10);
+      const delta = tenths - previous;
+      previous = tenths;
+      return delta;
+    });
+  }
+  if (sampleInterval !== null) payload.s = sampleInterval;
+  if (roast.greenWeight != null) payload.gw = roast.greenWeight;
+  if (roast.roastedWeight != null) payload.rw = roast.roastedWeight;
+  if (!includeNotes) return payload;
+  if (roast.cupping) payload.cu = roast.cupping;
+  if (roast.edits?.length) payload.ed = roast.edits;
+  if (roast.recipe) payload.r = roast.recipe;
+  return payload;
+};
+
+/**
+ * Deflate text and encode it as base64url
+ */
+const compress = async (text: string): Promise<string> => {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('deflate'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Decode base64url and inflate the text
+ */
+const decompress = async (encoded: string): Promise<string> => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Response(stream).text();
+};
+
+/**
+ * Creates a link that opens the roast read-only. Roasts too long for a link
+ * are resampled to fewer readings until the link fits.
+ *
+ * @param roast - Roast to share
+ * @param options - Private details to include (none by default)
+ * @param appUrl - Address of the app (defaults to the address it is served from)
+ * @returns The link and how the readings were reduced to fit it
+ */
+export const createShareLink = async (
+  roast: SummaryData,
+  { includeNotes = false }: ShareOptions = {},
+  appUrl: string = new URL(import.meta.env.BASE_URL, window.location.origin).href
+): Promise<ShareLink> => {
+  const buildLink = async (data: TemperatureDataPoint[], sampleInterval: number | null): Promise<ShareLink> => ({
+    url: `${appUrl}${SHARE_HASH_PREFIX}${await compress(JSON.stringify(createPayload(roast, data, sampleInterval, includeNotes)))}`,
+    sampleInterval,
+    pointCount: data.length,
+    originalPointCount: roast.temperatureData.length
+  });
+
+  let link = await buildLink(roast.temperatureData, null);
+  if (link.url.length <= MAX_SHARE_LINK_LENGTH) return link;
+
+  const perSecond = resampleToSeconds(roast.temperatureData);
+  for (const interval of RESAMPLE_INTERVALS) {
+    // Keep every interval-th second and the last reading
+    const data = perSecond.filter((point, index) => point.time % interval === 0 || index === perSecond.length - 1);
+    link = await buildLink(data, interval);
+    if (link.url.length <= MAX_SHARE_LINK_LENGTH) break;
+  }
+  return link;
+};
+
+/**
+ * Checks that a decoded value is a well-formed link payload
+ *
+ * @returns Why the value is not a usable payload, or null
+ */
+const validatePayload = (value: unknown): string | null => {
+  if (!isObject(value) || typeof value.v !== 'number') return 'The link does not contain a roast';
+  if (value.v > SHARE_FORMAT_VERSION) return 'The link was made by a newer version of the app; reload to update it';
+  if (typeof value.id !== 'string' || typeof value.n !== 'string' || typeof value.at !== 'string') return 'The link is missing the roast details';
+  if ((value.u !== 'C' && value.u !== 'F') || typeof value.c !== 'number' || typeof value.tt !== 'number') return 'The link is missing the roast details';
+  if (!Array.isArray(value.t) || !Array.isArray(value.b) || value.t.length !== value.b.length || value.t.length === 0) {
+    return 'The link does not contain readings';
+  }
+  if (![...value.t, ...value.b].every(delta => typeof delta === 'number')) return 'The link contains invalid readings';
+  if (value.e !== undefined && (!Array.isArray(value.e) || value.e.length !== value.t.length)) return 'The link contains invalid readings';
+  if (!Array.isArray(value.ev) || !value.ev.every(event => (
+    Array.isArray(event) && ROAST_EVENTS.some(definition => definition.type === event[0]) &&
+    typeof event[1] === 'number' && typeof event[2] === 'number'
+  ))) {
+    return 'The link contains invalid roast events';
+  }
+  return null;
+};
+
+/**
+ * Reads the roast from a share link fragment
+ *
+ * @param hash - Location fragment (e.g., `window.location.hash`)
+ * @returns The shared roast and notes about how it was reduced, why it cannot be opened, or null if the fragment is not a share link
+ */
+export const readShareLink = async (hash: string): Promise<{ roast: SummaryData; warnings: string[] } | { error: string } | null> => {
+  if (!hash.startsWith(SHARE_HASH_PREFIX)) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(await decompress(hash.slice(SHARE_HASH_PREFIX.length)));
+  } catch {
+    return { error: 'The roast link is damaged or incomplete (it may have been cut off when it was copied)' };
+  }
+  const problem = validatePayload(value);
+  if (problem) return { error: problem };
+
+  const payload = value as SharePayload;
+  const times = fromDeltas(payload.t);
+  const temperatures = fromDeltas(payload.b);
+  let environmentTenths = 0;
+  const temperatureData = times.map((time, index): TemperatureDataPoint => {
+    const point: TemperatureDataPoint = { time, temperature: temperatures[index] };
+    const delta = payload.e?.[index];
+    if (typeof delta === 'number') {
+      environmentTenths += delta;
+      point.environmentTemp = environmentTenths / 10;
+    }
+    return point;
+  });
+
+  const warnings = payload.s
+    ? [`Shared link: readings were resampled to one every ${payload.s} second${payload.s === 1 ? '' : 's'} to fit the link`]
+    : [];
+  return {
+    roast: {
+      id: payload.id,
+      roastedAt: payload.at,
+      beanName: payload.n,
+      chargeTemp: payload.c,
+      unit: payload.u,
+      temperatureData,
+      totalTime: payload.tt,
+      firstCrackTime: typeof payload.fc === 'number' ? payload.fc : null,
+      events: payload.ev.map(([type, time, temperature]) => ({ type, time, temperature })),
+      greenWeight: typeof payload.gw === 'number' ? payload.gw : null,
+      roastedWeight: typeof payload.rw === 'number' ? payload.rw : null,
+      cupping: isObject(payload.cu) && typeof payload.cu.notes === 'string' ? payload.cu : null,
+      edits: Array.isArray(payload.ed) ? payload.ed : [],
+      recipe: isObject(payload.r) && typeof payload.r.name === 'string' && typeof payload.r.revision === 'number' ? payload.r : null
+    },
+    warnings
+  };
+};
+
+/**
+ * Describe how a share link was reduced and whether it may be too long to share everywhere
+ *
+ * @param link - Created share link
+ * @returns Warnings to show with the link (empty when it is short and complete)
+ */
+export const getShareLinkWarnings = (link: ShareLink): string[] => {
+  const warnings: string[] = [];
+  const size = `${(link.url.length / 1000).toFixed(1)}k characters`;
+  if (link.sampleInterval !== null) {
+    warnings.push(
+      `This roast is too long for a link, so its ${link.originalPointCount} readings were resampled to ` +
+      `${link.pointCount} (one every ${link.sampleInterval} second${link.sampleInterval === 1 ? '' : 's'}). ` +
+      'Share the JSON export for the full data.'
+    );
+  }
+  if (link.url.length > MAX_SHARE_LINK_LENGTH) {
+    warnings.push(`The link is ${size} long even after resampling and may not open in every browser or app.`);
+  } else if (link.url.length > LONG_SHARE_LINK_LENGTH) {
+    warnings.push(`The link is ${size} long; some email and chat apps cut off links this long.`);
+  }
+  return warnings;
+};
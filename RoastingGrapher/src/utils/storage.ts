@@ -0,0 +1,310 @@
+/**
+ * Versioned Storage
+ *
+ * Every persisted record carries the schema version it was written with:
+ * localStorage values are stored as `{ schemaVersion, data }` and IndexedDB
+ * records have a `schemaVersion` field. Records without a version were
+ * written before versioning and count as version 0.
+ *
+ * Each data kind (in-progress sessions, completed roasts, recipes, settings) defines a
+ * schema with one migration per version step and a validator. Loading runs
+ * the migrations a record needs, in order, then validates it. Records that
+ * cannot be read, fail validation, or were written by a newer version of the
+ * app are moved to a quarantine store instead of crashing the app or being
+ * deleted, so they can still be exported or recovered later.
+ *
+ * SCHEMA_VERSION is independent of APP_VERSION: releasing a new app version
+ * never changes stored data unless a migration is added here.
+ */
+import type { TemperatureDataPoint } from '../types';
+import { QUARANTINE_STORE, openDatabase, requestToPromise, withStore } from './database';
+
+/**
+ * Current schema version of stored records. Bump it when a stored format
+ * changes and add the matching migration to every schema.
+ */
+export const SCHEMA_VERSION = 2;
+
+/**
+ * Kind of persisted data
+ */
+export type DataKind = 'session' | 'roast' | 'recipe' | 'settings';
+
+/**
+ * Upgrades a record by one schema version
+ *
+ * @param value - Record at the version before this step
+ * @param key - Storage key or id of the record
+ * @returns Record at the next version
+ */
+export type Migration = (value: unknown, key: string) => unknown;
+
+/**
+ * Schema of a data kind
+ */
+export interface RecordSchema {
+  kind: DataKind;
+  /** Ordered migrations; `migrations[v]` upgrades a record from version v to v + 1 (one per version) */
+  migrations: Migration[];
+  /** Checks a record at the current version, returning why it is invalid (null when valid) */
+  validate: (value: unknown) => string | null;
+}
+
+/**
+ * Record that could not be loaded, kept aside instead of being deleted
+ */
+export interface QuarantinedRecord {
+  /** Kind and storage key (`<kind>:<key>`) */
+  id: string;
+  kind: DataKind;
+  /** localStorage key or IndexedDB id the record was stored under */
+  key: string;
+  /** Why the record was quarantined */
+  reason: string;
+  /** ISO timestamp of when the record was quarantined */
+  quarantinedAt: string;
+  /** Record as stored (raw text for localStorage values) */
+  value: unknown;
+}
+
+/**
+ * Result of loading a record: the record at the current version, or why it cannot be used
+ */
+export type LoadResult<T> = { record: T } | { error: string };
+
+/**
+ * Whether a value is a plain object (not null or an array)
+ */
+export const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/**
+ * Whether a stored value is a temperature data point
+ */
+export const isDataPoint = (value: unknown): value is TemperatureDataPoint => {
+  return isObject(value) && typeof value.time === 'number' && typeof value.temperature === 'number';
+};
+
+/**
+ * Migrate a record to the current schema version and validate it
+ *
+ * @param schema - Schema of the record's data kind
+ * @param version - Schema version the record was stored with
+ * @param value - Stored record
+ * @param key - Storage key or id of the record
+ * @returns Upgraded record, or why it cannot be used
+ */
+export const upgradeRecord = <T>(schema: RecordSchema, version: number, value: unknown, key: string): LoadResult<T> => {
+  if (!Number.isInteger(version) || version < 0) {
+    return { error: `Unknown schema version ${version}` };
+  }
+  if (version > SCHEMA_VERSION) {
+    return { error: `Saved by a newer version of the app (schema ${version}, this version reads up to ${SCHEMA_VERSION})` };
+  }
+  let record = value;
+  try {
+    for (let step = version; step < SCHEMA_VERSION; step++) {
+      const migrate = schema.migrations[step];
+      if (!migrate) throw new Error(`No ${schema.kind} migration from schema ${step}`);
+      record = migrate(record, key);
+    }
+  } catch (error) {
+    return { error: `Migration failed: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  const problem = schema.validate(record);
+  return problem ? { error: problem } : { record: record as T };
+};
+
+/**
+ * Store a record aside in the quarantine
+ */
+const putQuarantined = async (kind: DataKind, key: string, reason: string, value: unknown): Promise<void> => {
+  const entry: QuarantinedRecord = { id: `${kind}:${key}`, kind, key, reason, quarantinedAt: new Date().toISOString(), value };
+  await withStore(QUARANTINE_STORE, 'readwrite', store => requestToPromise(store.put(entry)));
+};
+
+/**
+ * Moves a localStorage value into the quarantine. The value is only removed
+ * from localStorage once the quarantine has stored it.
+ *
+ * @param kind - Data kind of the value
+ * @param key - localStorage key
+ * @param reason - Why the value cannot be used
+ */
+const quarantineLocalValue = (kind: DataKind, key: string, reason: string): void => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return;
+  console.warn(`[Storage] Quarantining ${kind} "${key}": ${reason}`);
+  putQuarantined(kind, key, reason, raw)
+    .then(() => {
+      // Leave the value in place if it was rewritten in the meantime
+      if (localStorage.getItem(key) === raw) localStorage.removeItem(key);
+    })
+    .catch(error => {
+      console.error('Failed to quarantine stored value (left in place):', error);
+    });
+};
+
+/**
+ * Reads a versioned localStorage value, migrating and validating it.
+ * Values that cannot be used are quarantined.
+ *
+ * @param schema - Schema of the value's data kind
+ * @param key - localStorage key
+ * @returns The value at the current schema version, or null if none is usable
+ */
+export const readLocalRecord = <T>(schema: RecordSchema, key: string): T | null => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    quarantineLocalValue(schema.kind, key, 'Not valid JSON');
+    return null;
+  }
+
+  // Values written before versioning are stored bare
+  const result = isObject(parsed) && typeof parsed.schemaVersion === 'number' && 'data' in parsed
+    ? upgradeRecord<T>(schema, parsed.schemaVersion, parsed.data, key)
+    : upgradeRecord<T>(schema, 0, parsed, key);
+  if ('error' in result) {
+    quarantineLocalValue(schema.kind, key, result.error);
+    return null;
+  }
+  return result.record;
+};
+
+/**
+ * Writes a value to localStorage at the current schema version
+ *
+ * @param key - localStorage key
+ * @param value - Value to store
+ * @param schemaVersion - Version the value is in (older values, e.g. restored from a backup, are migrated when loaded)
+ */
+export const writeLocalRecord = (key: string, value: unknown, schemaVersion: number = SCHEMA_VERSION): void => {
+  localStorage.setItem(key, JSON.stringify({ schemaVersion, data: value }));
+};
+
+/**
+ * Adds the schema version to a record stored in IndexedDB
+ *
+ * @param record - Record to store
+ * @param schemaVersion - Version the record is in (defaults to the current version)
+ * @returns Record with its schema version
+ */
+export const toStoredRecord = <T extends object>(record: T, schemaVersion: number = SCHEMA_VERSION): T & { schemaVersion: number } => {
+  return { ...record, schemaVersion };
+};
+
+/**
+ * Migrates and validates a record read from IndexedDB
+ *
+ * @param schema - Schema of the record's data kind
+ * @param stored - Record as stored
+ * @param key - Record id
+ * @returns Record at the current version without its schema version field, or why it cannot be used
+ */
+export const fromStoredRecord = <T>(schema: RecordSchema, stored: unknown, key: string): LoadResult<T> => {
+  if (!isObject(stored)) return { error: 'Not a record' };
+  const { schemaVersion, ...record } = stored;
+  return upgradeRecord<T>(schema, typeof schemaVersion === 'number' ? schemaVersion : 0, record, key);
+};
+
+/**
+ * Moves an IndexedDB record into the quarantine in a single transaction
+ *
+ * @param kind - Data kind of the record
+ * @param storeName - Object store the record is in
+ * @param key - Record id
+ * @param reason - Why the record cannot be used
+ */
+export const quarantineStoredRecord = async (kind: DataKind, storeName: string, key: string, reason: string): Promise<void> => {
+  console.warn(`[Storage] Quarantining ${kind} "${key}": ${reason}`);
+  const db = await openDatabase();
+  const transaction = db.transaction([storeName, QUARANTINE_STORE], 'readwrite');
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const store = transaction.objectStore(storeName);
+  const value = await requestToPromise(store.get(key));
+  if (value !== undefined) {
+    const entry: QuarantinedRecord = { id: `${kind}:${key}`, kind, key, reason, quarantinedAt: new Date().toISOString(), value };
+    transaction.objectStore(QUARANTINE_STORE).put(entry);
+    store.delete(key);
+  }
+  await done;
+};
+
+/**
+ * Upgrades records read from an object store, quarantining those that cannot be used
+ *
+ * @param schema - Schema of the records' data kind
+ * @param storeName - Object store the records were read from
+ * @param stored - Records as stored
+ * @returns Usable records at the current version
+ */
+export const loadStoredRecords = <T>(schema: RecordSchema, storeName: string, stored: unknown[]): T[] => {
+  const records: T[] = [];
+  stored.forEach(record => {
+    const id = isObject(record) && typeof record.id === 'string' ? record.id : '';
+    const result = fromStoredRecord<T>(schema, record, id);
+    if ('record' in result) {
+      records.push(result.record);
+      return;
+    }
+    quarantineStoredRecord(schema.kind, storeName, id, result.error).catch(error => {
+      console.error(`Failed to quarantine ${schema.kind} (left in place):`, error);
+    });
+  });
+  return records;
+};
+
+/**
+ * Loads every quarantined record
+ *
+ * @returns Quarantined records, most recent first
+ */
+export const getQuarantinedRecords = async (): Promise<QuarantinedRecord[]> => {
+  const records = await withStore(QUARANTINE_STORE, 'readonly', store => requestToPromise(store.getAll() as IDBRequest<QuarantinedRecord[]>));
+  return records.sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
+};
+
+/**
+ * Schema of stored settings (key bindings, phase thresholds, report template).
+ * Each setting's loader fills in defaults for missing or invalid fields.
+ */
+const SETTINGS_SCHEMA: RecordSchema = {
+  kind: 'settings',
+  migrations: [
+    // 0 → 1: unversioned settings objects are used as they are
+    value => value,
+    // 1 → 2: unchanged
+    value => value
+  ],
+  validate: value => (isObject(value) ? null : 'Settings must be an object')
+};
+
+/**
+ * Reads a stored setting
+ *
+ * @param key - localStorage key of the setting
+ * @returns The stored settings object, or null if none is usable
+ */
+export const readSetting = (key: string): Record<string, unknown> | null => {
+  return readLocalRecord<Record<string, unknown>>(SETTINGS_SCHEMA, key);
+};
+
+/**
+ * Writes a setting
+ *
+ * @param key - localStorage key of the setting
+ * @param value - Settings object
+ */
+export const writeSetting = (key: string, value: object): void => {
+  writeLocalRecord(key, value);
+};
@@ -0,0 +1,328 @@
+/**
+ * Temperature Sources
+ *
+ * Pluggable providers of temperature readings for the roasting screen:
+ * - manual: readings set with the on-screen buttons
+ * - simulated: a deterministic synthetic roast curve for demos and tests
+ * - websocket: JSON readings streamed from a local thermocouple bridge
+ */
+import type { ChannelKey, TemperatureSourceConfig, TemperatureUnit } from '../types';
+import { convertTemperature } from './unitConversion';
+
+export type TemperatureSourceKind = TemperatureSourceConfig['kind'];
+
+/**
+ * Connection health of a source
+ * - connecting: waiting for the first reading
+ * - connected: readings are arriving
+ * - stale: connected but no reading within the stale timeout
+ * - disconnected: connection lost, reconnecting
+ */
+export type SourceStatus = 'connecting' | 'connected' | 'stale' | 'disconnected';
+
+/**
+ * Single temperature reading in the session unit
+ */
+export interface TemperatureReading {
+  /** Bean temperature (BT) */
+  temperature: number;
+  /** Environment temperature (ET), if the source provides it */
+  environmentTemp?: number;
+  /** Wall-clock time of the reading (ms since epoch) */
+  timestamp: number;
+}
+
+export type ReadingListener = (reading: TemperatureReading) => void;
+export type StatusListener = (status: SourceStatus, message?: string) => void;
+
+/**
+ * Common interface of all temperature sources
+ */
+export interface TemperatureSource {
+  kind: TemperatureSourceKind;
+  /** Starts delivering readings and status changes */
+  start: (onReading: ReadingListener, onStatus: StatusListener) => void;
+  /** Stops the source and releases its resources */
+  stop: () => void;
+}
+
+/**
+ * Manual source: the user sets each reading
+ */
+export interface ManualTemperatureSource extends TemperatureSource {
+  kind: 'manual';
+  /** Sets one channel and emits (and returns) a reading with the current value of every channel */
+  setTemperature: (temperature: number, channel?: ChannelKey) => TemperatureReading;
+}
+
+/**
+ * Check whether a source is the manual source
+ */
+export const isManualSource = (source: TemperatureSource | null): source is ManualTemperatureSource => {
+  return source?.kind === 'manual';
+};
+
+/** Default address of the local thermocouple bridge */
+export const DEFAULT_WEBSOCKET_URL = 'ws://localhost:8765';
+
+/** Time without readings before a WebSocket source is reported as stale */
+const STALE_TIMEOUT_MS = 5000;
+
+/** Reconnect delays grow from the minimum to the maximum after each failure */
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 10000;
+
+/** Human-readable source names */
+export const SOURCE_LABELS: Record<TemperatureSourceKind, string> = {
+  manual: 'Manual',
+  simulated: 'Simulated',
+  websocket: 'WebSocket'
+};
+
+/**
+ * Create a manual source whose readings come from the on-screen buttons
+ *
+ * @param initialTemperature - Starting temperature of every channel (usually the charge temperature)
+ * @param channels - Channels the user adjusts
+ */
+export const createManualSource = (initialTemperature: number, channels: ChannelKey[] = ['temperature']): ManualTemperatureSource => {
+  let listener: ReadingListener | null = null;
+  const values: Partial<Record<ChannelKey, number>> = {};
+  channels.forEach(channel => {
+    values[channel] = initialTemperature;
+  });
+  return {
+    kind: 'manual',
+    start: (onReading, onStatus) => {
+      listener = onReading;
+      onStatus('connected');
+    },
+    stop: () => {
+      listener = null;
+    },
+    setTemperature: (value, channel = 'temperature') => {
+      values[channel] = value;
+      const reading: TemperatureReading = {
+        temperature: values.temperature ?? initialTemperature,
+        environmentTemp: values.environmentTemp,
+        timestamp: Date.now()
+      };
+      listener?.(reading);
+      return reading;
+    }
+  };
+};
+
+/**
+ * Bean temperature of the synthetic roast curve (in Celsius)
+ *
+ * Falls from the charge temperature to a turning point at 90 seconds, then
+ * rises with a steadily declining rate of rise towards 240°C, passing first
+ * crack temperatures around nine minutes for a typical 200°C charge.
+ *
+ * @param elapsedSeconds - Time since charge in seconds
+ * @param chargeTempC - Charge temperature in Celsius
+ * @returns Bean temperature in Celsius
+ */
+export const simulatedTemperatureC = (elapsedSeconds: number, chargeTempC: number): number => {
+  const turningPointTime = 90;
+  const turningPointTemp = chargeTempC * 0.47;
+  if (elapsedSeconds <= turningPointTime) {
+    const progress = elapsedSeconds / turningPointTime;
+    return chargeTempC - (chargeTempC - turningPointTemp) * (1 - (1 - progress) ** 2);
+  }
+  const finalTemp = 240;
+  return turningPointTemp + (finalTemp - turningPointTemp) * (1 - Math.exp(-(elapsedSeconds - turningPointTime) / 420));
+};
+
+/**
+ * Environment temperature of the synthetic roast curve (in Celsius)
+ *
+ * Dips briefly when the beans are charged, then climbs slowly to stay
+ * above the bean temperature for the whole roast.
+ *
+ * @param elapsedSeconds - Time since charge in seconds
+ * @param chargeTempC - Charge temperature in Celsius
+ * @returns Environment temperature in Celsius
+ */
+export const simulatedEnvironmentTemperatureC = (elapsedSeconds: number, chargeTempC: number): number => {
+  const dip = 25 * Math.exp(-elapsedSeconds / 60);
+  return chargeTempC + 10 + 50 * (1 - Math.exp(-elapsedSeconds / 600)) - dip;
+};
+
+/**
+ * Create a simulated source that follows the synthetic roast curve, one reading per second
+ *
+ * The curve is timed from the roast's start, so a resumed or remounted
+ * session continues where the roast is rather than restarting at charge.
+ *
+ * @param chargeTemp - Charge temperature in the session unit
+ * @param unit - Session temperature unit
+ * @param channels - Channels to simulate
+ * @param roastStartTime - When the roast was charged (ms since epoch); null holds the charge temperature until then
+ */
+export const createSimulatedSource = (
+  chargeTemp: number,
+  unit: TemperatureUnit,
+  channels: ChannelKey[] = ['temperature'],
+  roastStartTime: number | null = null
+): TemperatureSource => {
+  let intervalId: number | null = null;
+  return {
+    kind: 'simulated',
+    start: (onReading, onStatus) => {
+      const chargeTempC = convertTemperature(chargeTemp, unit, 'C');
+      const emit = () => {
+        const now = Date.now();
+        const elapsed = roastStartTime !== null ? Math.max(0, (now - roastStartTime) / 1000) : 0;
+        const round = (valueC: number) => Math.round(convertTemperature(valueC, 'C', unit) * 10) / 10;
+        onReading({
+          temperature: round(simulatedTemperatureC(elapsed, chargeTempC)),
+          environmentTemp: channels.includes('environmentTemp')
+            ? round(simulatedEnvironmentTemperatureC(elapsed, chargeTempC))
+            : undefined,
+          timestamp: now
+        });
+      };
+      onStatus('connected');
+      emit();
+      intervalId = window.setInterval(emit, 1000);
+    },
+    stop: () => {
+      if (intervalId !== null) {
+        clearInterval(intervalId);
+        intervalId = null;
+      }
+    }
+  };
+};
+
+/**
+ * Parse a reading message from the bridge
+ *
+ * Accepts `{"temperature": 201.5}` or `{"bt": 201.5}`, with an optional
+ * environment temperature as `"et"` and an optional `"unit": "C" | "F"`
+ * (defaults to the session unit).
+ *
+ * @param data - Raw message data
+ * @param unit - Session temperature unit
+ * @returns Channel values in the session unit, or null if the message is not a reading
+ */
+export const parseReadingMessage = (
+  data: unknown,
+  unit: TemperatureUnit
+): Omit<TemperatureReading, 'timestamp'> | null => {
+  if (typeof data !== 'string') return null;
+  try {
+    const message = JSON.parse(data) as Record<string, unknown>;
+    const value = typeof message.temperature === 'number' ? message.temperature : message.bt;
+    if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+    const messageUnit = message.unit === 'C' || message.unit === 'F' ? message.unit : unit;
+    const environmentTemp = typeof message.et === 'number' && Number.isFinite(message.et)
+      ? convertTemperature(message.et, messageUnit, unit)
+      : undefined;
+    return { temperature: convertTemperature(value, messageUnit, unit), environmentTemp };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Create a source that reads JSON messages from a WebSocket bridge,
+ * reconnecting with backoff after dropouts
+ *
+ * @param url - WebSocket URL of the bridge
+ * @param unit - Session temperature unit
+ */
+export const createWebSocketSource = (url: string, unit: TemperatureUnit): TemperatureSource => {
+  let socket: WebSocket | null = null;
+  let stopped = false;
+  let reconnectDelay = RECONNECT_MIN_MS;
+  let reconnectTimer: number | null = null;
+  let staleTimer: number | null = null;
+
+  const clearTimers = () => {
+    if (reconnectTimer !== null) clearTimeout(reconnectTimer);
+    if (staleTimer !== null) clearTimeout(staleTimer);
+    reconnectTimer = null;
+    staleTimer = null;
+  };
+
+  return {
+    kind: 'websocket',
+    start: (onReading, onStatus) => {
+      stopped = false;
+
+      const armStaleTimer = () => {
+        if (staleTimer !== null) clearTimeout(staleTimer);
+        staleTimer = window.setTimeout(() => onStatus('stale', 'No readings received'), STALE_TIMEOUT_MS);
+      };
+
+      const connect = () => {
+        onStatus('connecting');
+        try {
+          socket = new WebSocket(url);
+        } catch (error) {
+          console.error('[Temperature Source] Invalid WebSocket URL:', error);
+          onStatus('disconnected', 'Invalid bridge address');
+          return;
+        }
+
+        socket.onopen = () => {
+          reconnectDelay = RECONNECT_MIN_MS;
+          armStaleTimer();
+        };
+        socket.onmessage = (event) => {
+          const reading = parseReadingMessage(event.data, unit);
+          if (reading === null) return;
+          armStaleTimer();
+          onStatus('connected');
+          onReading({ ...reading, timestamp: Date.now() });
+        };
+        socket.onclose = () => {
+          socket = null;
+          if (stopped) return;
+          clearTimers();
+          onStatus('disconnected', `Reconnecting in ${Math.round(reconnectDelay / 1000)}s`);
+          reconnectTimer = window.setTimeout(connect, reconnectDelay);
+          reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_MS);
+        };
+      };
+
+      connect();
+    },
+    stop: () => {
+      stopped = true;
+      clearTimers();
+      socket?.close();
+      socket = null;
+    }
+  };
+};
+
+/**
+ * Create the source described by a session's source configuration
+ *
+ * @param config - Source selection
+ * @param chargeTemp - Charge temperature in the session unit
+ * @param unit - Session temperature unit
+ * @param channels - Channels recorded in the session
+ * @param roastStartTime - When the roast was charged (ms since epoch, null if not yet), used by the simulator
+ */
+export const createTemperatureSource = (
+  config: TemperatureSourceConfig,
+  chargeTemp: number,
+  unit: TemperatureUnit,
+  channels: ChannelKey[] = ['temperature'],
+  roastStartTime: number | null = null
+): TemperatureSource => {
+  switch (config.kind) {
+    case 'simulated':
+      return createSimulatedSource(chargeTemp, unit, channels, roastStartTime);
+    case 'websocket':
+      return createWebSocketSource(config.url, unit);
+    case 'manual':
+    default:
+      return createManualSource(chargeTemp, channels);
+  }
+};
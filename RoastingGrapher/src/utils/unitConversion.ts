@@ -0,0 +1,92 @@
+/**
+ * Unit Conversion Utilities
+ * 
+ * Converts temperatures and roasts between Celsius and Fahrenheit. Roasts are
+ * stored in the unit they were recorded in; screens and exports convert them
+ * to the unit the user chooses to view or write.
+ */
+import type { SummaryData, TemperatureDataPoint, TemperatureUnit } from '../types';
+
+/**
+ * Convert an absolute temperature between units
+ * 
+ * @param value - Temperature in the source unit
+ * @param from - Source unit
+ * @param to - Target unit
+ * @returns Temperature in the target unit
+ */
+export const convertTemperature = (value: number, from: TemperatureUnit, to: TemperatureUnit): number => {
+  if (from === to) return value;
+  return to === 'F' ? value * 9 / 5 + 32 : (value - 32) * 5 / 9;
+};
+
+/**
+ * Convert a temperature difference (e.g. a step size, delta or RoR) between units
+ * 
+ * @param value - Temperature difference in the source unit
+ * @param from - Source unit
+ * @param to - Target unit
+ * @returns Temperature difference in the target unit
+ */
+export const convertTemperatureDelta = (value: number, from: TemperatureUnit, to: TemperatureUnit): number => {
+  if (from === to) return value;
+  return to === 'F' ? value * 9 / 5 : value * 5 / 9;
+};
+
+/**
+ * Convert every channel of a list of data points to another unit
+ * 
+ * @param data - Temperature data points in the source unit
+ * @param from - Source unit
+ * @param to - Target unit
+ * @returns The data itself when the units match, otherwise a converted copy
+ */
+export const convertDataPoints = (data: TemperatureDataPoint[], from: TemperatureUnit, to: TemperatureUnit): TemperatureDataPoint[] => {
+  if (from === to) return data;
+  return data.map(point => ({
+    ...point,
+    temperature: convertTemperature(point.temperature, from, to),
+    ...(point.environmentTemp !== undefined && {
+      environmentTemp: convertTemperature(point.environmentTemp, from, to)
+    })
+  }));
+};
+
+/**
+ * Convert a completed roast to another temperature unit
+ * 
+ * @param roast - Completed roast
+ * @param unit - Target unit
+ * @returns The roast itself when already in the target unit, otherwise a converted copy
+ */
+export const convertRoastUnit = (roast: SummaryData, unit: TemperatureUnit): SummaryData => {
+  if (roast.unit === unit) return roast;
+  return {
+    ...roast,
+    unit,
+    chargeTemp: convertTemperature(roast.chargeTemp, roast.unit, unit),
+    temperatureData: convertDataPoints(roast.temperatureData, roast.unit, unit),
+    events: roast.events.map(event => ({
+      ...event,
+      temperature: convertTemperature(event.temperature, roast.unit, unit)
+    }))
+  };
+};
+
+/**
+ * Selectable manual temperature steps per unit
+ */
+export const TEMPERATURE_STEP_OPTIONS: Record<TemperatureUnit, number[]> = {
+  C: [0.5, 1, 2, 5, 10],
+  F: [1, 1.8, 5, 10, 20]
+};
+
+/**
+ * Default manual temperature step: one degree Celsius, shown as 1.8°F in Fahrenheit
+ * 
+ * @param unit - Unit the step is expressed in
+ * @returns Step size in the given unit
+ */
+export const getTemperatureStep = (unit: TemperatureUnit): number => {
+  return unit === 'C' ? 1 : 1.8;
+};
@@ -0,0 +1,81 @@
+/**
+ * Weight Loss Utilities
+ *
+ * Calculates the weight loss and yield of a roast from its green (charge) and
+ * roasted (drop) weights. Weight loss is mostly moisture driven off during the
+ * roast, so together with DTR it indicates how far the beans were developed.
+ */
+import type { SummaryData } from '../types';
+
+/**
+ * Roast development judged from weight loss
+ */
+export type DevelopmentLevel = 'Light' | 'Medium' | 'Dark';
+
+/** Weight loss (%) from which a roast counts as medium, then dark */
+const MEDIUM_WEIGHT_LOSS = 13;
+const DARK_WEIGHT_LOSS = 16;
+
+/**
+ * Weights of a roast with the derived loss and yield
+ */
+export interface RoastWeights {
+  /** Green batch weight in grams */
+  greenWeight: number;
+  /** Roasted batch weight in grams */
+  roastedWeight: number;
+  /** Weight lost during the roast, as a percentage of the green weight */
+  weightLoss: number;
+  /** Roasted weight as a percentage of the green weight */
+  yield: number;
+}
+
+/**
+ * Calculate weight loss
+ * WeightLoss(%) = (GreenWeight - RoastedWeight) / GreenWeight × 100
+ *
+ * @param greenWeight - Green weight
+ * @param roastedWeight - Roasted weight (same unit)
+ * @returns Weight loss as a percentage, or null if the green weight is not positive
+ */
+export const calculateWeightLoss = (greenWeight: number, roastedWeight: number): number | null => {
+  if (greenWeight <= 0) return null;
+  return ((greenWeight - roastedWeight) / greenWeight) * 100;
+};
+
+/**
+ * Get the weights of a roast with its weight loss and yield
+ *
+ * @param roast - Completed roast
+ * @returns Weights, or null unless both weights were recorded
+ */
+export const getRoastWeights = (roast: SummaryData): RoastWeights | null => {
+  const { greenWeight, roastedWeight } = roast;
+  if (greenWeight == null || roastedWeight == null) return null;
+  const weightLoss = calculateWeightLoss(greenWeight, roastedWeight);
+  if (weightLoss === null) return null;
+  return { greenWeight, roastedWeight, weightLoss, yield: 100 - weightLoss };
+};
+
+/**
+ * Judge roast development from weight loss
+ *
+ * @param weightLoss - Weight loss as a percentage
+ * @returns Development level
+ */
+export const getDevelopmentLevel = (weightLoss: number): DevelopmentLevel => {
+  if (weightLoss >= DARK_WEIGHT_LOSS) return 'Dark';
+  if (weightLoss >= MEDIUM_WEIGHT_LOSS) return 'Medium';
+  return 'Light';
+};
+
+/**
+ * Parse a weight string such as "250 g" or "250"
+ *
+ * @param value - Weight string
+ * @returns Weight in grams, or null if the value is not a valid weight
+ */
+export const parseWeight = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(g)?$/i);
+  return match ? parseFloat(match[1]) : null;
+};
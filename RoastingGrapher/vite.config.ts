@@ -1,9 +1,14 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react-swc'
+import { serviceWorker } from './plugins/serviceWorker'
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // Precache the build output so the app works offline
+    serviceWorker({ publicFiles: ['manifest.webmanifest', 'icon.svg'] })
+  ],
   base: '/RoastingGraphReact/',
   build: {
     // Generate unique filenames with hashes for cache busting